@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+
+import { buildJudgeMessages, parseJudgeVerdict, type JudgeRubric } from "@/lib/judge";
+import {
+  getProviderAdapter,
+  ProviderError,
+  readChatCompletion,
+  sendChatRequest,
+  type ChatMessage,
+} from "@/lib/providers";
+import { resolveProviderConnection } from "@/lib/providers/credentials";
+
+type JudgePayload = {
+  rubric?: JudgeRubric;
+  /** Messages the judged model received, for context. */
+  prompt?: ChatMessage[];
+  output?: string;
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+export async function POST(request: Request) {
+  let payload: JudgePayload;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const {
+    rubric,
+    prompt = [],
+    output,
+    provider = "openai",
+    model,
+    temperature = 0,
+    apiKey,
+    baseUrl,
+    apiVersion,
+  } = payload;
+
+  const criteria = Array.isArray(rubric?.criteria)
+    ? rubric.criteria.filter(
+        (criterion): criterion is string => typeof criterion === "string" && Boolean(criterion),
+      )
+    : [];
+
+  if (criteria.length === 0) {
+    return NextResponse.json({ error: "Add Success Criteria to build a grading rubric." }, { status: 400 });
+  }
+
+  if (typeof output !== "string" || !output.trim()) {
+    return NextResponse.json({ error: "There is no output to judge." }, { status: 400 });
+  }
+
+  const adapter = getProviderAdapter(provider);
+
+  if (!adapter) {
+    return NextResponse.json({ error: `Unsupported provider: ${provider}` }, { status: 400 });
+  }
+
+  const resolved = await resolveProviderConnection(adapter, { apiKey, baseUrl, apiVersion });
+
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+  }
+
+  const judgeRubric: JudgeRubric = {
+    criteria,
+    strategy: typeof rubric?.strategy === "string" ? rubric.strategy : "",
+  };
+  const judgeModel = model || adapter.defaultModel;
+
+  try {
+    const response = await sendChatRequest(
+      adapter,
+      {
+        model: judgeModel,
+        temperature,
+        messages: buildJudgeMessages(judgeRubric, Array.isArray(prompt) ? prompt : [], output),
+        responseFormat: adapter.supportsJsonMode ? "json" : undefined,
+      },
+      resolved.connection,
+      request.signal,
+    );
+    const { content } = await readChatCompletion(adapter, response);
+    const verdict = parseJudgeVerdict(content, judgeRubric, judgeModel);
+
+    if (!verdict) {
+      return NextResponse.json(
+        {
+          error:
+            "The judge did not return a score for every criterion. Try again or use a stronger judge model.",
+        },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json({ verdict });
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if ((error as Error)?.name === "AbortError") {
+      return NextResponse.json({ error: "Judging cancelled." }, { status: 499 });
+    }
+    console.error("Judge call failed", error);
+    return NextResponse.json(
+      { error: "Failed to contact the provider. Verify network and credentials." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { providerAdapters } from "@/lib/providers";
+import { getProviderAvailability } from "@/lib/providers/credentials";
+
+export const dynamic = "force-dynamic";
+
+/** Tells the client which providers have server-side credentials. Never returns the secrets. */
+export async function GET() {
+  return NextResponse.json(await getProviderAvailability(providerAdapters));
+}
@@ -1,9 +1,17 @@
 import { NextResponse } from "next/server";
 
-const PROVIDER_ENDPOINTS: Record<string, string> = {
-  openai: "https://api.openai.com/v1/chat/completions",
-  openrouter: "https://openrouter.ai/api/v1/chat/completions",
-};
+import {
+  getProviderAdapter,
+  ProviderError,
+  readChatCompletion,
+  sendChatRequest,
+  streamChatCompletion,
+  type ChatMessage,
+  type ProviderAdapter,
+} from "@/lib/providers";
+import { resolveProviderConnection } from "@/lib/providers/credentials";
+import { parseRefinementOutput, REFINEMENT_OUTPUT_INSTRUCTIONS } from "@/lib/refinement";
+import { encodeSseEvent } from "@/lib/sse";
 
 type RefinePayload = {
   prompt: string;
@@ -12,22 +20,52 @@ type RefinePayload = {
   model?: string;
   temperature?: number;
   apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  stream?: boolean;
 };
 
-const extractRefinedPrompt = (content: string | null | undefined) => {
-  if (!content) return undefined;
-
-  const codeBlockMatch = content.match(/```[a-zA-Z0-9_-]*\n([\s\S]*?)```/);
-  if (codeBlockMatch?.[1]) {
-    return codeBlockMatch[1].trim();
-  }
-
-  const finalPromptMatch = content.match(/(?:Final Prompt|Upgraded Prompt)[:\s]*([\s\S]*)/i);
-  if (finalPromptMatch?.[1]) {
-    return finalPromptMatch[1].trim();
-  }
+// Client disconnects abort `request.signal`, which is wired into the upstream fetch, so the
+// provider stream is torn down without an explicit cancel hook here.
+const streamRefinement = (adapter: ProviderAdapter, upstream: Response) => {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let content = "";
+
+      try {
+        for await (const chunk of streamChatCompletion(adapter, upstream)) {
+          if (chunk.delta) {
+            content += chunk.delta;
+            controller.enqueue(encodeSseEvent("delta", { text: chunk.delta }));
+          }
+        }
+
+        controller.enqueue(encodeSseEvent("done", { analysis: content, ...parseRefinementOutput(content) }));
+      } catch (error) {
+        if ((error as Error)?.name === "AbortError") return;
+        console.error("Refinement stream failed", error);
+        controller.enqueue(
+          encodeSseEvent("error", {
+            error: error instanceof ProviderError ? error.message : "The provider stream was interrupted.",
+          }),
+        );
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away.
+        }
+      }
+    },
+  });
 
-  return undefined;
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
 };
 
 export async function POST(request: Request) {
@@ -43,30 +81,35 @@ export async function POST(request: Request) {
     prompt,
     instructions = "Rewrite this prompt to be clearer, safer, and more actionable.",
     provider = "openai",
-    model = "gpt-4o-mini",
+    model,
     temperature = 0.4,
     apiKey,
+    baseUrl,
+    apiVersion,
+    stream = false,
   } = payload;
 
   if (!prompt?.trim()) {
     return NextResponse.json({ error: "Prompt is required for refinement." }, { status: 400 });
   }
 
-  if (!apiKey) {
-    return NextResponse.json({ error: "API key is required to call the selected provider." }, { status: 400 });
+  const adapter = getProviderAdapter(provider);
+
+  if (!adapter) {
+    return NextResponse.json({ error: `Unsupported provider: ${provider}` }, { status: 400 });
   }
 
-  const endpoint = PROVIDER_ENDPOINTS[provider];
+  const resolved = await resolveProviderConnection(adapter, { apiKey, baseUrl, apiVersion });
 
-  if (!endpoint) {
-    return NextResponse.json({ error: `Unsupported provider: ${provider}` }, { status: 400 });
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: resolved.status });
   }
 
-  const messages = [
+  const messages: ChatMessage[] = [
     {
       role: "system",
       content:
-        "You are an elite prompt engineer. Critique the prompt, describe the upgrades, and then deliver a refined version that maximizes clarity, guardrails, and evaluation instructions.",
+        `You are an elite prompt engineer. Critique the prompt, describe the upgrades, and then deliver a refined version that maximizes clarity, guardrails, and evaluation instructions.\n\n${REFINEMENT_OUTPUT_INSTRUCTIONS}`,
     },
     {
       role: "user",
@@ -74,46 +117,37 @@ export async function POST(request: Request) {
     },
   ];
 
-  const body = JSON.stringify({
-    model,
-    temperature,
-    messages,
-  });
-
   try {
-    const response = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-        ...(provider === "openrouter"
-          ? { "HTTP-Referer": "https://prompt-maker-ai", "X-Title": "Prompt Maker AI" }
-          : {}),
+    const response = await sendChatRequest(
+      adapter,
+      {
+        model: model || adapter.defaultModel,
+        temperature,
+        messages,
+        stream,
+        responseFormat: adapter.supportsJsonMode ? "json" : undefined,
       },
-      body,
-    });
+      resolved.connection,
+      request.signal,
+    );
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      return NextResponse.json(
-        {
-          error:
-            error?.error?.message ||
-            error?.message ||
-            "Provider returned a non-200 response. Check credentials and quota.",
-        },
-        { status: response.status },
-      );
+    if (stream) {
+      return streamRefinement(adapter, response);
     }
 
-    const data = await response.json();
-    const content: string | undefined = data?.choices?.[0]?.message?.content;
+    const { content } = await readChatCompletion(adapter, response);
 
     return NextResponse.json({
       analysis: content,
-      refinedPrompt: extractRefinedPrompt(content),
+      ...parseRefinementOutput(content),
     });
   } catch (error) {
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if ((error as Error)?.name === "AbortError") {
+      return NextResponse.json({ error: "Refinement cancelled." }, { status: 499 });
+    }
     console.error("Refinement call failed", error);
     return NextResponse.json(
       { error: "Failed to contact the provider. Verify network and credentials." },
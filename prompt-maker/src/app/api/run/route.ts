@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+
+import {
+  getProviderAdapter,
+  ProviderError,
+  readChatCompletion,
+  sendChatRequest,
+  type ChatMessage,
+} from "@/lib/providers";
+import { resolveProviderConnection } from "@/lib/providers/credentials";
+
+type RunPayload = {
+  messages?: ChatMessage[];
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+const CHAT_ROLES = new Set<ChatMessage["role"]>(["system", "user", "assistant"]);
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  CHAT_ROLES.has((value as ChatMessage).role) &&
+  typeof (value as ChatMessage).content === "string";
+
+/** Sends the prompt as-is and reports the model's answer with latency and token usage. */
+export async function POST(request: Request) {
+  let payload: RunPayload;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const {
+    messages,
+    provider = "openai",
+    model,
+    temperature = 0.4,
+    maxTokens,
+    apiKey,
+    baseUrl,
+    apiVersion,
+  } = payload;
+
+  if (!Array.isArray(messages) || !messages.every(isChatMessage)) {
+    return NextResponse.json(
+      { error: "messages must be an array of { role, content } objects." },
+      { status: 400 },
+    );
+  }
+
+  if (!messages.some((message) => message.role === "user" && message.content.trim())) {
+    return NextResponse.json({ error: "The prompt is empty; add a user message to run." }, { status: 400 });
+  }
+
+  const adapter = getProviderAdapter(provider);
+
+  if (!adapter) {
+    return NextResponse.json({ error: `Unsupported provider: ${provider}` }, { status: 400 });
+  }
+
+  const resolved = await resolveProviderConnection(adapter, { apiKey, baseUrl, apiVersion });
+
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+  }
+
+  const startedAt = performance.now();
+
+  try {
+    const response = await sendChatRequest(
+      adapter,
+      { model: model || adapter.defaultModel, temperature, messages, maxTokens },
+      resolved.connection,
+      request.signal,
+    );
+    const { content, usage } = await readChatCompletion(adapter, response);
+
+    return NextResponse.json({
+      content: content ?? "",
+      usage,
+      latencyMs: Math.round(performance.now() - startedAt),
+    });
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if ((error as Error)?.name === "AbortError") {
+      return NextResponse.json({ error: "Run cancelled." }, { status: 499 });
+    }
+    console.error("Prompt run failed", error);
+    return NextResponse.json(
+      { error: "Failed to contact the provider. Verify network and credentials." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { loadTemplatePacks } from "@/lib/template-packs";
+
+export const dynamic = "force-dynamic";
+
+/** Template packs from the server's template directory. Built-in templates ship with the client. */
+export async function GET() {
+  return NextResponse.json(await loadTemplatePacks());
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+
+import type { ChatMessage } from "@/lib/providers";
+import {
+  anthropicAdapter,
+  buildAnthropicTokenCountRequest,
+  parseAnthropicTokenCount,
+} from "@/lib/providers/anthropic";
+import { resolveProviderConnection } from "@/lib/providers/credentials";
+
+type TokenCountPayload = {
+  messages?: ChatMessage[];
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+const CHAT_ROLES = new Set<ChatMessage["role"]>(["system", "user", "assistant"]);
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  CHAT_ROLES.has((value as ChatMessage).role) &&
+  typeof (value as ChatMessage).content === "string";
+
+/** Exact input size of a prompt from the provider's own tokenizer. Only Anthropic exposes one. */
+export async function POST(request: Request) {
+  let payload: TokenCountPayload;
+
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  const { messages, provider = anthropicAdapter.id, model, apiKey, baseUrl, apiVersion } = payload;
+
+  if (!Array.isArray(messages) || !messages.every(isChatMessage)) {
+    return NextResponse.json(
+      { error: "messages must be an array of { role, content } objects." },
+      { status: 400 },
+    );
+  }
+
+  if (!messages.some((message) => message.role !== "system" && message.content.trim())) {
+    return NextResponse.json({ error: "The prompt is empty; nothing to count." }, { status: 400 });
+  }
+
+  if (provider !== anthropicAdapter.id) {
+    return NextResponse.json(
+      { error: `Exact token counts are only available for ${anthropicAdapter.label}.` },
+      { status: 400 },
+    );
+  }
+
+  const resolved = await resolveProviderConnection(anthropicAdapter, { apiKey, baseUrl, apiVersion });
+
+  if ("error" in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+  }
+
+  const built = buildAnthropicTokenCountRequest(
+    model || anthropicAdapter.defaultModel,
+    messages,
+    resolved.connection,
+  );
+
+  try {
+    const response = await fetch(built.url, { ...built.init, method: "POST", signal: request.signal });
+    const body = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { error: anthropicAdapter.mapError(response.status, body) },
+        { status: response.status },
+      );
+    }
+
+    const inputTokens = parseAnthropicTokenCount(body);
+    if (inputTokens === undefined) {
+      return NextResponse.json({ error: "The provider did not return a token count." }, { status: 502 });
+    }
+
+    return NextResponse.json({ inputTokens });
+  } catch (error) {
+    if ((error as Error)?.name === "AbortError") {
+      return NextResponse.json({ error: "Count cancelled." }, { status: 499 });
+    }
+    console.error("Token count failed", error);
+    return NextResponse.json(
+      { error: "Failed to contact the provider. Verify network and credentials." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { pickFields } from "@/lib/prompt-merge";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import { diffPromptStates } from "@/lib/prompt-versions";
+
+import { describeSection, sectionLabel } from "./prompt-sections";
+import styles from "./ApplyRefinementDialog.module.css";
+
+type FieldPreview = {
+  key: keyof PromptState;
+  before: string;
+  after: string;
+};
+
+export const ApplyRefinementDialog = ({
+  current,
+  proposed,
+  ignored,
+  onApply,
+  onClose,
+}: {
+  current: PromptState;
+  proposed: PromptState;
+  ignored: ValidationIssue[];
+  onApply: (state: PromptState) => void;
+  onClose: () => void;
+}) => {
+  const fields = useMemo<FieldPreview[]>(() => {
+    const diff = diffPromptStates(current, proposed);
+    const keys: Array<keyof PromptState> = [
+      ...diff.text.map((change) => change.key),
+      ...diff.lists.map((change) => change.key),
+      ...(diff.workflow.length > 0 ? (["workflow"] as const) : []),
+      ...(diff.variables.length > 0 ? (["variables"] as const) : []),
+    ];
+    return keys.map((key) => ({ key, before: describeSection(current, key), after: describeSection(proposed, key) }));
+  }, [current, proposed]);
+
+  const [rejected, setRejected] = useState<Set<keyof PromptState>>(() => new Set());
+  const accepted = fields.filter((field) => !rejected.has(field.key)).map((field) => field.key);
+
+  const toggle = (key: keyof PromptState) =>
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="apply-refinement-title"
+        tabIndex={-1}
+        autoFocus
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onClose();
+        }}
+      >
+        <header>
+          <h2 id="apply-refinement-title">Apply refinement to workspace</h2>
+          <button type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        {fields.length === 0 ? (
+          <p className={styles.empty}>The refined prompt does not change any workspace section.</p>
+        ) : (
+          <ul className={styles.fieldList}>
+            {fields.map((field) => (
+              <li key={field.key}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={!rejected.has(field.key)}
+                    onChange={() => toggle(field.key)}
+                  />
+                  {sectionLabel(field.key)}
+                </label>
+                <div className={styles.sideBySide}>
+                  <pre className={styles.before}>{field.before || "—"}</pre>
+                  <pre className={styles.after}>{field.after || "—"}</pre>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {ignored.length > 0 && (
+          <div className={styles.ignored}>
+            <strong>Skipped from the model output:</strong>
+            <ul>
+              {ignored.map((issue) => (
+                <li key={`${issue.path}:${issue.message}`}>
+                  <code>{issue.path}</code> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <footer>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className={styles.applyButton}
+            disabled={accepted.length === 0}
+            onClick={() => onApply(pickFields(current, proposed, accepted))}
+          >
+            Apply {accepted.length} {accepted.length === 1 ? "section" : "sections"}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyRefinementDialog;
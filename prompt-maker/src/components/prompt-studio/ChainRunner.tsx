@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { chainStages, reusableStageCount, runPromptChain, type ChainStageResult } from "@/lib/prompt-chain";
+import type { PromptState } from "@/lib/prompt-types";
+
+import styles from "./ChainRunner.module.css";
+import { sectionLabel } from "./prompt-sections";
+import { toProviderPayload, type ProviderSettingsValue } from "./ProviderSettings";
+
+const stageStatus = (result: ChainStageResult | undefined, running: boolean) => {
+  if (!result) return running ? { label: "Waiting", className: styles.pending } : undefined;
+  if (result.error) return { label: "Error", className: styles.failed };
+  if (!result.check)
+    return { label: result.output === undefined ? "Running" : "Done", className: styles.done };
+  return result.check.passed
+    ? { label: "Meets expected output", className: styles.passed }
+    : { label: "Misses expected output", className: styles.failed };
+};
+
+/** Runs each Agent Workflow stage as its own call, passing every output on to the next stage. */
+export const ChainRunner = ({
+  state,
+  settings,
+  disabled,
+}: {
+  /** The rendered prompt, so every stage sees the same variable values. */
+  state: PromptState;
+  settings: ProviderSettingsValue;
+  disabled: boolean;
+}) => {
+  const [results, setResults] = useState<ChainStageResult[]>([]);
+  const [runningFrom, setRunningFrom] = useState<number | undefined>(undefined);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const abort = useRef<AbortController | undefined>(undefined);
+  const stages = chainStages(state);
+  const reusable = useMemo(() => reusableStageCount(state, results, sectionLabel), [state, results]);
+
+  // Switching the Playground back to a single call unmounts the runner; stop paying for the chain.
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const run = async (fromIndex: number) => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setRunningFrom(fromIndex);
+    setError(undefined);
+    setResults((prev) => prev.slice(0, fromIndex));
+
+    try {
+      const next = await runPromptChain(
+        {
+          state,
+          label: sectionLabel,
+          request: toProviderPayload(settings),
+          signal: controller.signal,
+          onProgress: setResults,
+        },
+        results,
+        fromIndex,
+      );
+      setResults(next);
+    } catch {
+      setError("Chain run cancelled.");
+    } finally {
+      abort.current = undefined;
+      setRunningFrom(undefined);
+    }
+  };
+
+  const isRunning = runningFrom !== undefined;
+  const totalTokens = results.reduce(
+    (total, result) => total + (result.usage?.inputTokens ?? 0) + (result.usage?.outputTokens ?? 0),
+    0,
+  );
+  const totalLatency = results.reduce((total, result) => total + (result.latencyMs ?? 0), 0);
+
+  if (stages.length === 0) {
+    return <p className={styles.hint}>Add Agent Workflow stages to run the prompt as a chain.</p>;
+  }
+
+  return (
+    <div className={styles.chain}>
+      <div className={styles.toolbar}>
+        <span className={styles.hint}>
+          {stages.length} {stages.length === 1 ? "stage" : "stages"}
+          {results.length > 0 &&
+            ` · ${totalTokens.toLocaleString()} tokens · ${(totalLatency / 1000).toFixed(1)} s`}
+        </span>
+        {isRunning ? (
+          <button type="button" onClick={() => abort.current?.abort()}>
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={() => run(0)} disabled={disabled}>
+            Run chain
+          </button>
+        )}
+      </div>
+      {error && <p className={styles.error}>{error}</p>}
+
+      <ol className={styles.trace}>
+        {stages.map((stage, index) => {
+          const result = results[index]?.stageId === stage.id ? results[index] : undefined;
+          const status = stageStatus(result, isRunning && index >= (runningFrom ?? 0));
+          // Re-running needs every earlier stage's output, still matching the stage it came from.
+          const canRerun = !isRunning && !disabled && index <= reusable;
+          return (
+            <li key={stage.id}>
+              <div className={styles.stageHeader}>
+                <strong>
+                  {index + 1}. {stage.title.trim() || `Stage ${index + 1}`}
+                </strong>
+                {status && <span className={status.className}>{status.label}</span>}
+                <button type="button" onClick={() => run(index)} disabled={!canRerun}>
+                  Re-run from here
+                </button>
+              </div>
+              {result && (
+                <>
+                  <div className={styles.meta}>
+                    {result.latencyMs !== undefined && <span>{(result.latencyMs / 1000).toFixed(2)} s</span>}
+                    {result.usage && (
+                      <span>
+                        {result.usage.inputTokens ?? "?"} in · {result.usage.outputTokens ?? "?"} out
+                      </span>
+                    )}
+                  </div>
+                  {result.check && (
+                    <p className={result.check.passed ? styles.hint : styles.error}>{result.check.message}</p>
+                  )}
+                  {result.error && <p className={styles.error}>{result.error}</p>}
+                  <details>
+                    <summary>Input</summary>
+                    {result.messages.map((message, messageIndex) => (
+                      <pre key={messageIndex}>
+                        [{message.role}]{"\n"}
+                        {message.content}
+                      </pre>
+                    ))}
+                  </details>
+                  {result.output !== undefined && (
+                    <details open={index === results.length - 1}>
+                      <summary>Output</summary>
+                      <pre>{result.output || "(empty response)"}</pre>
+                    </details>
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default ChainRunner;
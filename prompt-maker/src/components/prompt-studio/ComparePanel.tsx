@@ -0,0 +1,297 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import {
+  createComparison,
+  createPromptRun,
+  executePromptRun,
+  loadComparisons,
+  persistComparisons,
+  type ComparisonWinner,
+  type PromptComparison,
+  type PromptRun,
+  type VariantSource,
+} from "@/lib/prompt-runs";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import { compileChatMessages, type CompileTargetId } from "@/lib/prompt-targets";
+import type { PromptState } from "@/lib/prompt-types";
+import { renderPromptState, substitutePlaceholders } from "@/lib/prompt-variables";
+import type { PromptVersion } from "@/lib/prompt-versions";
+import type { ChatMessage } from "@/lib/providers";
+
+import styles from "./ComparePanel.module.css";
+import { sectionLabel } from "./prompt-sections";
+import { toProviderPayload, type ProviderSettingsValue } from "./ProviderSettings";
+import { useLocalStorageState } from "./useLocalStorageState";
+import type { PromptRunsController } from "./usePromptRuns";
+
+/** Empty model/temperature fall back to the shared settings. */
+type VariantConfig = { source: VariantSource; model: string; temperature: string };
+
+type ResolvedVariant = {
+  label: string;
+  versionId?: string;
+  messages: ChatMessage[];
+};
+
+const SIDES = ["a", "b"] as const;
+
+/** Select values: `workspace`, `refined` or `version:<id>`. */
+const sourceKey = (source: VariantSource) =>
+  source.kind === "version" ? `version:${source.versionId}` : source.kind;
+
+const parseSourceKey = (key: string): VariantSource =>
+  key.startsWith("version:")
+    ? { kind: "version", versionId: key.slice("version:".length) }
+    : { kind: key === "refined" ? "refined" : "workspace" };
+
+const winnerLabels: Record<ComparisonWinner, string> = {
+  a: "A is better",
+  tie: "Tie",
+  b: "B is better",
+};
+
+const RunColumn = ({ side, run, won }: { side: string; run: PromptRun; won: boolean }) => (
+  <div className={won ? `${styles.column} ${styles.winner}` : styles.column}>
+    <h3>
+      {side.toUpperCase()} · {run.versionLabel}
+    </h3>
+    <div className={styles.meta}>
+      <span>{run.model}</span>
+      <span>temp {run.temperature}</span>
+      {run.latencyMs !== undefined && <span>{(run.latencyMs / 1000).toFixed(2)} s</span>}
+      {run.usage && (
+        <span>
+          {run.usage.inputTokens ?? "?"} in · {run.usage.outputTokens ?? "?"} out
+        </span>
+      )}
+    </div>
+    {run.error ? <p className={styles.error}>{run.error}</p> : <pre>{run.output || "(empty response)"}</pre>}
+  </div>
+);
+
+/** Runs two prompt/model variants on the same variable values and records which answer won. */
+export const ComparePanel = ({
+  state,
+  versions,
+  refinedPrompt,
+  workspaceVersion,
+  values,
+  issues,
+  target,
+  settings,
+  promptId,
+  promptName,
+  log,
+}: {
+  state: PromptState;
+  versions: PromptVersion[];
+  refinedPrompt?: string;
+  workspaceVersion: { versionId?: string; versionLabel: string };
+  values: Record<string, string>;
+  issues: ValidationIssue[];
+  target: CompileTargetId;
+  settings: ProviderSettingsValue;
+  promptId?: string;
+  promptName: string;
+  log: PromptRunsController;
+}) => {
+  const [variants, setVariants] = useState<Record<"a" | "b", VariantConfig>>({
+    a: { source: { kind: "workspace" }, model: "", temperature: "" },
+    b: { source: { kind: "refined" }, model: "", temperature: "" },
+  });
+  const [comparisons, setComparisons] = useLocalStorageState<PromptComparison[]>(
+    loadComparisons,
+    persistComparisons,
+    [],
+  );
+  const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+  const [isRunning, setIsRunning] = useState(false);
+  const abort = useRef<AbortController | undefined>(undefined);
+
+  const visible = comparisons.filter((comparison) => comparison.promptId === promptId);
+  const selected = visible.find((comparison) => comparison.id === selectedId) ?? visible[0];
+
+  // Sources that no longer exist (another prompt's version, a cleared refinement) read as the workspace.
+  const resolveVariant = (source: VariantSource): ResolvedVariant => {
+    const versionIndex =
+      source.kind === "version" ? versions.findIndex((version) => version.id === source.versionId) : -1;
+    if (versionIndex >= 0) {
+      const version = versions[versionIndex];
+      return {
+        label: `v${versions.length - versionIndex} · ${version.message}`,
+        versionId: version.id,
+        messages: compileChatMessages(renderPromptState(version.state, values).state, target, sectionLabel),
+      };
+    }
+    if (source.kind === "refined" && refinedPrompt) {
+      return {
+        label: "Refined prompt",
+        messages: [{ role: "user", content: substitutePlaceholders(refinedPrompt, values) }],
+      };
+    }
+    return {
+      label: workspaceVersion.versionLabel,
+      versionId: workspaceVersion.versionId,
+      messages: compileChatMessages(renderPromptState(state, values).state, target, sectionLabel),
+    };
+  };
+
+  const sourceValue = (source: VariantSource) =>
+    (source.kind === "refined" && refinedPrompt) ||
+    (source.kind === "version" && versions.some((version) => version.id === source.versionId))
+      ? sourceKey(source)
+      : "workspace";
+
+  const updateVariant = (side: "a" | "b", patch: Partial<VariantConfig>) =>
+    setVariants((prev) => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsRunning(true);
+
+    try {
+      const runs = await Promise.all(
+        SIDES.map(async (side) => {
+          const config = variants[side];
+          const variant = resolveVariant(config.source);
+          const model = config.model.trim() || settings.model;
+          const temperature = config.temperature.trim() ? Number(config.temperature) : settings.temperature;
+          const response = await executePromptRun(
+            { ...toProviderPayload(settings), model, temperature, messages: variant.messages },
+            controller.signal,
+          );
+          return createPromptRun(
+            {
+              promptId,
+              promptName,
+              versionId: variant.versionId,
+              versionLabel: variant.label,
+              provider: settings.provider,
+              model,
+              temperature,
+              messages: variant.messages,
+              values,
+            },
+            response,
+          );
+        }),
+      );
+      runs.forEach(log.addRun);
+      const comparison = createComparison([runs[0], runs[1]], promptId);
+      setComparisons((prev) => [comparison, ...prev]);
+      setSelectedId(comparison.id);
+    } catch {
+      // Cancelled: neither side is recorded.
+    } finally {
+      abort.current = undefined;
+      setIsRunning(false);
+    }
+  };
+
+  const recordWinner = (id: string, winner: ComparisonWinner) =>
+    setComparisons((prev) =>
+      prev.map((comparison) => (comparison.id === id ? { ...comparison, winner } : comparison)),
+    );
+
+  return (
+    <section className={styles.compare}>
+      <header>
+        <h2>A/B Compare</h2>
+        {isRunning ? (
+          <button type="button" onClick={() => abort.current?.abort()}>
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={handleRun} disabled={issues.length > 0}>
+            Run both
+          </button>
+        )}
+      </header>
+      <p className={styles.hint}>Both variants use the same variable test values.</p>
+
+      <div className={styles.variants}>
+        {SIDES.map((side) => (
+          <fieldset key={side}>
+            <legend>Variant {side.toUpperCase()}</legend>
+            <select
+              aria-label="Prompt"
+              value={sourceValue(variants[side].source)}
+              onChange={(event) => updateVariant(side, { source: parseSourceKey(event.target.value) })}
+            >
+              <option value="workspace">Current workspace</option>
+              {refinedPrompt && <option value="refined">Refined prompt</option>}
+              {versions.map((version, index) => (
+                <option key={version.id} value={`version:${version.id}`}>
+                  v{versions.length - index} · {version.message}
+                </option>
+              ))}
+            </select>
+            <input
+              aria-label="Model"
+              value={variants[side].model}
+              placeholder={settings.model}
+              onChange={(event) => updateVariant(side, { model: event.target.value })}
+            />
+            <input
+              aria-label="Temperature"
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={variants[side].temperature}
+              placeholder={String(settings.temperature)}
+              onChange={(event) => updateVariant(side, { temperature: event.target.value })}
+            />
+          </fieldset>
+        ))}
+      </div>
+
+      {selected && (
+        <>
+          <div className={styles.columns}>
+            {SIDES.map((side, index) => (
+              <RunColumn key={side} side={side} run={selected.runs[index]} won={selected.winner === side} />
+            ))}
+          </div>
+          <div className={styles.verdict} role="group" aria-label="Record the winner">
+            {(Object.keys(winnerLabels) as ComparisonWinner[]).map((winner) => (
+              <button
+                key={winner}
+                type="button"
+                onClick={() => recordWinner(selected.id, winner)}
+                disabled={selected.winner === winner}
+              >
+                {winnerLabels[winner]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {visible.length > 1 && (
+        <ol className={styles.history}>
+          {visible.map((comparison) => (
+            <li key={comparison.id}>
+              <button
+                type="button"
+                onClick={() => setSelectedId(comparison.id)}
+                disabled={comparison.id === selected?.id}
+              >
+                {comparison.runs.map((run) => `${run.versionLabel} (${run.model})`).join(" vs ")}
+                <span className={styles.meta}>
+                  {new Date(comparison.createdAt).toLocaleString()} ·{" "}
+                  {comparison.winner ? winnerLabels[comparison.winner] : "No verdict"}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default ComparePanel;
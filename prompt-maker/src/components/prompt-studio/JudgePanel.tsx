@@ -0,0 +1,140 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+
+import { buildJudgeRubric, JUDGE_MAX_SCORE, type JudgeVerdict } from "@/lib/judge";
+import type { PromptRun } from "@/lib/prompt-runs";
+import type { PromptState } from "@/lib/prompt-types";
+import type { ProviderAvailability } from "@/lib/providers";
+
+import styles from "./JudgePanel.module.css";
+import { ProviderSettings, toProviderPayload, type ProviderSettingsValue } from "./ProviderSettings";
+
+type JudgeResponse = { verdict?: JudgeVerdict; error?: string };
+
+/**
+ * Grades a playground output against a rubric built from Success Criteria, using the
+ * Self-Evaluation Strategy as the judge's instructions.
+ */
+export const JudgePanel = ({
+  state,
+  run,
+  settings,
+  availability,
+  onSettingsChange,
+  onJudged,
+}: {
+  state: PromptState;
+  /** The run selected in the Playground log; its stored verdict is shown until it is re-judged. */
+  run?: PromptRun;
+  settings: ProviderSettingsValue;
+  availability?: ProviderAvailability;
+  onSettingsChange: (settings: ProviderSettingsValue) => void;
+  onJudged: (runId: string, verdict: JudgeVerdict) => void;
+}) => {
+  const [isJudging, setIsJudging] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const abort = useRef<AbortController | undefined>(undefined);
+  const rubric = useMemo(() => buildJudgeRubric(state), [state]);
+  const verdict = run?.judgement;
+
+  const handleJudge = async () => {
+    if (!run?.output) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsJudging(true);
+    setError(undefined);
+
+    try {
+      const response = await fetch("/api/judge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          rubric,
+          prompt: run.messages,
+          output: run.output,
+          ...toProviderPayload(settings),
+        }),
+        signal: controller.signal,
+      });
+      const data: JudgeResponse = await response.json().catch(() => ({}));
+      if (!response.ok || !data.verdict) {
+        setError(data.error ?? "Unable to judge the output. Check the judge model settings.");
+        return;
+      }
+      onJudged(run.id, data.verdict);
+    } catch (caught) {
+      if (controller.signal.aborted) {
+        setError("Judging cancelled.");
+      } else {
+        setError("Network error while judging the output.");
+        console.error(caught);
+      }
+    } finally {
+      abort.current = undefined;
+      setIsJudging(false);
+    }
+  };
+
+  return (
+    <div className={styles.judge}>
+      <div className={styles.header}>
+        <strong>Judge scores</strong>
+        {verdict && <span className={styles.overall}>{verdict.overall}</span>}
+      </div>
+
+      {rubric.criteria.length === 0 ? (
+        <p className={styles.hint}>List Success Criteria, one per line, to give the judge a rubric.</p>
+      ) : !run?.output ? (
+        <p className={styles.hint}>
+          Run the prompt in the Playground, or select a run with an output, to judge it.
+        </p>
+      ) : (
+        <p className={styles.hint}>
+          Grading the selected run ({run.versionLabel}, {run.model}) on {rubric.criteria.length}{" "}
+          {rubric.criteria.length === 1 ? "criterion" : "criteria"}.
+        </p>
+      )}
+
+      {verdict && (
+        <>
+          <ul className={styles.scores}>
+            {verdict.scores.map((entry, index) => (
+              // Success Criteria may repeat a line, so the criterion text is not a unique key.
+              <li key={index}>
+                <span>{entry.criterion}</span>
+                <span className={styles.score}>
+                  {entry.score}/{JUDGE_MAX_SCORE}
+                </span>
+                {entry.justification && <p>{entry.justification}</p>}
+              </li>
+            ))}
+          </ul>
+          {verdict.summary && <p className={styles.hint}>{verdict.summary}</p>}
+          <p className={styles.hint}>Judged by {verdict.judgeModel}.</p>
+        </>
+      )}
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      <details className={styles.settings}>
+        <summary>Judge model</summary>
+        <ProviderSettings value={settings} onChange={onSettingsChange} availability={availability} />
+      </details>
+
+      {isJudging ? (
+        <button type="button" onClick={() => abort.current?.abort()}>
+          Cancel judging
+        </button>
+      ) : (
+        <button type="button" onClick={handleJudge} disabled={!run?.output || rubric.criteria.length === 0}>
+          {verdict ? "Re-judge output" : "Judge output"}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default JudgePanel;
@@ -0,0 +1,48 @@
+"use client";
+
+import type { VariableLintIssue } from "@/lib/prompt-lint";
+
+import styles from "./LintMarkers.module.css";
+
+const kindLabels: Record<VariableLintIssue["kind"], string> = {
+  undeclared: "Undeclared",
+  unused: "Unused",
+  duplicate: "Duplicate",
+  malformed: "Malformed",
+};
+
+/** Inline placeholder lint results for one card, with the "declare variable" fix where it applies. */
+export const LintMarkers = ({
+  issues,
+  onDeclare,
+}: {
+  issues: VariableLintIssue[];
+  onDeclare: (name: string) => void;
+}) =>
+  issues.length > 0 ? (
+    <ul className={styles.markers}>
+      {issues.map((issue) => (
+        <li key={issue.id} className={styles[issue.kind]}>
+          <span className={styles.kind}>{kindLabels[issue.kind]}</span>
+          <span>{issue.message}</span>
+          {issue.declare && <DeclareButton name={issue.declare} onDeclare={onDeclare} />}
+        </li>
+      ))}
+    </ul>
+  ) : null;
+
+export const DeclareButton = ({ name, onDeclare }: { name: string; onDeclare: (name: string) => void }) => (
+  <button
+    type="button"
+    className={styles.fix}
+    onClick={(event) => {
+      // Markers sit inside field labels; keep the click from focusing the field instead.
+      event.preventDefault();
+      onDeclare(name);
+    }}
+  >
+    Declare {name}
+  </button>
+);
+
+export default LintMarkers;
@@ -0,0 +1,201 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { canRunAsChain } from "@/lib/prompt-chain";
+import { createPromptRun, executePromptRun, type PromptRun } from "@/lib/prompt-runs";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import type { ChatMessage } from "@/lib/providers";
+
+import { ChainRunner } from "./ChainRunner";
+import styles from "./Playground.module.css";
+import { toProviderPayload, type ProviderSettingsValue } from "./ProviderSettings";
+import type { PromptRunsController } from "./usePromptRuns";
+
+const formatUsage = (run: PromptRun) =>
+  run.usage
+    ? `${run.usage.inputTokens ?? "?"} in · ${run.usage.outputTokens ?? "?"} out`
+    : "usage not reported";
+
+type RunMode = "single" | "chain";
+
+/**
+ * Sends the rendered prompt to the selected model and keeps a log of what came back. Chain mode
+ * runs the Agent Workflow one stage per call instead.
+ */
+export const Playground = ({
+  state,
+  messages,
+  values,
+  issues,
+  unresolved,
+  settings,
+  promptId,
+  promptName,
+  version,
+  log,
+}: {
+  /** The rendered prompt, used by chain mode. */
+  state: PromptState;
+  messages: ChatMessage[];
+  values: Record<string, string>;
+  issues: ValidationIssue[];
+  unresolved: string[];
+  settings: ProviderSettingsValue;
+  promptId?: string;
+  promptName: string;
+  version: { versionId?: string; versionLabel: string };
+  log: PromptRunsController;
+}) => {
+  const [selectedMode, setMode] = useState<RunMode>("single");
+  const chainable = canRunAsChain(state);
+  // Adding a route while in chain mode falls back to a single call rather than running the wrong order.
+  const mode = chainable ? selectedMode : "single";
+  const [isRunning, setIsRunning] = useState(false);
+  const [thisPromptOnly, setThisPromptOnly] = useState(true);
+  const abort = useRef<AbortController | undefined>(undefined);
+
+  const visibleRuns = thisPromptOnly ? log.runs.filter((run) => run.promptId === promptId) : log.runs;
+  const selected = visibleRuns.find((run) => run.id === log.selectedId) ?? visibleRuns[0];
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abort.current = controller;
+    setIsRunning(true);
+
+    try {
+      const response = await executePromptRun({ messages, ...toProviderPayload(settings) }, controller.signal);
+      const run = createPromptRun(
+        {
+          promptId,
+          promptName,
+          ...version,
+          provider: settings.provider,
+          model: settings.model,
+          temperature: settings.temperature,
+          messages,
+          values,
+        },
+        response,
+      );
+      log.addRun(run);
+      log.setSelectedId(run.id);
+    } catch {
+      // Cancelled: nothing reached the log.
+    } finally {
+      abort.current = undefined;
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <section className={styles.playground}>
+      <header>
+        <h2>Playground</h2>
+        <div className={styles.modes} role="group" aria-label="Run mode">
+          <button type="button" onClick={() => setMode("single")} disabled={mode === "single"}>
+            Single call
+          </button>
+          <button type="button" onClick={() => setMode("chain")} disabled={mode === "chain" || !chainable}>
+            Chain
+          </button>
+        </div>
+        {mode === "single" &&
+          (isRunning ? (
+            <button type="button" onClick={() => abort.current?.abort()}>
+              Cancel
+            </button>
+          ) : (
+            <button type="button" onClick={handleRun} disabled={issues.length > 0 || messages.length === 0}>
+              Run prompt
+            </button>
+          ))}
+      </header>
+      <p className={styles.hint}>
+        Sends the rendered prompt to <code>{settings.model}</code> at temperature {settings.temperature}. Runs
+        are logged against {version.versionLabel}.
+      </p>
+      {!chainable && (
+        <p className={styles.hint}>
+          Chain mode runs the stages in list order and cannot follow routes or stop at a final stage, so this
+          branching workflow runs as a single call.
+        </p>
+      )}
+      {issues.length > 0 && (
+        <p className={styles.error}>
+          Fix the variable test values before running ({issues.length}{" "}
+          {issues.length === 1 ? "issue" : "issues"}).
+        </p>
+      )}
+      {unresolved.length > 0 && (
+        <p className={styles.warning}>
+          Unfilled placeholders are sent verbatim: {unresolved.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+      )}
+
+      {mode === "chain" && <ChainRunner state={state} settings={settings} disabled={issues.length > 0} />}
+
+      {mode === "single" && selected && (
+        <article className={styles.response}>
+          <div className={styles.meta}>
+            <span>{selected.model}</span>
+            {selected.latencyMs !== undefined && <span>{(selected.latencyMs / 1000).toFixed(2)} s</span>}
+            {!selected.error && <span>{formatUsage(selected)}</span>}
+            {selected.judgement && <span>judge {selected.judgement.overall}/100</span>}
+          </div>
+          {selected.error ? (
+            <p className={styles.error}>{selected.error}</p>
+          ) : (
+            <pre>{selected.output || "(empty response)"}</pre>
+          )}
+        </article>
+      )}
+
+      <div className={styles.logHeader}>
+        <h3>Run log</h3>
+        <label>
+          <input
+            type="checkbox"
+            checked={thisPromptOnly}
+            onChange={(event) => setThisPromptOnly(event.target.checked)}
+          />
+          This prompt only
+        </label>
+        <button
+          type="button"
+          onClick={() => log.clearRuns(thisPromptOnly ? (run) => run.promptId === promptId : undefined)}
+          disabled={visibleRuns.length === 0}
+        >
+          Clear
+        </button>
+      </div>
+      {visibleRuns.length === 0 ? (
+        <p className={styles.hint}>No runs yet.</p>
+      ) : (
+        <ol className={styles.log}>
+          {visibleRuns.map((run) => (
+            <li key={run.id}>
+              <button
+                type="button"
+                onClick={() => log.setSelectedId(run.id)}
+                disabled={run.id === selected?.id}
+                title={new Date(run.createdAt).toLocaleString()}
+              >
+                <span className={run.error ? styles.failed : undefined}>
+                  {run.promptName} · {run.versionLabel}
+                </span>
+                <span className={styles.runMeta}>
+                  {run.model} · {new Date(run.createdAt).toLocaleTimeString()}
+                  {run.latencyMs !== undefined && ` · ${(run.latencyMs / 1000).toFixed(1)} s`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default Playground;
@@ -0,0 +1,97 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { generateSnippet, snippetLanguages, type SnippetLanguage } from "@/lib/code-snippets";
+import { downloadTextFile } from "@/lib/download";
+import { compileChatMessages, type CompileTargetId } from "@/lib/prompt-targets";
+import type { PromptState } from "@/lib/prompt-types";
+import { getProviderAdapter } from "@/lib/providers";
+
+import { sectionLabel } from "./prompt-sections";
+import type { ProviderSettingsValue } from "./ProviderSettings";
+import styles from "./PromptCode.module.css";
+
+/** Integration code for the compiled template; declared variables become function parameters. */
+export const PromptCode = ({
+  state,
+  target,
+  settings,
+}: {
+  state: PromptState;
+  target: CompileTargetId;
+  settings: ProviderSettingsValue;
+}) => {
+  const [language, setLanguage] = useState<SnippetLanguage>("ts-fetch");
+  const [copied, setCopied] = useState(false);
+
+  const snippet = useMemo(() => {
+    const adapter = getProviderAdapter(settings.provider);
+    if (!adapter) return { error: `Unknown provider "${settings.provider}".` };
+
+    const messages = compileChatMessages(state, target, sectionLabel);
+
+    try {
+      return {
+        code: generateSnippet(language, {
+          adapter,
+          model: settings.model,
+          temperature: settings.temperature,
+          baseUrl: settings.baseUrl,
+          apiVersion: settings.apiVersion,
+          messages,
+          variables: state.variables,
+        }),
+      };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [language, settings, state, target]);
+
+  const filename = snippetLanguages.find((entry) => entry.id === language)?.filename ?? "prompt.txt";
+
+  const handleCopy = async () => {
+    if (!snippet.code) return;
+    try {
+      await navigator.clipboard.writeText(snippet.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1800);
+    } catch (error) {
+      console.error("Clipboard copy failed", error);
+    }
+  };
+
+  return (
+    <div className={styles.code}>
+      <div className={styles.toolbar}>
+        <select
+          aria-label="Language"
+          value={language}
+          onChange={(event) => setLanguage(event.target.value as SnippetLanguage)}
+        >
+          {snippetLanguages.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              {entry.label}
+            </option>
+          ))}
+        </select>
+        <span className={styles.meta}>
+          {settings.model} · temperature {settings.temperature}
+        </span>
+        <button type="button" onClick={handleCopy} disabled={!snippet.code}>
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <button
+          type="button"
+          disabled={!snippet.code}
+          onClick={() => snippet.code && downloadTextFile(filename, snippet.code, "text/plain")}
+        >
+          Download
+        </button>
+      </div>
+      {snippet.error ? <p className={styles.error}>{snippet.error}</p> : <pre>{snippet.code}</pre>}
+    </div>
+  );
+};
+
+export default PromptCode;
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+
+import type { PromptLibraryController } from "./usePromptLibrary";
+import styles from "./PromptLibrary.module.css";
+
+const formatTimestamp = (value: string | Date) =>
+  new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export const PromptLibrary = ({ library }: { library: PromptLibraryController }) => {
+  const [draftName, setDraftName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | undefined>(undefined);
+  const [renameDraft, setRenameDraft] = useState("");
+
+  const handleSaveAs = () => {
+    library.saveAs(draftName.trim() || undefined);
+    setDraftName("");
+  };
+
+  const commitRename = () => {
+    if (renamingId) {
+      library.rename(renamingId, renameDraft);
+    }
+    setRenamingId(undefined);
+  };
+
+  return (
+    <div className={styles.library}>
+      <header className={styles.libraryHeader}>
+        <h2>My Prompts</h2>
+        <p className={styles.status}>
+          {library.activePrompt
+            ? `Editing "${library.activePrompt.name}"${library.hasUnsavedChanges ? " · unsaved changes" : ""}`
+            : "Unsaved draft"}
+          {library.lastAutosave && ` · autosaved ${formatTimestamp(library.lastAutosave)}`}
+        </p>
+      </header>
+
+      <div className={styles.saveRow}>
+        <input
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleSaveAs();
+            }
+          }}
+          placeholder="Name this prompt"
+        />
+        <button type="button" onClick={handleSaveAs}>
+          Save as new
+        </button>
+        {library.activePrompt && (
+          <button
+            type="button"
+            className={styles.primary}
+            onClick={() => library.save()}
+            disabled={!library.hasUnsavedChanges}
+          >
+            Save
+          </button>
+        )}
+      </div>
+
+      {library.prompts.length === 0 ? (
+        <p className={styles.empty}>Saved prompts appear here. Your current draft is autosaved in this browser.</p>
+      ) : (
+        <ul className={styles.promptList}>
+          {library.prompts.map((entry) => (
+            <li
+              key={entry.id}
+              className={
+                entry.id === library.activePrompt?.id
+                  ? `${styles.promptItem} ${styles.promptItemActive}`
+                  : styles.promptItem
+              }
+            >
+              {renamingId === entry.id ? (
+                <input
+                  autoFocus
+                  value={renameDraft}
+                  onChange={(event) => setRenameDraft(event.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") commitRename();
+                    if (event.key === "Escape") setRenamingId(undefined);
+                  }}
+                  aria-label="Prompt name"
+                />
+              ) : (
+                <button
+                  type="button"
+                  className={styles.promptName}
+                  onClick={() => {
+                    if (
+                      library.hasUnsavedChanges &&
+                      !window.confirm("Open this prompt? Unsaved changes in the current workspace will be replaced.")
+                    ) {
+                      return;
+                    }
+                    library.restore(entry.id);
+                  }}
+                >
+                  <strong>{entry.name}</strong>
+                  <span>Updated {formatTimestamp(entry.updatedAt)}</span>
+                </button>
+              )}
+              <div className={styles.promptActions}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRenamingId(entry.id);
+                    setRenameDraft(entry.name);
+                  }}
+                >
+                  Rename
+                </button>
+                <button type="button" onClick={() => library.duplicate(entry.id)}>
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Delete "${entry.name}"? This cannot be undone.`)) {
+                      library.remove(entry.id);
+                    }
+                  }}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -1,24 +1,96 @@
 "use client";
 
-import { Dispatch, useCallback, useMemo, useReducer, useState } from "react";
+import { Dispatch, ReactNode, useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
 
 import { promptTemplates } from "@/data/templates";
 import {
   chipSuggestions,
-  compilePrompt,
   createBlankVariable,
   createBlankWorkflowStage,
   createDefaultPromptState,
   generateAssistantInsights,
 } from "@/lib/prompt-utils";
+import { downloadTextFile } from "@/lib/download";
+import { createHistory, withHistory } from "@/lib/prompt-history";
+import { issuesAt, lintPromptVariables, type VariableLintIssue } from "@/lib/prompt-lint";
+import { buildSectionProposal, parseSectionedText } from "@/lib/prompt-merge";
+import { describeWorkspaceVersion } from "@/lib/prompt-runs";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import {
+  compileChatMessages,
+  compileStudioPrompt,
+  compileTargets,
+  getCompileTarget,
+  type CompileTargetId,
+} from "@/lib/prompt-targets";
+import {
+  filterTemplates,
+  isUserTemplate,
+  serializeTemplatePack,
+  templateFilename,
+  templateToState,
+  type TemplateFilter,
+  type TemplateGroup,
+  type TemplatePackIssue,
+  type UserTemplate,
+} from "@/lib/prompt-templates";
+import { promptFileBase } from "@/lib/prompt-transfer";
+import {
+  normalizeVariableName,
+  renderPromptState,
+  resolveVariableValues,
+  type VariableDefinition,
+  type VariableValues,
+} from "@/lib/prompt-variables";
+import type { RefinementFormat, RefinementResult } from "@/lib/refinement";
+import { readSseEvents } from "@/lib/sse";
+import {
+  createWorkflowEdge,
+  detachStage,
+  type WorkflowNode,
+  type WorkflowRoutingPatch,
+} from "@/lib/workflow-graph";
 import type {
   PromptArrayKey,
   PromptState,
+  PromptTemplate,
   WorkflowStage,
   PromptVariable,
 } from "@/lib/prompt-types";
 
+import { ApplyRefinementDialog } from "./ApplyRefinementDialog";
+import { ComparePanel } from "./ComparePanel";
+import { JudgePanel } from "./JudgePanel";
+import { DeclareButton, LintMarkers } from "./LintMarkers";
+import { chipGroups, sectionHeadings, sectionLabel, textSections } from "./prompt-sections";
+import { Playground } from "./Playground";
+import { PromptCode } from "./PromptCode";
+import { PromptLibrary } from "./PromptLibrary";
+import { PromptTransfer } from "./PromptTransfer";
+import { SaveTemplateDialog } from "./SaveTemplateDialog";
+import { TemplateFilters } from "./TemplateFilters";
+import { TemplatePackGroup, TemplatePackIssues } from "./TemplatePacks";
+import { TemplatePreview } from "./TemplatePreview";
+import {
+  createProviderSettings,
+  isProviderReady,
+  ProviderSettings,
+  toProviderPayload,
+  useProviderAvailability,
+} from "./ProviderSettings";
 import styles from "./PromptStudio.module.css";
+import { TestSuitePanel } from "./TestSuitePanel";
+import { TokenBudget } from "./TokenBudget";
+import { usePromptLibrary } from "./usePromptLibrary";
+import { usePromptRuns } from "./usePromptRuns";
+import { useTemplatePacks } from "./useTemplatePacks";
+import { UserTemplateCard } from "./UserTemplateCard";
+import { useUserTemplates } from "./useUserTemplates";
+import { useSortableList } from "./useSortableList";
+import { VariableDefinitionFields, type VariableDefinitionPatch } from "./VariableDefinitionFields";
+import { VariableTestValues } from "./VariableTestValues";
+import { VersionHistory } from "./VersionHistory";
+import { WorkflowGraph, WorkflowRouteSummary, WorkflowViewToggle, type WorkflowView } from "./WorkflowGraph";
 
 type PromptAction =
   | { type: "update"; key: keyof PromptState; value: string }
@@ -34,14 +106,29 @@ type PromptAction =
       field: keyof PromptVariable;
       value: string;
     }
+  | { type: "defineVariable"; id: string; patch: VariableDefinitionPatch }
+  | { type: "declareVariable"; name: string }
+  | { type: "moveVariable"; id: string; toIndex: number }
   | { type: "addWorkflow" }
   | { type: "removeWorkflow"; id: string }
+  | { type: "duplicateWorkflow"; id: string }
+  | { type: "moveWorkflow"; id: string; toIndex: number }
   | {
       type: "updateWorkflow";
       id: string;
       field: keyof WorkflowStage;
       value: string;
-    };
+    }
+  | { type: "routeWorkflow"; id: string; patch: WorkflowRoutingPatch };
+
+const moveEntry = <T extends { id: string }>(entries: T[], id: string, toIndex: number) => {
+  const from = entries.findIndex((entry) => entry.id === id);
+  if (from === -1 || from === toIndex) return entries;
+  const next = [...entries];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, moved);
+  return next;
+};
 
 const reducer = (state: PromptState, action: PromptAction): PromptState => {
   switch (action.type) {
@@ -77,13 +164,60 @@ const reducer = (state: PromptState, action: PromptAction): PromptState => {
             : variable,
         ),
       };
+    case "defineVariable":
+      return {
+        ...state,
+        variables: state.variables.map((variable) =>
+          variable.id === action.id ? { ...variable, ...action.patch } : variable,
+        ),
+      };
+    case "declareVariable": {
+      if (state.variables.some((variable) => variable.name === action.name)) return state;
+      // Fill the empty starter row if there is one instead of appending next to it.
+      const blank = state.variables.find((variable) => !variable.name && !variable.description);
+      return {
+        ...state,
+        variables: blank
+          ? state.variables.map((variable) => (variable === blank ? { ...variable, name: action.name } : variable))
+          : [...state.variables, { ...createBlankVariable(), name: action.name }],
+      };
+    }
+    case "moveVariable":
+      return { ...state, variables: moveEntry(state.variables, action.id, action.toIndex) };
     case "addWorkflow":
       return { ...state, workflow: [...state.workflow, createBlankWorkflowStage()] };
     case "removeWorkflow":
       return {
         ...state,
-        workflow: state.workflow.filter((stage) => stage.id !== action.id),
+        workflow: detachStage(
+          state.workflow.filter((stage) => stage.id !== action.id),
+          action.id,
+        ),
+      };
+    case "duplicateWorkflow": {
+      const index = state.workflow.findIndex((stage) => stage.id === action.id);
+      if (index === -1) return state;
+      const original: WorkflowNode = state.workflow[index];
+      const id = createBlankWorkflowStage().id;
+      // Offset the copy so it does not sit exactly on top of the original in the graph.
+      const copy: WorkflowNode = {
+        ...original,
+        id,
+        // Fresh edge ids keep the graph's keys unique; a self-loop loops on the copy.
+        ...(original.next && {
+          next: original.next.map((edge) =>
+            createWorkflowEdge(edge.to === original.id ? id : edge.to, edge.condition),
+          ),
+        }),
+        ...(original.position && { position: { x: original.position.x + 24, y: original.position.y + 24 } }),
+      };
+      return {
+        ...state,
+        workflow: [...state.workflow.slice(0, index + 1), copy, ...state.workflow.slice(index + 1)],
       };
+    }
+    case "moveWorkflow":
+      return { ...state, workflow: moveEntry(state.workflow, action.id, action.toIndex) };
     case "updateWorkflow":
       return {
         ...state,
@@ -91,6 +225,13 @@ const reducer = (state: PromptState, action: PromptAction): PromptState => {
           stage.id === action.id ? { ...stage, [action.field]: action.value } : stage,
         ),
       };
+    case "routeWorkflow":
+      return {
+        ...state,
+        workflow: state.workflow.map((stage) =>
+          stage.id === action.id ? { ...stage, ...action.patch } : stage,
+        ),
+      };
     case "hydrate":
       return { ...action.payload };
     default:
@@ -98,193 +239,121 @@ const reducer = (state: PromptState, action: PromptAction): PromptState => {
   }
 };
 
-const textSections: Array<{
-  id: keyof PromptState;
-  title: string;
-  placeholder: string;
-  helper: string;
-  rows?: number;
-}> = [
-  {
-    id: "projectTitle",
-    title: "Project Codename",
-    placeholder: "e.g. Apollo command console",
-    helper: "Optional naming to make the prompt memorable.",
-    rows: 1,
-  },
-  {
-    id: "coreObjective",
-    title: "Core Objective",
-    placeholder:
-      "What must the model accomplish? Include problem statement and desired transformation.",
-    helper:
-      "Give context, stakes, and boundaries. The model should know what success looks like.",
-    rows: 4,
-  },
-  {
-    id: "targetAudience",
-    title: "Target Audience / Persona",
-    placeholder:
-      "Who is this prompt ultimately serving? Describe persona, expertise, motivations, anxieties.",
-    helper:
-      "Helps the model tailor tone, reading level, and references.",
-    rows: 3,
-  },
-  {
-    id: "backgroundContext",
-    title: "Background Context",
-    placeholder:
-      "Operational context, systems involved, known constraints, domain specifics, or prior work.",
-    helper: "Provide only verified facts. Flag assumptions inline.",
-    rows: 4,
-  },
-  {
-    id: "requiredInputs",
-    title: "Required Inputs",
-    placeholder:
-      "What information will the end user provide? List any files, data points, or parameters expected.",
-    helper: "Make it explicit so the model can validate presence of required inputs.",
-    rows: 3,
-  },
-  {
-    id: "desiredOutput",
-    title: "Desired Deliverable",
-    placeholder:
-      "Describe the final artifact. Mention structure, length, formatting, tables, or decision frameworks.",
-    helper: "Pair structure with rationale. Models love specificity.",
-    rows: 4,
-  },
-  {
-    id: "successCriteria",
-    title: "Success Criteria",
-    placeholder:
-      "Define what good looks like. Include acceptance tests, quality bars, or evaluation checklist.",
-    helper: "This powers automated QA and self-evaluation.",
-    rows: 3,
-  },
-  {
-    id: "guardrails",
-    title: "Guardrails & Refusal Policy",
-    placeholder:
-      "Non-negotiables, refusal conditions, compliance rules, safety mitigations, or biases to avoid.",
-    helper: "Explicit guardrails drastically reduce hallucinations and policy drift.",
-    rows: 3,
-  },
-  {
-    id: "creativeAngles",
-    title: "Creative Directions",
-    placeholder:
-      "Any inspiration sources, brand anchors, emotional tones, or contrary takes to explore.",
-    helper: "Encourage the model to produce divergent options.",
-    rows: 3,
-  },
-  {
-    id: "referenceMaterial",
-    title: "Reference Material",
-    placeholder:
-      "Paste links, excerpts, or knowledge graph nodes the model should ground to. Clarify why each matters.",
-    helper: "Grounding references reduces hallucinations and lifts specificity.",
-    rows: 3,
-  },
-  {
-    id: "evaluationStrategy",
-    title: "Self-Evaluation Strategy",
-    placeholder:
-      "How should the model critique itself before finalizing? Provide scoring rubric or checklist.",
-    helper: "Tell the model to find its own mistakes before handing off.",
-    rows: 3,
-  },
-  {
-    id: "modelPreferences",
-    title: "Model / Tooling Preferences",
-    placeholder:
-      "Optional: specify model family, required tools, retrieval steps, or latency constraints.",
-    helper: "Useful when orchestrating across multiple systems.",
-    rows: 2,
-  },
-  {
-    id: "callToAction",
-    title: "Respond With",
-    placeholder:
-      "Explicit instructions for the assistant's final answer. e.g. Provide JSON schema, bullet summary, action plan.",
-    helper: "Makes downstream automation simpler.",
-    rows: 2,
-  },
-];
-
-const chipGroups: Array<{
-  id: PromptArrayKey;
-  title: string;
-  emptyLabel: string;
-  helper: string;
-}> = [
-  {
-    id: "toneTraits",
-    title: "Tone DNA",
-    emptyLabel: "Add tone traits",
-    helper: "Select the emotional stance and voice the model should adopt.",
-  },
-  {
-    id: "styleGuidelines",
-    title: "Style Rules",
-    emptyLabel: "Add stylistic guidance",
-    helper: "Structure, pacing, and formatting requirements.",
-  },
-  {
-    id: "constraints",
-    title: "Operational Constraints",
-    emptyLabel: "Add non-negotiables",
-    helper: "Boundary conditions that keep the model on-rails.",
-  },
-  {
-    id: "keywords",
-    title: "Linguistic Anchors",
-    emptyLabel: "Add must-use phrases",
-    helper: "Terms, jargon, or frameworks to incorporate.",
-  },
-];
+// Keystrokes in the same field collapse into a single undo step until typing pauses.
+const historyGroup = (action: PromptAction) => {
+  switch (action.type) {
+    case "update":
+      return `update:${action.key}`;
+    case "updateVariable":
+      return `variable:${action.id}:${action.field}`;
+    case "defineVariable":
+      return `variable:${action.id}:${Object.keys(action.patch).join(",")}`;
+    case "updateWorkflow":
+      return `workflow:${action.id}:${action.field}`;
+    case "routeWorkflow":
+      return `workflow:${action.id}:${Object.keys(action.patch).join(",")}`;
+    default:
+      return undefined;
+  }
+};
+
+const historyReducer = withHistory(reducer, { groupBy: historyGroup });
 
 const TemplateLibrary = ({
-  onLoad,
+  groups,
+  issues,
+  onPreview,
   activeTemplateId,
+  onSave,
+  onEdit,
+  onExport,
+  onDelete,
+  children,
 }: {
-  onLoad: (id: string) => void;
+  groups: TemplateGroup[];
+  /** Problems reading the server's template packs. */
+  issues: TemplatePackIssue[];
+  onPreview: (id: string) => void;
   activeTemplateId?: string;
-}) => (
-  <div className={styles.templateLibrary}>
-    <header className={styles.templateHeader}>
-      <h2>Template Library</h2>
-      <p>
-        Jump-start with pre-built prompt archetypes. Loading a template replaces current inputs—remember to save variations you care about.
-      </p>
-    </header>
-    <div className={styles.templateList}>
-      {promptTemplates.map((template) => (
-        <button
-          key={template.id}
-          type="button"
-          className={
-            template.id === activeTemplateId
-              ? `${styles.templateCard} ${styles.templateCardActive}`
-              : styles.templateCard
-          }
-          onClick={() => onLoad(template.id)}
-        >
-          <div className={styles.templateMeta}>
-            <span className={styles.templateCategory}>{template.category}</span>
-            <h3>{template.title}</h3>
-            <p>{template.subtitle}</p>
-          </div>
-          <div className={styles.templateTags}>
-            {template.tags.map((tag) => (
-              <span key={tag}>{tag}</span>
-            ))}
-          </div>
+  onSave: () => void;
+  onEdit: (template: UserTemplate) => void;
+  onExport: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  children?: ReactNode;
+}) => {
+  const [filter, setFilter] = useState<TemplateFilter>({ query: "" });
+  const templates = groups.flatMap((group) => group.templates);
+  const matches = groups.map((group) => filterTemplates(group.templates, filter));
+
+  const renderCard = (template: PromptTemplate) => {
+    const card = (
+      <button
+        key={template.id}
+        type="button"
+        className={
+          template.id === activeTemplateId
+            ? `${styles.templateCard} ${styles.templateCardActive}`
+            : styles.templateCard
+        }
+        onClick={() => onPreview(template.id)}
+      >
+        <div className={styles.templateMeta}>
+          <span className={styles.templateCategory}>{template.category}</span>
+          <h3>{template.title}</h3>
+          <p>{template.subtitle}</p>
+        </div>
+        <div className={styles.templateTags}>
+          {template.tags.map((tag) => (
+            <span key={tag}>{tag}</span>
+          ))}
+        </div>
+      </button>
+    );
+    return isUserTemplate(template) ? (
+      <UserTemplateCard
+        key={template.id}
+        template={template}
+        onEdit={() => onEdit(template)}
+        onExport={() => onExport(template)}
+        onDelete={() => onDelete(template.id)}
+      >
+        {card}
+      </UserTemplateCard>
+    ) : (
+      card
+    );
+  };
+
+  return (
+    <div className={styles.templateLibrary}>
+      {children}
+      <header className={styles.templateHeader}>
+        <h2>Template Library</h2>
+        <p>
+          Jump-start with pre-built prompt archetypes. Preview a template to load it as a fresh workspace, or merge just the sections you pick into the current one.
+        </p>
+        <button type="button" onClick={onSave}>
+          Save as template
         </button>
-      ))}
+      </header>
+      <TemplateFilters
+        templates={templates}
+        filter={filter}
+        matches={matches.reduce((total, visible) => total + visible.length, 0)}
+        onChange={setFilter}
+      />
+      {groups.map(
+        (group, index) =>
+          matches[index].length > 0 && (
+            <TemplatePackGroup key={group.id} group={group} count={matches[index].length}>
+              <div className={styles.templateList}>{matches[index].map(renderCard)}</div>
+            </TemplatePackGroup>
+          ),
+      )}
+      {issues.length > 0 && <TemplatePackIssues issues={issues} />}
     </div>
-  </div>
-);
+  );
+};
 
 const ChipInput = ({
   values,
@@ -360,218 +429,409 @@ const ChipInput = ({
 
 const WorkflowEditor = ({
   stages,
+  issues,
   dispatch,
 }: {
-  stages: WorkflowStage[];
+  stages: WorkflowNode[];
+  issues: VariableLintIssue[];
   dispatch: Dispatch<PromptAction>;
-}) => (
-  <div className={styles.workflowCard}>
-    <div className={styles.sectionHeader}>
-      <h3>Agent Workflow</h3>
-      <p>
-        Break the task into deliberate stages so the model reasons step-by-step instead of jumping straight to an answer.
-      </p>
-    </div>
-    <div className={styles.workflowList}>
-      {stages.map((stage, index) => (
-        <div key={stage.id} className={styles.workflowStage}>
-          <header>
-            <span className={styles.workflowIndex}>{index + 1}</span>
-            <input
-              value={stage.title}
-              onChange={(event) =>
-                dispatch({
-                  type: "updateWorkflow",
-                  id: stage.id,
-                  field: "title",
-                  value: event.target.value,
-                })
-              }
-              placeholder="Stage title"
-            />
-            {stages.length > 1 && (
-              <button
-                type="button"
-                onClick={() => dispatch({ type: "removeWorkflow", id: stage.id })}
-                aria-label="Remove workflow stage"
-              >
-                ×
-              </button>
-            )}
-          </header>
-          <label>
-            Instruction
-            <textarea
-              value={stage.instruction}
-              rows={3}
-              onChange={(event) =>
-                dispatch({
-                  type: "updateWorkflow",
-                  id: stage.id,
-                  field: "instruction",
-                  value: event.target.value,
-                })
-              }
-            />
-          </label>
-          <label>
-            Expected Output
-            <textarea
-              value={stage.expectedOutput}
-              rows={2}
-              onChange={(event) =>
-                dispatch({
-                  type: "updateWorkflow",
-                  id: stage.id,
-                  field: "expectedOutput",
-                  value: event.target.value,
-                })
-              }
-            />
-          </label>
+}) => {
+  const [view, setView] = useState<WorkflowView>("list");
+  const sortable = useSortableList(
+    stages.map((stage) => stage.id),
+    (id, toIndex) => dispatch({ type: "moveWorkflow", id, toIndex }),
+  );
+
+  return (
+    <div className={styles.workflowCard}>
+      <div className={styles.sectionHeader}>
+        <h3>Agent Workflow</h3>
+        <p>
+          Break the task into deliberate stages so the model reasons step-by-step instead of jumping straight to an answer.
+        </p>
+      </div>
+      <WorkflowViewToggle view={view} onChange={setView} />
+      {view === "graph" ? (
+        <WorkflowGraph
+          stages={stages}
+          onRoute={(id, patch) => dispatch({ type: "routeWorkflow", id, patch })}
+        />
+      ) : (
+        <div className={styles.workflowList}>
+          {stages.map((stage, index) => {
+            const item = sortable.itemProps(stage.id);
+            return (
+              <div key={stage.id} {...item} className={`${styles.workflowStage} ${item.className}`}>
+                <header>
+                  <span {...sortable.handleProps(stage.id)}>⠿</span>
+                  <span className={styles.workflowIndex}>{index + 1}</span>
+                  <input
+                    value={stage.title}
+                    onChange={(event) =>
+                      dispatch({
+                        type: "updateWorkflow",
+                        id: stage.id,
+                        field: "title",
+                        value: event.target.value,
+                      })
+                    }
+                    placeholder="Stage title"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => dispatch({ type: "duplicateWorkflow", id: stage.id })}
+                    aria-label="Duplicate workflow stage"
+                    title="Duplicate stage"
+                  >
+                    ⧉
+                  </button>
+                  {stages.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => dispatch({ type: "removeWorkflow", id: stage.id })}
+                      aria-label="Remove workflow stage"
+                    >
+                      ×
+                    </button>
+                  )}
+                </header>
+                <label>
+                  Instruction
+                  <textarea
+                    value={stage.instruction}
+                    rows={3}
+                    onChange={(event) =>
+                      dispatch({
+                        type: "updateWorkflow",
+                        id: stage.id,
+                        field: "instruction",
+                        value: event.target.value,
+                      })
+                    }
+                  />
+                </label>
+                <label>
+                  Expected Output
+                  <textarea
+                    value={stage.expectedOutput}
+                    rows={2}
+                    onChange={(event) =>
+                      dispatch({
+                        type: "updateWorkflow",
+                        id: stage.id,
+                        field: "expectedOutput",
+                        value: event.target.value,
+                      })
+                    }
+                  />
+                </label>
+                <WorkflowRouteSummary stages={stages} index={index} />
+                <LintMarkers
+                  issues={issuesAt(issues, "workflow", stage.id)}
+                  onDeclare={(name) => dispatch({ type: "declareVariable", name })}
+                />
+              </div>
+            );
+          })}
         </div>
-      ))}
+      )}
+      <button type="button" className={styles.addRowButton} onClick={() => dispatch({ type: "addWorkflow" })}>
+        + Add Workflow Stage
+      </button>
     </div>
-    <button type="button" className={styles.addRowButton} onClick={() => dispatch({ type: "addWorkflow" })}>
-      + Add Workflow Stage
-    </button>
-  </div>
-);
+  );
+};
 
 const VariablesEditor = ({
   variables,
+  issues,
   dispatch,
 }: {
-  variables: PromptVariable[];
+  variables: VariableDefinition[];
+  issues: VariableLintIssue[];
   dispatch: Dispatch<PromptAction>;
-}) => (
-  <div className={styles.variablesCard}>
-    <div className={styles.sectionHeader}>
-      <h3>Reusable Variables</h3>
-      <p>
-        Parameterize your prompt so teams can drop in new context without rewriting the entire instruction.
-      </p>
-    </div>
-    <div className={styles.variableList}>
-      {variables.map((variable) => (
-        <div key={variable.id} className={styles.variableItem}>
-          <div className={styles.variableHeader}>
-            <input
-              value={variable.name}
-              onChange={(event) =>
-                dispatch({
-                  type: "updateVariable",
-                  id: variable.id,
-                  field: "name",
-                  value: event.target.value.replace(/\s+/g, "_").toUpperCase(),
-                })
-              }
-              placeholder="VARIABLE_NAME"
-            />
-            {variables.length > 1 && (
-              <button
-                type="button"
-                onClick={() => dispatch({ type: "removeVariable", id: variable.id })}
-                aria-label="Remove variable"
-              >
-                ×
-              </button>
-            )}
-          </div>
-          <textarea
-            value={variable.description}
-            rows={2}
-            placeholder="Describe what this variable represents and when to use it."
-            onChange={(event) =>
-              dispatch({
-                type: "updateVariable",
-                id: variable.id,
-                field: "description",
-                value: event.target.value,
-              })
-            }
-          />
-          <textarea
-            value={variable.example ?? ""}
-            rows={2}
-            placeholder="Optional: provide an example value."
-            onChange={(event) =>
-              dispatch({
-                type: "updateVariable",
-                id: variable.id,
-                field: "example",
-                value: event.target.value,
-              })
-            }
-          />
-        </div>
-      ))}
+}) => {
+  const sortable = useSortableList(
+    variables.map((variable) => variable.id),
+    (id, toIndex) => dispatch({ type: "moveVariable", id, toIndex }),
+  );
+
+  return (
+    <div className={styles.variablesCard}>
+      <div className={styles.sectionHeader}>
+        <h3>Reusable Variables</h3>
+        <p>
+          Parameterize your prompt so teams can drop in new context without rewriting the entire instruction.
+        </p>
+      </div>
+      <div className={styles.variableList}>
+        {variables.map((variable) => {
+          const item = sortable.itemProps(variable.id);
+          return (
+            <div key={variable.id} {...item} className={`${styles.variableItem} ${item.className}`}>
+              <div className={styles.variableHeader}>
+                <span {...sortable.handleProps(variable.id)}>⠿</span>
+                <input
+                  value={variable.name}
+                  onChange={(event) =>
+                    dispatch({
+                      type: "updateVariable",
+                      id: variable.id,
+                      field: "name",
+                      value: normalizeVariableName(event.target.value),
+                    })
+                  }
+                  placeholder="VARIABLE_NAME"
+                />
+                {variables.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => dispatch({ type: "removeVariable", id: variable.id })}
+                    aria-label="Remove variable"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={variable.description}
+                rows={2}
+                placeholder="Describe what this variable represents and when to use it."
+                onChange={(event) =>
+                  dispatch({
+                    type: "updateVariable",
+                    id: variable.id,
+                    field: "description",
+                    value: event.target.value,
+                  })
+                }
+              />
+              <textarea
+                value={variable.example ?? ""}
+                rows={2}
+                placeholder="Optional: provide an example value."
+                onChange={(event) =>
+                  dispatch({
+                    type: "updateVariable",
+                    id: variable.id,
+                    field: "example",
+                    value: event.target.value,
+                  })
+                }
+              />
+              <VariableDefinitionFields
+                variable={variable}
+                onChange={(patch) => dispatch({ type: "defineVariable", id: variable.id, patch })}
+              />
+              <LintMarkers
+                issues={issuesAt(issues, "variables", variable.id)}
+                onDeclare={(name) => dispatch({ type: "declareVariable", name })}
+              />
+            </div>
+          );
+        })}
+      </div>
+      <button type="button" className={styles.addRowButton} onClick={() => dispatch({ type: "addVariable" })}>
+        + Add Variable
+      </button>
     </div>
-    <button type="button" className={styles.addRowButton} onClick={() => dispatch({ type: "addVariable" })}>
-      + Add Variable
-    </button>
-  </div>
-);
+  );
+};
 
 type RefineResponse = {
   refinedPrompt?: string;
   analysis?: string;
+  refinement?: RefinementResult;
+  format?: RefinementFormat;
   error?: string;
 };
 
 export const PromptStudio = () => {
-  const [state, dispatch] = useReducer(reducer, undefined, createDefaultPromptState);
+  const [history, dispatch] = useReducer(historyReducer, undefined, () =>
+    createHistory(createDefaultPromptState()),
+  );
+  const state = history.present;
+  const canUndo = history.past.length > 0;
+  const canRedo = history.future.length > 0;
   const [activeTemplate, setActiveTemplate] = useState<string | undefined>(undefined);
   const [clipboardStatus, setClipboardStatus] = useState<"idle" | "copied">("idle");
+  const [variableValues, setVariableValues] = useState<VariableValues>({});
+  const [previewMode, setPreviewMode] = useState<"template" | "rendered">("template");
+  const [previewTarget, setPreviewTarget] = useState<CompileTargetId>("studio");
+  const [previewTab, setPreviewTab] = useState<"preview" | "code">("preview");
   const [refineConfig, setRefineConfig] = useState({
-    provider: "openai",
-    model: "gpt-4o-mini",
-    temperature: 0.4,
+    ...createProviderSettings(),
     instructions:
-      "Critique this prompt then rewrite it for clarity, guardrails, and evaluation. Return markdown with sections: Critique, Upgrades, Final Prompt.",
-    apiKey: "",
+      "Critique this prompt then rewrite it for clarity, guardrails, and evaluation. Keep every requirement and variable placeholder from the original.",
   });
+  const [judgeConfig, setJudgeConfig] = useState(() => ({ ...createProviderSettings(), temperature: 0 }));
   const [isRefining, setIsRefining] = useState(false);
   const [refineOutput, setRefineOutput] = useState<RefineResponse | undefined>(undefined);
   const [refineError, setRefineError] = useState<string | undefined>(undefined);
+  const refineAbort = useRef<AbortController | undefined>(undefined);
+  const builderRef = useRef<HTMLElement>(null);
+  const [applyProposal, setApplyProposal] = useState<
+    { state: PromptState; ignored: ValidationIssue[] } | undefined
+  >(undefined);
+  const providerAvailability = useProviderAvailability();
+
+  const hydrate = useCallback(
+    (payload: PromptState, options?: { replaceHistory?: boolean }) => {
+      dispatch({ type: "hydrate", payload });
+      if (options?.replaceHistory) {
+        dispatch({ type: "clearHistory" });
+      }
+    },
+    [dispatch],
+  );
+  const library = usePromptLibrary(state, hydrate);
+  const runLog = usePromptRuns();
+  const userTemplates = useUserTemplates();
+  const [templateDialog, setTemplateDialog] = useState<{ template?: UserTemplate } | undefined>(undefined);
+  const [previewTemplateId, setPreviewTemplateId] = useState<string | undefined>(undefined);
+  const templatePacks = useTemplatePacks();
+  // Saved templates come first so a team's own prompts are easy to find.
+  const templateGroups = useMemo<TemplateGroup[]>(
+    () =>
+      [
+        { id: "saved", name: "My templates", templates: userTemplates.templates },
+        { id: "built-in", name: "Built-in", templates: promptTemplates },
+        ...templatePacks.packs,
+      ].filter((group) => group.templates.length > 0),
+    [userTemplates.templates, templatePacks.packs],
+  );
+  const templates = useMemo(() => templateGroups.flatMap((group) => group.templates), [templateGroups]);
 
   const assistant = useMemo(() => generateAssistantInsights(state), [state]);
-  const compiledPrompt = useMemo(() => compilePrompt(state), [state]);
+  const compiledPrompt = useMemo(() => compileStudioPrompt(state), [state]);
+  const lintIssues = useMemo(() => lintPromptVariables(state), [state]);
+  const handleDeclare = useCallback((name: string) => dispatch({ type: "declareVariable", name }), [dispatch]);
+  const renderedPrompt = useMemo(() => {
+    const resolved = resolveVariableValues(state.variables, variableValues);
+    return { ...renderPromptState(state, resolved.values), values: resolved.values, issues: resolved.issues };
+  }, [state, variableValues]);
+  const previewText = useMemo(
+    () =>
+      getCompileTarget(previewTarget).compile(previewMode === "rendered" ? renderedPrompt.state : state, sectionLabel),
+    [previewTarget, previewMode, renderedPrompt, state],
+  );
+  const runMessages = useMemo(
+    () => compileChatMessages(renderedPrompt.state, previewTarget, sectionLabel),
+    [renderedPrompt, previewTarget],
+  );
+  // The run picked in the Playground log, or this prompt's newest run until one is picked.
+  const judgedRun = useMemo(
+    () =>
+      runLog.runs.find((run) => run.id === runLog.selectedId) ??
+      runLog.runs.find((run) => run.promptId === library.activePrompt?.id),
+    [runLog.runs, runLog.selectedId, library.activePrompt?.id],
+  );
+  const workspaceVersion = useMemo(
+    () => describeWorkspaceVersion(state, library.activePrompt?.versions ?? []),
+    [state, library.activePrompt],
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      // Fields outside the builder (test cases, dialogs, provider settings) keep their native undo.
+      const target = event.target;
+      if (
+        target instanceof HTMLElement &&
+        (target.isContentEditable || target.matches("input, textarea, select")) &&
+        !builderRef.current?.contains(target)
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+
+      if (key === "z") {
+        event.preventDefault();
+        dispatch({ type: event.shiftKey ? "redo" : "undo" });
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        dispatch({ type: "redo" });
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [dispatch]);
+
+  const confirmDiscard = useCallback(
+    (action: string) =>
+      !library.hasUnsavedChanges ||
+      window.confirm(`${action} replaces the current workspace and its unsaved changes. Continue?`),
+    [library.hasUnsavedChanges],
+  );
 
   const handleLoadTemplate = useCallback(
     (id: string) => {
-      const template = promptTemplates.find((entry) => entry.id === id);
-      if (!template) return;
-
-      const base = createDefaultPromptState();
-      const merged: PromptState = {
-        ...base,
-        ...template.sections,
-        toneTraits: template.sections.toneTraits ?? base.toneTraits,
-        styleGuidelines: template.sections.styleGuidelines ?? base.styleGuidelines,
-        constraints: template.sections.constraints ?? base.constraints,
-        keywords: template.sections.keywords ?? base.keywords,
-        workflow: template.sections.workflow ?? base.workflow,
-        variables: template.sections.variables ?? base.variables,
-      };
+      const template = templates.find((entry) => entry.id === id);
+      if (!template || !confirmDiscard("Loading a template")) return;
+
+      const merged = templateToState(template);
 
       dispatch({ type: "hydrate", payload: merged });
       setActiveTemplate(id);
+      library.detach(merged);
     },
-    [dispatch],
+    [dispatch, confirmDiscard, library, templates],
+  );
+
+  const handleSaveTemplate = useCallback(
+    (template: UserTemplate) => {
+      userTemplates.saveTemplate(template);
+      setTemplateDialog(undefined);
+    },
+    [userTemplates],
+  );
+
+  const handleDeleteTemplate = useCallback(
+    (id: string) => {
+      userTemplates.removeTemplate(id);
+      setActiveTemplate((current) => (current === id ? undefined : current));
+    },
+    [userTemplates],
+  );
+
+  const handleExportTemplate = useCallback(
+    (template: PromptTemplate) =>
+      downloadTextFile(templateFilename(template), serializeTemplatePack([template]), "application/json"),
+    [],
   );
 
+  const handleReset = useCallback(() => {
+    if (!confirmDiscard("Resetting")) return;
+    const blank = createDefaultPromptState();
+    dispatch({ type: "hydrate", payload: blank });
+    setActiveTemplate(undefined);
+    library.detach(blank);
+  }, [dispatch, confirmDiscard, library]);
+
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(compiledPrompt);
+      await navigator.clipboard.writeText(previewText);
       setClipboardStatus("copied");
       setTimeout(() => setClipboardStatus("idle"), 1800);
     } catch (error) {
       console.error("Clipboard copy failed", error);
     }
-  }, [compiledPrompt]);
+  }, [previewText]);
+
+  const handleDownloadPreview = useCallback(() => {
+    const target = getCompileTarget(previewTarget);
+    const suffix = previewMode === "rendered" ? ".rendered" : "";
+    downloadTextFile(
+      `${promptFileBase(state, library.activePrompt?.name)}${suffix}.${target.extension}`,
+      previewText,
+      target.mimeType,
+    );
+  }, [previewTarget, previewMode, previewText, state, library.activePrompt?.name]);
 
   const handleRefine = useCallback(async () => {
+    const controller = new AbortController();
+    refineAbort.current = controller;
     setIsRefining(true);
     setRefineError(undefined);
     setRefineOutput(undefined);
@@ -585,33 +845,93 @@ export const PromptStudio = () => {
         body: JSON.stringify({
           prompt: compiledPrompt,
           instructions: refineConfig.instructions,
-          model: refineConfig.model,
-          temperature: refineConfig.temperature,
-          provider: refineConfig.provider,
-          apiKey: refineConfig.apiKey,
+          ...toProviderPayload(refineConfig),
+          stream: true,
         }),
+        signal: controller.signal,
       });
 
-      const data: RefineResponse = await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data: RefineResponse = await response.json().catch(() => ({}));
         setRefineError(data.error ?? "Unable to refine prompt. Check API key and provider.");
-      } else {
-        setRefineOutput(data);
+        return;
+      }
+
+      // The analysis fills in live; the refined prompt is extracted once the stream completes.
+      for await (const { event, data } of readSseEvents(response.body)) {
+        const payload = JSON.parse(data);
+        if (event === "delta") {
+          setRefineOutput((prev) => ({ ...prev, analysis: `${prev?.analysis ?? ""}${payload.text}` }));
+        } else if (event === "done") {
+          setRefineOutput(payload as RefineResponse);
+        } else if (event === "error") {
+          setRefineError(payload.error ?? "The refinement stream failed.");
+        }
       }
     } catch (error) {
-      setRefineError("Network error while refining prompt.");
-      console.error(error);
+      if (controller.signal.aborted) {
+        setRefineError("Refinement cancelled.");
+      } else {
+        setRefineError("Network error while refining prompt.");
+        console.error(error);
+      }
     } finally {
+      refineAbort.current = undefined;
       setIsRefining(false);
     }
   }, [compiledPrompt, refineConfig]);
 
+  const handleCancelRefine = useCallback(() => refineAbort.current?.abort(), []);
+
+  // Prefer the model's section-keyed output; otherwise split the refined prompt on known headings.
+  const handleReviewRefinement = useCallback(() => {
+    if (!refineOutput?.refinedPrompt) return;
+    const sections =
+      refineOutput.refinement?.sections ?? parseSectionedText(refineOutput.refinedPrompt, sectionHeadings, state);
+    const proposal = buildSectionProposal(state, sections);
+    if (Object.keys(sections).length === 0) {
+      proposal.ignored.push({
+        path: "refinedPrompt",
+        message: "No section headings matched the workspace, so nothing could be mapped back.",
+      });
+    }
+    setApplyProposal(proposal);
+  }, [refineOutput, state]);
+
+  const previewTemplate = templates.find((template) => template.id === previewTemplateId);
+
+  const handleMergeTemplate = useCallback(
+    (next: PromptState) => {
+      hydrate(next);
+      setPreviewTemplateId(undefined);
+    },
+    [hydrate],
+  );
+
+  const handleApplyRefinement = useCallback(
+    (next: PromptState) => {
+      hydrate(next);
+      setApplyProposal(undefined);
+    },
+    [hydrate],
+  );
+
   return (
     <div className={styles.shell}>
-      <TemplateLibrary onLoad={handleLoadTemplate} activeTemplateId={activeTemplate} />
+      <TemplateLibrary
+        groups={templateGroups}
+        issues={templatePacks.issues}
+        onPreview={setPreviewTemplateId}
+        activeTemplateId={activeTemplate}
+        onSave={() => setTemplateDialog({})}
+        onEdit={(template) => setTemplateDialog({ template })}
+        onExport={handleExportTemplate}
+        onDelete={handleDeleteTemplate}
+      >
+        <PromptLibrary library={library} />
+      </TemplateLibrary>
 
-      <section className={styles.builderPanel}>
+      <section className={styles.builderPanel} ref={builderRef}>
         <header className={styles.pageHeader}>
           <div>
             <h1>Prompt Maker AI</h1>
@@ -620,15 +940,46 @@ export const PromptStudio = () => {
             </p>
           </div>
           <div className={styles.builderActions}>
-            <button type="button" onClick={() => dispatch({ type: "hydrate", payload: createDefaultPromptState() })}>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "undo" })}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: "redo" })}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              Redo
+            </button>
+            <button type="button" onClick={handleReset}>
               Reset workspace
             </button>
+            <button type="button" onClick={() => library.save()} disabled={!library.hasUnsavedChanges}>
+              {library.activePrompt ? "Save" : "Save to library"}
+            </button>
             <button type="button" onClick={handleCopy} className={styles.primaryButton}>
               {clipboardStatus === "copied" ? "Copied!" : "Copy prompt"}
             </button>
           </div>
         </header>
 
+        <PromptTransfer
+          state={state}
+          name={library.activePrompt?.name}
+          onImport={(imported) => {
+            if (!confirmDiscard("Importing a file")) return false;
+            hydrate(imported);
+            setActiveTemplate(undefined);
+            library.detach();
+            return true;
+          }}
+        />
+
         <div className={styles.sectionsGrid}>
           {textSections.map((section) => (
             <label key={section.id} className={styles.fieldCard}>
@@ -654,6 +1005,7 @@ export const PromptStudio = () => {
                   }
                 />
               )}
+              <LintMarkers issues={issuesAt(lintIssues, section.id)} onDeclare={handleDeclare} />
             </label>
           ))}
         </div>
@@ -672,8 +1024,8 @@ export const PromptStudio = () => {
           ))}
         </div>
 
-        <WorkflowEditor stages={state.workflow} dispatch={dispatch} />
-        <VariablesEditor variables={state.variables} dispatch={dispatch} />
+        <WorkflowEditor stages={state.workflow} issues={lintIssues} dispatch={dispatch} />
+        <VariablesEditor variables={state.variables} issues={lintIssues} dispatch={dispatch} />
       </section>
 
       <aside className={styles.assistantPanel}>
@@ -691,16 +1043,30 @@ export const PromptStudio = () => {
               </li>
             ))}
           </ul>
-          {assistant.evaluation.missingSections.length > 0 && (
+          {(assistant.evaluation.missingSections.length > 0 || lintIssues.length > 0) && (
             <div className={styles.missingSections}>
               <strong>Fill these gaps:</strong>
               <ul>
                 {assistant.evaluation.missingSections.map((item) => (
                   <li key={item}>{item}</li>
                 ))}
+                {lintIssues.map((issue) => (
+                  <li key={issue.id}>
+                    {sectionLabel(issue.location.section)}: {issue.message}{" "}
+                    {issue.declare && <DeclareButton name={issue.declare} onDeclare={handleDeclare} />}
+                  </li>
+                ))}
               </ul>
             </div>
           )}
+          <JudgePanel
+            state={state}
+            run={judgedRun}
+            settings={judgeConfig}
+            availability={providerAvailability}
+            onSettingsChange={setJudgeConfig}
+            onJudged={(runId, judgement) => runLog.updateRun(runId, { judgement })}
+          />
         </section>
 
         <section className={styles.insightsCard}>
@@ -727,68 +1093,139 @@ export const PromptStudio = () => {
           </div>
         </section>
 
+        <VersionHistory
+          versions={library.activePrompt?.versions ?? []}
+          currentState={state}
+          score={assistant.evaluation.totalScore}
+          onCommit={(message) => library.commitVersion(message, assistant.evaluation.totalScore)}
+          onRestore={library.restoreVersion}
+        />
+
+        <VariableTestValues
+          variables={state.variables}
+          values={variableValues}
+          unresolved={renderedPrompt.unresolved}
+          issues={renderedPrompt.issues}
+          onChange={setVariableValues}
+        />
+
         <section className={styles.promptPreview}>
           <header>
-            <h2>Prompt Preview</h2>
-            <button type="button" onClick={handleCopy}>
-              {clipboardStatus === "copied" ? "Copied" : "Copy"}
-            </button>
+            <h2>{previewTab === "code" ? "Code" : "Prompt Preview"}</h2>
+            <div role="tablist" aria-label="Prompt output">
+              <button
+                type="button"
+                role="tab"
+                aria-selected={previewTab === "preview"}
+                onClick={() => setPreviewTab("preview")}
+                disabled={previewTab === "preview"}
+              >
+                Preview
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={previewTab === "code"}
+                onClick={() => setPreviewTab("code")}
+                disabled={previewTab === "code"}
+              >
+                Code
+              </button>
+            </div>
+            {previewTab === "preview" && (
+              <div role="group" aria-label="Preview mode">
+                <button
+                  type="button"
+                  onClick={() => setPreviewMode("template")}
+                  disabled={previewMode === "template"}
+                >
+                  Template
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPreviewMode("rendered")}
+                  disabled={previewMode === "rendered"}
+                >
+                  Rendered
+                </button>
+              </div>
+            )}
+            <select
+              aria-label="Output format"
+              value={previewTarget}
+              onChange={(event) => setPreviewTarget(event.target.value as CompileTargetId)}
+            >
+              {compileTargets.map((target) => (
+                <option key={target.id} value={target.id}>
+                  {target.label}
+                </option>
+              ))}
+            </select>
+            {previewTab === "preview" && (
+              <>
+                <button type="button" onClick={handleCopy}>
+                  {clipboardStatus === "copied" ? "Copied" : `Copy ${previewMode}`}
+                </button>
+                <button type="button" onClick={handleDownloadPreview}>
+                  Download
+                </button>
+              </>
+            )}
           </header>
-          <pre className={styles.previewBody}>{compiledPrompt}</pre>
+          {previewTab === "code" ? (
+            <PromptCode state={state} target={previewTarget} settings={refineConfig} />
+          ) : (
+            <pre className={styles.previewBody}>{previewText}</pre>
+          )}
         </section>
 
+        <Playground
+          state={renderedPrompt.state}
+          messages={runMessages}
+          values={renderedPrompt.values}
+          issues={renderedPrompt.issues}
+          unresolved={renderedPrompt.unresolved}
+          settings={refineConfig}
+          promptId={library.activePrompt?.id}
+          promptName={library.activePrompt?.name ?? (state.projectTitle.trim() || "Untitled prompt")}
+          version={workspaceVersion}
+          log={runLog}
+        />
+
+        <ComparePanel
+          state={state}
+          versions={library.activePrompt?.versions ?? []}
+          refinedPrompt={refineOutput?.refinedPrompt}
+          workspaceVersion={workspaceVersion}
+          values={renderedPrompt.values}
+          issues={renderedPrompt.issues}
+          target={previewTarget}
+          settings={refineConfig}
+          promptId={library.activePrompt?.id}
+          promptName={library.activePrompt?.name ?? (state.projectTitle.trim() || "Untitled prompt")}
+          log={runLog}
+        />
+
+        <TestSuitePanel
+          state={state}
+          target={previewTarget}
+          settings={refineConfig}
+          promptId={library.activePrompt?.id}
+          versionLabel={workspaceVersion.versionLabel}
+          currentValues={renderedPrompt.values}
+        />
+
+        <TokenBudget state={state} compiledPrompt={compiledPrompt} settings={refineConfig} />
+
         <section className={styles.refineCard}>
           <header>
             <h2>LLM Refinement</h2>
           </header>
-          <label className={styles.inlineLabel}>
-            Provider
-            <select
-              value={refineConfig.provider}
-              onChange={(event) =>
-                setRefineConfig((prev) => ({ ...prev, provider: event.target.value }))
-              }
-            >
-              <option value="openai">OpenAI</option>
-              <option value="openrouter">OpenRouter</option>
-            </select>
-          </label>
-          <label className={styles.inlineLabel}>
-            Model
-            <input
-              value={refineConfig.model}
-              onChange={(event) =>
-                setRefineConfig((prev) => ({ ...prev, model: event.target.value }))
-              }
-            />
-          </label>
-          <label className={styles.inlineLabel}>
-            Temperature
-            <input
-              type="number"
-              step="0.1"
-              min="0"
-              max="1.5"
-              value={refineConfig.temperature}
-              onChange={(event) =>
-                setRefineConfig((prev) => ({
-                  ...prev,
-                  temperature: Number.parseFloat(event.target.value) || 0,
-                }))
-              }
-            />
-          </label>
-          <label className={styles.inlineLabel}>
-            API Key
-            <input
-              type="password"
-              value={refineConfig.apiKey}
-              onChange={(event) =>
-                setRefineConfig((prev) => ({ ...prev, apiKey: event.target.value }))
-              }
-              placeholder="Optional – paste when ready"
-            />
-          </label>
+          <ProviderSettings
+            availability={providerAvailability}
+            value={refineConfig}
+            onChange={(settings) => setRefineConfig((prev) => ({ ...prev, ...settings }))}
+          />
           <label className={styles.inlineLabel}>
             Refinement Instructions
             <textarea
@@ -802,26 +1239,104 @@ export const PromptStudio = () => {
           <button
             type="button"
             className={styles.primaryButton}
-            disabled={isRefining || !refineConfig.apiKey}
+            disabled={isRefining || !isProviderReady(refineConfig, providerAvailability)}
             onClick={handleRefine}
           >
             {isRefining ? "Refining..." : "Refine with AI"}
           </button>
+          {isRefining && (
+            <button type="button" onClick={handleCancelRefine}>
+              Cancel
+            </button>
+          )}
           {refineError && <p className={styles.errorText}>{refineError}</p>}
-          {refineOutput?.analysis && (
-            <div className={styles.refineResult}>
-              <h3>Model Analysis</h3>
-              <pre>{refineOutput.analysis}</pre>
-            </div>
+          {refineOutput?.refinement ? (
+            <>
+              {refineOutput.refinement.critique && (
+                <div className={styles.refineResult}>
+                  <h3>Critique</h3>
+                  <pre>{refineOutput.refinement.critique}</pre>
+                </div>
+              )}
+              {refineOutput.refinement.upgrades.length > 0 && (
+                <div className={styles.refineResult}>
+                  <h3>Upgrades</h3>
+                  <ul>
+                    {refineOutput.refinement.upgrades.map((upgrade) => (
+                      <li key={upgrade}>{upgrade}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {refineOutput.refinement.riskNotes.length > 0 && (
+                <div className={styles.refineResult}>
+                  <h3>Risk Notes</h3>
+                  <ul>
+                    {refineOutput.refinement.riskNotes.map((note) => (
+                      <li key={note}>{note}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          ) : (
+            refineOutput?.analysis && (
+              <div className={styles.refineResult}>
+                <h3>Model Analysis</h3>
+                {refineOutput.format === "heuristic" && (
+                  <p className={styles.errorText}>
+                    The model did not return structured output; the refined prompt below was extracted heuristically.
+                  </p>
+                )}
+                <pre>{refineOutput.analysis}</pre>
+              </div>
+            )
           )}
           {refineOutput?.refinedPrompt && (
             <div className={styles.refineResult}>
               <h3>Refined Prompt</h3>
               <pre>{refineOutput.refinedPrompt}</pre>
+              <button type="button" onClick={handleReviewRefinement}>
+                Apply to workspace…
+              </button>
             </div>
           )}
         </section>
       </aside>
+
+      {applyProposal && (
+        <ApplyRefinementDialog
+          current={state}
+          proposed={applyProposal.state}
+          ignored={applyProposal.ignored}
+          onApply={handleApplyRefinement}
+          onClose={() => setApplyProposal(undefined)}
+        />
+      )}
+
+      {templateDialog && (
+        <SaveTemplateDialog
+          state={state}
+          template={templateDialog.template}
+          categories={[...new Set(templates.map((template) => template.category))]}
+          onSave={handleSaveTemplate}
+          onClose={() => setTemplateDialog(undefined)}
+        />
+      )}
+
+      {previewTemplate && (
+        <TemplatePreview
+          key={previewTemplate.id}
+          template={previewTemplate}
+          current={state}
+          onLoad={(id) => {
+            setPreviewTemplateId(undefined);
+            handleLoadTemplate(id);
+          }}
+          onMerge={handleMergeTemplate}
+          onClose={() => setPreviewTemplateId(undefined)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,125 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { downloadTextFile } from "@/lib/download";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import {
+  exportFilename,
+  parsePromptDocument,
+  serializePromptDocument,
+  type TransferFormat,
+} from "@/lib/prompt-transfer";
+
+import styles from "./PromptTransfer.module.css";
+
+type TransferStatus =
+  | { kind: "imported"; name?: string; migratedFrom?: number; warnings: ValidationIssue[] }
+  | { kind: "rejected"; filename: string; errors: ValidationIssue[]; warnings: ValidationIssue[] };
+
+export const PromptTransfer = ({
+  state,
+  name,
+  onImport,
+}: {
+  state: PromptState;
+  name?: string;
+  /** Returns false when the import was cancelled and the workspace left as it was. */
+  onImport: (state: PromptState, name?: string) => boolean;
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<TransferStatus | undefined>(undefined);
+
+  const handleExport = (format: TransferFormat) => {
+    downloadTextFile(
+      exportFilename(state, format, name),
+      serializePromptDocument(state, format, name),
+      format === "json" ? "application/json" : "application/yaml",
+    );
+  };
+
+  const handleFile = async (file: File) => {
+    const result = parsePromptDocument(await file.text(), file.name);
+    if (!result.ok) {
+      setStatus({ kind: "rejected", filename: file.name, errors: result.errors, warnings: result.warnings });
+      return;
+    }
+
+    if (!onImport(result.state, result.name)) {
+      setStatus(undefined);
+      return;
+    }
+    setStatus({
+      kind: "imported",
+      name: result.name ?? file.name,
+      migratedFrom: result.migratedFrom,
+      warnings: result.warnings,
+    });
+  };
+
+  return (
+    <div className={styles.transfer}>
+      <div className={styles.actions}>
+        <span>Import / Export</span>
+        <button type="button" onClick={() => handleExport("json")}>
+          Export JSON
+        </button>
+        <button type="button" onClick={() => handleExport("yaml")}>
+          Export YAML
+        </button>
+        <button type="button" onClick={() => fileInput.current?.click()}>
+          Import file…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = "";
+            if (file) void handleFile(file);
+          }}
+        />
+      </div>
+
+      {status && (
+        <div className={status.kind === "rejected" ? styles.rejected : styles.imported}>
+          <header>
+            <strong>
+              {status.kind === "rejected"
+                ? `${status.filename} was not imported. Fix these fields and try again:`
+                : `Imported "${status.name}"${
+                    status.migratedFrom !== undefined ? ` (upgraded from schema v${status.migratedFrom})` : ""
+                  }.`}
+            </strong>
+            <button type="button" onClick={() => setStatus(undefined)} aria-label="Dismiss">
+              ×
+            </button>
+          </header>
+          {status.kind === "rejected" && (
+            <ul>
+              {status.errors.map((issue) => (
+                <li key={`${issue.path}:${issue.message}`}>
+                  <code>{issue.path}</code> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {status.warnings.length > 0 && (
+            <ul className={styles.warnings}>
+              {status.warnings.map((issue) => (
+                <li key={`${issue.path}:${issue.message}`}>
+                  <code>{issue.path}</code> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTransfer;
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import {
+  getProviderDescriptor,
+  providerDescriptors,
+  type ProviderAvailability,
+  type ProviderConfigField,
+} from "@/lib/providers";
+
+import styles from "./PromptStudio.module.css";
+
+export type ProviderSettingsValue = {
+  provider: string;
+  model: string;
+  temperature: number;
+  apiKey: string;
+  baseUrl: string;
+  apiVersion: string;
+};
+
+export const createProviderSettings = (provider = "openai"): ProviderSettingsValue => {
+  const descriptor = getProviderDescriptor(provider) ?? providerDescriptors[0];
+  return {
+    provider: descriptor.id,
+    model: descriptor.defaultModel,
+    temperature: 0.4,
+    apiKey: "",
+    baseUrl: descriptor.defaults?.baseUrl ?? "",
+    apiVersion: descriptor.defaults?.apiVersion ?? "",
+  };
+};
+
+/** Fields forwarded to the server routes; empty connection fields are left to provider defaults. */
+export const toProviderPayload = ({
+  provider,
+  model,
+  temperature,
+  apiKey,
+  baseUrl,
+  apiVersion,
+}: ProviderSettingsValue) => ({
+  provider,
+  model,
+  temperature,
+  apiKey: apiKey || undefined,
+  baseUrl: baseUrl || undefined,
+  apiVersion: apiVersion || undefined,
+});
+
+export const useProviderAvailability = () => {
+  const [availability, setAvailability] = useState<ProviderAvailability | undefined>(undefined);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/providers", { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : undefined))
+      .then((data: ProviderAvailability | undefined) => setAvailability(data))
+      .catch(() => {
+        // Without availability info the UI falls back to bring-your-own-key behaviour.
+      });
+    return () => controller.abort();
+  }, []);
+
+  return availability;
+};
+
+const serverStatus = (availability: ProviderAvailability | undefined, providerId: string) =>
+  availability?.providers.find((entry) => entry.id === providerId);
+
+/** Whether the server supplies a connection field, so the client must not ask for it. */
+const isServerField = (
+  availability: ProviderAvailability | undefined,
+  providerId: string,
+  field: ProviderConfigField | "apiKey",
+) => Boolean(serverStatus(availability, providerId)?.serverFields.includes(field));
+
+export const isProviderReady = (settings: ProviderSettingsValue, availability?: ProviderAvailability) => {
+  const descriptor = getProviderDescriptor(settings.provider);
+  if (!descriptor) return false;
+  if (serverStatus(availability, settings.provider)?.configured) return true;
+  if (availability && !availability.allowClientKeys) return false;
+  if (descriptor.requiresApiKey && !settings.apiKey) return false;
+  return !descriptor.configFields.includes("baseUrl") || Boolean(settings.baseUrl);
+};
+
+export const ProviderSettings = ({
+  value,
+  onChange,
+  availability,
+}: {
+  value: ProviderSettingsValue;
+  onChange: (value: ProviderSettingsValue) => void;
+  availability?: ProviderAvailability;
+}) => {
+  const descriptor = getProviderDescriptor(value.provider);
+  const update = (patch: Partial<ProviderSettingsValue>) => onChange({ ...value, ...patch });
+  const clientKeysAllowed = availability?.allowClientKeys ?? true;
+  const asksFor = (field: ProviderConfigField | "apiKey") =>
+    clientKeysAllowed && !isServerField(availability, value.provider, field);
+
+  return (
+    <>
+      <label className={styles.inlineLabel}>
+        Provider
+        <select
+          value={value.provider}
+          // Connection fields belong to one vendor; never carry a key over to another provider's endpoint.
+          onChange={(event) =>
+            onChange({ ...createProviderSettings(event.target.value), temperature: value.temperature })
+          }
+        >
+          {providerDescriptors.map((provider) => {
+            const configured = serverStatus(availability, provider.id)?.configured;
+            return (
+              <option key={provider.id} value={provider.id} disabled={!clientKeysAllowed && !configured}>
+                {provider.label}
+                {configured ? " · server key" : ""}
+              </option>
+            );
+          })}
+        </select>
+      </label>
+      {descriptor?.configFields.includes("baseUrl") && asksFor("baseUrl") && (
+        <label className={styles.inlineLabel}>
+          Base URL
+          <input
+            value={value.baseUrl}
+            onChange={(event) => update({ baseUrl: event.target.value })}
+            placeholder={descriptor.placeholders?.baseUrl ?? descriptor.defaults?.baseUrl}
+          />
+        </label>
+      )}
+      {descriptor?.configFields.includes("apiVersion") && asksFor("apiVersion") && (
+        <label className={styles.inlineLabel}>
+          API Version
+          <input
+            value={value.apiVersion}
+            onChange={(event) => update({ apiVersion: event.target.value })}
+            placeholder={descriptor.defaults?.apiVersion}
+          />
+        </label>
+      )}
+      <label className={styles.inlineLabel}>
+        {descriptor?.modelLabel ?? "Model"}
+        <input value={value.model} onChange={(event) => update({ model: event.target.value })} />
+      </label>
+      <label className={styles.inlineLabel}>
+        Temperature
+        <input
+          type="number"
+          step="0.1"
+          min="0"
+          max="1.5"
+          value={value.temperature}
+          onChange={(event) => update({ temperature: Number.parseFloat(event.target.value) || 0 })}
+        />
+      </label>
+      {asksFor("apiKey") && (
+        <label className={styles.inlineLabel}>
+          API Key
+          <input
+            type="password"
+            value={value.apiKey}
+            onChange={(event) => update({ apiKey: event.target.value })}
+            placeholder={
+              descriptor?.requiresApiKey ? "Optional – paste when ready" : "Not required for this provider"
+            }
+          />
+        </label>
+      )}
+    </>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  captureSections,
+  createUserTemplate,
+  filledSections,
+  parseTemplateTags,
+  templateSectionKeys,
+  updateUserTemplate,
+  type UserTemplate,
+} from "@/lib/prompt-templates";
+import type { PromptState } from "@/lib/prompt-types";
+
+import { sectionLabel } from "./prompt-sections";
+import styles from "./SaveTemplateDialog.module.css";
+
+/**
+ * Saves the workspace, or just some of its sections, as a template. Editing an existing
+ * template changes its details and only re-captures sections when asked to.
+ */
+export const SaveTemplateDialog = ({
+  state,
+  template,
+  categories,
+  onSave,
+  onClose,
+}: {
+  state: PromptState;
+  /** The template being edited; omitted when saving a new one. */
+  template?: UserTemplate;
+  /** Existing categories, offered as suggestions. */
+  categories: string[];
+  onSave: (template: UserTemplate) => void;
+  onClose: () => void;
+}) => {
+  const available = filledSections(state);
+  const [title, setTitle] = useState(template?.title ?? state.projectTitle.trim());
+  const [subtitle, setSubtitle] = useState(template?.subtitle ?? "");
+  const [category, setCategory] = useState(template?.category ?? "");
+  const [tags, setTags] = useState(template?.tags.join(", ") ?? "");
+  const [recapture, setRecapture] = useState(!template);
+  const [selected, setSelected] = useState<Set<keyof PromptState>>(
+    () =>
+      new Set(template ? templateSectionKeys(template).filter((key) => available.includes(key)) : available),
+  );
+
+  const toggle = (key: keyof PromptState) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const keys = available.filter((key) => selected.has(key));
+  const canSave = title.trim() !== "" && (!recapture || keys.length > 0);
+
+  const handleSave = () => {
+    const draft = { title, subtitle, category, tags: parseTemplateTags(tags) };
+    onSave(
+      template
+        ? updateUserTemplate(template, draft, recapture ? captureSections(state, keys) : undefined)
+        : createUserTemplate(draft, state, keys),
+    );
+  };
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="save-template-title"
+        tabIndex={-1}
+        autoFocus
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onClose();
+        }}
+      >
+        <header>
+          <h2 id="save-template-title">{template ? "Edit template" : "Save as template"}</h2>
+          <button type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+
+        <div className={styles.fields}>
+          <label>
+            Title
+            <input
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              placeholder="Template title"
+            />
+          </label>
+          <label>
+            Subtitle
+            <input
+              value={subtitle}
+              onChange={(event) => setSubtitle(event.target.value)}
+              placeholder="What this template is for"
+            />
+          </label>
+          <div className={styles.row}>
+            <label>
+              Category
+              <input
+                value={category}
+                list="template-categories"
+                onChange={(event) => setCategory(event.target.value)}
+                placeholder="Custom"
+              />
+              <datalist id="template-categories">
+                {categories.map((entry) => (
+                  <option key={entry} value={entry} />
+                ))}
+              </datalist>
+            </label>
+            <label>
+              Tags
+              <input
+                value={tags}
+                onChange={(event) => setTags(event.target.value)}
+                placeholder="Comma separated, e.g. support, email"
+              />
+            </label>
+          </div>
+        </div>
+
+        {template && (
+          <label className={styles.recapture}>
+            <input
+              type="checkbox"
+              checked={recapture}
+              onChange={(event) => setRecapture(event.target.checked)}
+            />
+            Replace the template&apos;s content with sections from the current workspace
+          </label>
+        )}
+
+        {recapture &&
+          (available.length === 0 ? (
+            <p className={styles.empty}>The workspace has no filled-in sections to save.</p>
+          ) : (
+            <fieldset className={styles.sections}>
+              <legend>Sections to include</legend>
+              {available.map((key) => (
+                <label key={key}>
+                  <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} />
+                  {sectionLabel(key)}
+                </label>
+              ))}
+            </fieldset>
+          ))}
+
+        <footer>
+          <button type="button" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className={styles.saveButton} disabled={!canSave} onClick={handleSave}>
+            {template ? "Save changes" : `Save ${keys.length} ${keys.length === 1 ? "section" : "sections"}`}
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,73 @@
+"use client";
+
+import type { TemplateFilter } from "@/lib/prompt-templates";
+import type { PromptTemplate } from "@/lib/prompt-types";
+
+import styles from "./TemplateFilters.module.css";
+
+const sortedUnique = (values: string[]) =>
+  [...new Set(values)].sort((left, right) => left.localeCompare(right));
+
+/** Search box plus category and tag pickers built from the templates on offer. */
+export const TemplateFilters = ({
+  templates,
+  filter,
+  matches,
+  onChange,
+}: {
+  templates: PromptTemplate[];
+  filter: TemplateFilter;
+  /** How many templates pass the current filter. */
+  matches: number;
+  onChange: (filter: TemplateFilter) => void;
+}) => {
+  const categories = sortedUnique(templates.map((template) => template.category));
+  const tags = sortedUnique(templates.flatMap((template) => template.tags));
+  const isFiltered = Boolean(filter.query.trim() || filter.category || filter.tag);
+
+  return (
+    <div className={styles.filters}>
+      <input
+        type="search"
+        value={filter.query}
+        onChange={(event) => onChange({ ...filter, query: event.target.value })}
+        placeholder="Search templates"
+        aria-label="Search templates"
+      />
+      <select
+        aria-label="Category"
+        value={filter.category ?? ""}
+        onChange={(event) => onChange({ ...filter, category: event.target.value || undefined })}
+      >
+        <option value="">All categories</option>
+        {categories.map((category) => (
+          <option key={category} value={category}>
+            {category}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Tag"
+        value={filter.tag ?? ""}
+        onChange={(event) => onChange({ ...filter, tag: event.target.value || undefined })}
+      >
+        <option value="">All tags</option>
+        {tags.map((tag) => (
+          <option key={tag} value={tag}>
+            {tag}
+          </option>
+        ))}
+      </select>
+      {isFiltered && (
+        <span className={styles.count} role="status">
+          {matches === 0 ? "No templates match" : `${matches} of ${templates.length}`}
+          <button type="button" onClick={() => onChange({ query: "" })}>
+            Clear
+          </button>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TemplateFilters;
@@ -0,0 +1,49 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import type { TemplateGroup, TemplatePackIssue } from "@/lib/prompt-templates";
+
+import styles from "./TemplatePacks.module.css";
+
+/** One heading of the template library with the pack's version, when it has one. */
+export const TemplatePackGroup = ({
+  group,
+  count,
+  children,
+}: {
+  group: TemplateGroup;
+  /** Templates shown after filtering. */
+  count: number;
+  children: ReactNode;
+}) => (
+  <section className={styles.group} aria-label={group.name}>
+    <header>
+      <h3>{group.name}</h3>
+      {group.version && <span className={styles.version}>v{group.version}</span>}
+      <span className={styles.count}>{count}</span>
+    </header>
+    {children}
+  </section>
+);
+
+/** Problems found while reading the server's pack files, grouped under one disclosure. */
+export const TemplatePackIssues = ({ issues }: { issues: TemplatePackIssue[] }) => (
+  <details className={styles.issues}>
+    <summary>
+      {issues.length} {issues.length === 1 ? "problem" : "problems"} loading template packs
+    </summary>
+    <ul>
+      {issues.map((issue, index) => (
+        <li key={`${issue.file}:${issue.path}:${index}`}>
+          <code>
+            {issue.file} · {issue.path}
+          </code>{" "}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+export default TemplatePackGroup;
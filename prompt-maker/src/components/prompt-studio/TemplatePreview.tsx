@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { compileStudioPrompt } from "@/lib/prompt-targets";
+import {
+  APPENDABLE_SECTION_KEYS,
+  filledSections,
+  mergeTemplate,
+  templateSectionKeys,
+  templateToState,
+  type SectionMergeMode,
+  type TemplateMergePlan,
+} from "@/lib/prompt-templates";
+import type { PromptState, PromptTemplate } from "@/lib/prompt-types";
+
+import { describeSection, sectionLabel } from "./prompt-sections";
+import styles from "./TemplatePreview.module.css";
+
+/**
+ * Drawer showing a template's sections and compiled prompt before it touches the workspace.
+ * It can load the template as a fresh workspace or merge chosen sections into the current one.
+ */
+export const TemplatePreview = ({
+  template,
+  current,
+  onLoad,
+  onMerge,
+  onClose,
+}: {
+  template: PromptTemplate;
+  current: PromptState;
+  onLoad: (id: string) => void;
+  onMerge: (state: PromptState) => void;
+  onClose: () => void;
+}) => {
+  const preview = useMemo(() => templateToState(template), [template]);
+  const compiled = useMemo(() => compileStudioPrompt(preview), [preview]);
+  const keys = templateSectionKeys(template).filter((key) => filledSections(preview).includes(key));
+  const currentFilled = filledSections(current);
+  const defaultMode = (key: keyof PromptState): SectionMergeMode =>
+    APPENDABLE_SECTION_KEYS.includes(key) ? "append" : "replace";
+
+  // Start with what cannot lose work: append lists, and only fill text sections that are empty.
+  const [plan, setPlan] = useState<TemplateMergePlan>(() =>
+    Object.fromEntries(
+      keys
+        .filter((key) => APPENDABLE_SECTION_KEYS.includes(key) || !currentFilled.includes(key))
+        .map((key) => [key, defaultMode(key)]),
+    ),
+  );
+  const selected = keys.filter((key) => plan[key]);
+
+  const setMode = (key: keyof PromptState, mode: SectionMergeMode | undefined) =>
+    setPlan((prev) => {
+      const next = { ...prev };
+      if (mode) {
+        next[key] = mode;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+
+  return (
+    <div className={styles.backdrop} onClick={onClose}>
+      <aside
+        className={styles.drawer}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="template-preview-title"
+        tabIndex={-1}
+        autoFocus
+        onClick={(event) => event.stopPropagation()}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") onClose();
+        }}
+      >
+        <header>
+          <div>
+            <span className={styles.category}>{template.category}</span>
+            <h2 id="template-preview-title">{template.title}</h2>
+            {template.subtitle && <p>{template.subtitle}</p>}
+          </div>
+          <button type="button" onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </header>
+        {template.tags.length > 0 && (
+          <div className={styles.tags}>
+            {template.tags.map((tag) => (
+              <span key={tag}>{tag}</span>
+            ))}
+          </div>
+        )}
+
+        <ul className={styles.sections}>
+          {keys.map((key) => {
+            const appendable = APPENDABLE_SECTION_KEYS.includes(key);
+            return (
+              <li key={key}>
+                <div className={styles.sectionHeader}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={Boolean(plan[key])}
+                      onChange={(event) => setMode(key, event.target.checked ? defaultMode(key) : undefined)}
+                    />
+                    {sectionLabel(key)}
+                  </label>
+                  {appendable && plan[key] && (
+                    <select
+                      aria-label={`How to merge ${sectionLabel(key)}`}
+                      value={plan[key]}
+                      onChange={(event) => setMode(key, event.target.value as SectionMergeMode)}
+                    >
+                      <option value="append">Append to mine</option>
+                      <option value="replace">Replace mine</option>
+                    </select>
+                  )}
+                  {!appendable && plan[key] && currentFilled.includes(key) && (
+                    <span className={styles.overwrite}>Overwrites your text</span>
+                  )}
+                </div>
+                <pre>{describeSection(preview, key)}</pre>
+              </li>
+            );
+          })}
+        </ul>
+
+        <details className={styles.compiled}>
+          <summary>Compiled prompt</summary>
+          <pre>{compiled}</pre>
+        </details>
+
+        <footer>
+          <button type="button" onClick={() => onLoad(template.id)}>
+            Load as new workspace
+          </button>
+          <button
+            type="button"
+            className={styles.mergeButton}
+            disabled={selected.length === 0}
+            onClick={() => onMerge(mergeTemplate(current, template, plan))}
+          >
+            Merge {selected.length} {selected.length === 1 ? "section" : "sections"}
+          </button>
+        </footer>
+      </aside>
+    </div>
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,352 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { CompileTargetId } from "@/lib/prompt-targets";
+import {
+  ASSERTION_KINDS,
+  assertionKindLabels,
+  compareReports,
+  createTestAssertion,
+  createTestCase,
+  emptyTestSuite,
+  loadTestSuite,
+  persistTestSuite,
+  runTestSuite,
+  type AssertionKind,
+  type CaseRegression,
+  type TestAssertion,
+  type TestCase,
+  type TestSuite,
+} from "@/lib/prompt-tests";
+import type { PromptState } from "@/lib/prompt-types";
+
+import { sectionLabel } from "./prompt-sections";
+import { toProviderPayload, type ProviderSettingsValue } from "./ProviderSettings";
+import styles from "./TestSuitePanel.module.css";
+import { useLocalStorageState } from "./useLocalStorageState";
+
+const regressionLabels: Record<CaseRegression, string | undefined> = {
+  regressed: "Regressed",
+  fixed: "Fixed",
+  new: "New",
+  unchanged: undefined,
+};
+
+const AssertionRow = ({
+  assertion,
+  onChange,
+  onRemove,
+}: {
+  assertion: TestAssertion;
+  onChange: (patch: Partial<TestAssertion>) => void;
+  onRemove: () => void;
+}) => {
+  const multiline = assertion.kind === "json" || assertion.kind === "rubric";
+  const placeholder: Record<AssertionKind, string> = {
+    contains: "Text the output must include",
+    notContains: "Text the output must not include",
+    regex: "/pattern/flags",
+    json: "Optional JSON Schema",
+    maxLength: "e.g. 800",
+    rubric: "What a passing answer does, e.g. “Cites at least two sources and stays under 5 bullets.”",
+  };
+
+  return (
+    <div className={styles.assertion}>
+      <select
+        aria-label="Assertion"
+        value={assertion.kind}
+        onChange={(event) => onChange({ kind: event.target.value as AssertionKind })}
+      >
+        {ASSERTION_KINDS.map((kind) => (
+          <option key={kind} value={kind}>
+            {assertionKindLabels[kind]}
+          </option>
+        ))}
+      </select>
+      {multiline ? (
+        <textarea
+          rows={3}
+          value={assertion.value}
+          placeholder={placeholder[assertion.kind]}
+          onChange={(event) => onChange({ value: event.target.value })}
+        />
+      ) : (
+        <input
+          type={assertion.kind === "maxLength" ? "number" : "text"}
+          value={assertion.value}
+          placeholder={placeholder[assertion.kind]}
+          onChange={(event) => onChange({ value: event.target.value })}
+        />
+      )}
+      <button type="button" aria-label="Remove assertion" onClick={onRemove}>
+        ×
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Test cases attached to the active prompt: variable values plus assertions on the output.
+ * Each run is kept as a report so the next run can show which cases regressed.
+ */
+export const TestSuitePanel = ({
+  state,
+  target,
+  settings,
+  promptId,
+  versionLabel,
+  currentValues,
+}: {
+  state: PromptState;
+  target: CompileTargetId;
+  settings: ProviderSettingsValue;
+  promptId?: string;
+  versionLabel: string;
+  /** Resolved test values by name, used to pre-fill new cases. */
+  currentValues: Record<string, string>;
+}) => {
+  const loadSuite = useCallback(() => loadTestSuite(promptId), [promptId]);
+  const persistSuite = useCallback((suite: TestSuite) => persistTestSuite(promptId, suite), [promptId]);
+  const [suite, setSuite] = useLocalStorageState(loadSuite, persistSuite, emptyTestSuite());
+  const [reportId, setReportId] = useState<string | undefined>(undefined);
+  const [progress, setProgress] = useState<{ done: number; total: number } | undefined>(undefined);
+  const [runError, setRunError] = useState<string | undefined>(undefined);
+  const abort = useRef<AbortController | undefined>(undefined);
+
+  const { cases, reports } = suite;
+  const reportIndex = Math.max(
+    0,
+    reports.findIndex((report) => report.id === reportId),
+  );
+  const report = reports[reportIndex];
+  const regressions = report ? compareReports(report, reports[reportIndex + 1]) : {};
+  const declared = state.variables.filter((variable) => variable.name);
+
+  const updateCase = (id: string, update: (testCase: TestCase) => TestCase) =>
+    setSuite((current) => ({
+      ...current,
+      cases: current.cases.map((testCase) => (testCase.id === id ? update(testCase) : testCase)),
+    }));
+
+  const updateAssertion = (caseId: string, assertionId: string, patch: Partial<TestAssertion>) =>
+    updateCase(caseId, (testCase) => ({
+      ...testCase,
+      assertions: testCase.assertions.map((assertion) =>
+        assertion.id === assertionId ? { ...assertion, ...patch } : assertion,
+      ),
+    }));
+
+  // A run belongs to the prompt it started for; opening another prompt or closing the panel stops it.
+  useEffect(
+    () => () => {
+      abort.current?.abort();
+      abort.current = undefined;
+    },
+    [promptId],
+  );
+
+  const handleRun = async () => {
+    if (cases.length === 0) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setRunError(undefined);
+    setProgress({ done: 0, total: cases.length });
+
+    try {
+      const next = await runTestSuite(
+        cases,
+        {
+          state,
+          target,
+          label: sectionLabel,
+          request: toProviderPayload(settings),
+          signal: controller.signal,
+          onProgress: (_, index) => setProgress({ done: index + 1, total: cases.length }),
+        },
+        versionLabel,
+      );
+      if (abort.current !== controller) return;
+      setSuite((current) => ({ ...current, reports: [next, ...current.reports] }));
+      setReportId(next.id);
+    } catch {
+      if (abort.current === controller) setRunError("Suite run cancelled.");
+    } finally {
+      // Leave the state alone if another run has started since.
+      if (!abort.current || abort.current === controller) {
+        abort.current = undefined;
+        setProgress(undefined);
+      }
+    }
+  };
+
+  const passed = report?.results.filter((result) => result.passed).length ?? 0;
+  const regressedCount = Object.values(regressions).filter((status) => status === "regressed").length;
+
+  return (
+    <section className={styles.suite}>
+      <header>
+        <h2>Test Suite</h2>
+        {progress ? (
+          <button type="button" onClick={() => abort.current?.abort()}>
+            Cancel ({progress.done}/{progress.total})
+          </button>
+        ) : (
+          <button type="button" onClick={handleRun} disabled={cases.length === 0}>
+            Run {cases.length} {cases.length === 1 ? "case" : "cases"}
+          </button>
+        )}
+      </header>
+      <p className={styles.hint}>
+        Turn Success Criteria into checks: each case fills the variables and asserts on the model&apos;s
+        answer.
+      </p>
+
+      <div className={styles.cases}>
+        {cases.map((testCase, index) => {
+          const result = report?.results.find((entry) => entry.caseId === testCase.id);
+          return (
+            <details key={testCase.id} className={styles.case}>
+              <summary>
+                <span>{testCase.name || `Case ${index + 1}`}</span>
+                {result && (
+                  <span className={result.passed ? styles.pass : styles.fail}>
+                    {result.passed ? "Pass" : "Fail"}
+                  </span>
+                )}
+              </summary>
+              <input
+                aria-label="Case name"
+                value={testCase.name}
+                placeholder={`Case ${index + 1}`}
+                onChange={(event) =>
+                  updateCase(testCase.id, (current) => ({ ...current, name: event.target.value }))
+                }
+              />
+              {declared.map((variable) => (
+                <label key={variable.id} className={styles.value}>
+                  <code>{`{{${variable.name}}}`}</code>
+                  <input
+                    value={testCase.values[variable.name] ?? ""}
+                    onChange={(event) =>
+                      updateCase(testCase.id, (current) => ({
+                        ...current,
+                        values: { ...current.values, [variable.name]: event.target.value },
+                      }))
+                    }
+                  />
+                </label>
+              ))}
+              {testCase.assertions.map((assertion) => (
+                <AssertionRow
+                  key={assertion.id}
+                  assertion={assertion}
+                  onChange={(patch) => updateAssertion(testCase.id, assertion.id, patch)}
+                  onRemove={() =>
+                    updateCase(testCase.id, (current) => ({
+                      ...current,
+                      assertions: current.assertions.filter((item) => item.id !== assertion.id),
+                    }))
+                  }
+                />
+              ))}
+              <div className={styles.caseActions}>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateCase(testCase.id, (current) => ({
+                      ...current,
+                      assertions: [...current.assertions, createTestAssertion()],
+                    }))
+                  }
+                >
+                  Add assertion
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setSuite((current) => ({
+                      ...current,
+                      cases: current.cases.filter((item) => item.id !== testCase.id),
+                    }))
+                  }
+                >
+                  Remove case
+                </button>
+              </div>
+            </details>
+          );
+        })}
+      </div>
+      <button
+        type="button"
+        className={styles.addCase}
+        onClick={() =>
+          setSuite((current) => ({
+            ...current,
+            cases: [
+              ...current.cases,
+              createTestCase(`Case ${current.cases.length + 1}`, { ...currentValues }),
+            ],
+          }))
+        }
+      >
+        Add case from current test values
+      </button>
+
+      {runError && <p className={styles.error}>{runError}</p>}
+
+      {report && (
+        <div className={styles.report}>
+          <div className={styles.reportHeader}>
+            <strong>
+              {passed}/{report.results.length} passed
+              {regressedCount > 0 && <span className={styles.fail}> · {regressedCount} regressed</span>}
+            </strong>
+            <select
+              aria-label="Report"
+              value={report.id}
+              onChange={(event) => setReportId(event.target.value)}
+            >
+              {reports.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {new Date(entry.createdAt).toLocaleString()} · {entry.versionLabel} · {entry.model}
+                </option>
+              ))}
+            </select>
+          </div>
+          <ul>
+            {report.results.map((result) => {
+              const regression = regressionLabels[regressions[result.caseId]];
+              const failures = result.assertions.filter((assertion) => !assertion.passed);
+              return (
+                <li key={result.caseId}>
+                  <span className={result.passed ? styles.pass : styles.fail}>
+                    {result.passed ? "Pass" : "Fail"}
+                  </span>{" "}
+                  {result.name}
+                  {regression && <span className={styles[regressions[result.caseId]]}> {regression}</span>}
+                  {result.error && <p className={styles.error}>{result.error}</p>}
+                  {failures.map((failure) => (
+                    <p key={failure.assertionId} className={styles.failure}>
+                      {assertionKindLabels[failure.kind]}: {failure.message}
+                    </p>
+                  ))}
+                  {result.output !== undefined && (
+                    <details>
+                      <summary>Output</summary>
+                      <pre>{result.output || "(empty response)"}</pre>
+                    </details>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TestSuitePanel;
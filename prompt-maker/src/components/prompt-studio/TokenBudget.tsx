@@ -0,0 +1,295 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import {
+  CONTEXT_WARNING_RATIO,
+  createModelPrice,
+  defaultPriceTable,
+  estimateCallCost,
+  findModelPrice,
+  loadPriceTable,
+  persistPriceTable,
+  type ModelPrice,
+} from "@/lib/model-pricing";
+import { compileSections } from "@/lib/prompt-targets";
+import type { PromptState } from "@/lib/prompt-types";
+import {
+  countTokens,
+  fetchTokenCount,
+  loadExactCounter,
+  tokenizerForModel,
+  type BpeEncoding,
+  type TokenCounter,
+} from "@/lib/tokenizers";
+
+import { sectionLabel } from "./prompt-sections";
+import type { ProviderSettingsValue } from "./ProviderSettings";
+import styles from "./TokenBudget.module.css";
+import { useLocalStorageState } from "./useLocalStorageState";
+
+const priceFields = [
+  ["inputPerMillion", "Input price"],
+  ["outputPerMillion", "Output price"],
+  ["contextWindow", "Context window"],
+] as const;
+
+const formatUsd = (amount: number) => `$${amount < 1 ? amount.toPrecision(3) : amount.toFixed(2)}`;
+
+const PROVIDER_COUNT_DELAY_MS = 800;
+
+type ProviderCount = { model: string; prompt: string; inputTokens?: number; error?: string };
+
+/**
+ * Live size of the compiled prompt for the selected model, with its cost and context headroom.
+ * OpenAI models are counted exactly once their tokenizer loads and Claude models are counted by
+ * Anthropic when it is the selected provider; anything else is a labelled estimate.
+ */
+export const TokenBudget = ({
+  state,
+  compiledPrompt,
+  settings,
+}: {
+  state: PromptState;
+  compiledPrompt: string;
+  settings: ProviderSettingsValue;
+}) => {
+  const { provider, model, apiKey, baseUrl, apiVersion } = settings;
+  const [priceTable, setPriceTable] = useLocalStorageState<ModelPrice[]>(
+    loadPriceTable,
+    persistPriceTable,
+    defaultPriceTable,
+  );
+  const [outputTokens, setOutputTokens] = useState(500);
+  // `count` stays undefined when the vocabulary failed to load.
+  const [exactCounter, setExactCounter] = useState<
+    { encoding: BpeEncoding; count?: TokenCounter } | undefined
+  >(undefined);
+  const [providerCount, setProviderCount] = useState<ProviderCount | undefined>(undefined);
+
+  const tokenizer = useMemo(() => tokenizerForModel(model), [model]);
+  const countsWithProvider =
+    provider === "anthropic" && tokenizer.id === "claude" && Boolean(compiledPrompt.trim());
+
+  useEffect(() => {
+    const { encoding } = tokenizer;
+    let isCurrent = true;
+    loadExactCounter(tokenizer)
+      ?.then((count) => {
+        if (isCurrent && encoding) setExactCounter({ encoding, count });
+      })
+      .catch((error) => {
+        console.error("Failed to load the tokenizer", error);
+        if (isCurrent && encoding) setExactCounter({ encoding });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [tokenizer]);
+
+  useEffect(() => {
+    if (!countsWithProvider) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchTokenCount(
+        {
+          provider,
+          model,
+          apiKey: apiKey || undefined,
+          baseUrl: baseUrl || undefined,
+          apiVersion: apiVersion || undefined,
+          messages: [{ role: "user", content: compiledPrompt }],
+        },
+        controller.signal,
+      )
+        .then((result) => setProviderCount({ model, prompt: compiledPrompt, ...result }))
+        .catch(() => undefined);
+    }, PROVIDER_COUNT_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [countsWithProvider, compiledPrompt, provider, model, apiKey, baseUrl, apiVersion]);
+
+  const loaded = exactCounter?.encoding === tokenizer.encoding ? exactCounter : undefined;
+  const exact = loaded?.count;
+  const counted =
+    countsWithProvider && providerCount?.model === model && providerCount.prompt === compiledPrompt
+      ? providerCount
+      : undefined;
+  const countText = useCallback(
+    (text: string) => (exact ? exact(text) : countTokens(text, tokenizer)),
+    [exact, tokenizer],
+  );
+  const localTotal = useMemo(() => countText(compiledPrompt), [compiledPrompt, countText]);
+  const total = counted?.inputTokens ?? localTotal;
+  const isEstimate = !exact && counted?.inputTokens === undefined;
+  const sections = useMemo(
+    () =>
+      compileSections(state, sectionLabel)
+        .map((section) => ({ key: section.key, tokens: countText(section.text) }))
+        .sort((a, b) => b.tokens - a.tokens),
+    [state, countText],
+  );
+
+  const price = findModelPrice(priceTable, model);
+  const usage = price && price.contextWindow > 0 ? (total + outputTokens) / price.contextWindow : undefined;
+
+  const updatePrice = (id: string, patch: Partial<ModelPrice>) =>
+    setPriceTable((table) => table.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)));
+
+  return (
+    <section className={styles.budget}>
+      <header>
+        <h2>Token Budget</h2>
+        <span className={styles.total}>
+          {isEstimate && "≈ "}
+          {total.toLocaleString()} tokens
+        </span>
+      </header>
+      <p className={styles.hint}>
+        {counted?.inputTokens !== undefined ? (
+          <>
+            Counted by Anthropic for <code>{model}</code>, sent as one message; section sizes are estimates.
+          </>
+        ) : exact ? (
+          <>
+            Exact count with the {tokenizer.encoding} tokenizer for <code>{model}</code>; chat formatting adds
+            a few tokens per message.
+          </>
+        ) : (
+          <>
+            Heuristic estimate ({tokenizer.label}) for <code>{model || "no model"}</code>, not an exact
+            tokenizer count.
+            {tokenizer.encoding &&
+              (loaded ? " The exact tokenizer failed to load." : " The exact tokenizer is loading.")}
+            {countsWithProvider &&
+              (counted?.error
+                ? ` Anthropic could not count it: ${counted.error}`
+                : " Asking Anthropic for the exact count.")}
+          </>
+        )}{" "}
+        Leave headroom near the context limit.
+      </p>
+
+      {sections.length > 0 && (
+        <ul className={styles.sections}>
+          {sections.map((section) => (
+            <li key={section.key}>
+              <span>{sectionLabel(section.key)}</span>
+              <span className={styles.bar}>
+                <span style={{ width: `${total ? Math.min(100, (section.tokens / total) * 100) : 0}%` }} />
+              </span>
+              <span className={styles.count}>{section.tokens.toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className={styles.output}>
+        Expected output tokens
+        <input
+          type="number"
+          min={0}
+          step={100}
+          value={outputTokens}
+          onChange={(event) => setOutputTokens(Math.max(0, Number(event.target.value) || 0))}
+        />
+      </label>
+
+      {price ? (
+        <dl className={styles.stats}>
+          <div>
+            <dt>Cost per call</dt>
+            <dd>{formatUsd(estimateCallCost(price, total, outputTokens))}</dd>
+          </div>
+          <div>
+            <dt>Context window</dt>
+            <dd>
+              {usage !== undefined ? `≈ ${Math.round(usage * 100)}% of ` : ""}
+              {price.contextWindow.toLocaleString()}
+            </dd>
+          </div>
+        </dl>
+      ) : (
+        <p className={styles.hint}>
+          No price entry matches this model. Add one below to estimate cost and context usage.
+        </p>
+      )}
+
+      {usage !== undefined && usage >= CONTEXT_WARNING_RATIO && (
+        <p className={usage >= 1 ? styles.danger : styles.warning} role="alert">
+          {usage >= 1
+            ? "The prompt plus expected output exceeds this model's context window."
+            : "The prompt plus expected output is close to this model's context window."}
+        </p>
+      )}
+
+      <details className={styles.priceTable}>
+        <summary>Price table (USD per million tokens)</summary>
+        <table>
+          <thead>
+            <tr>
+              <th>Model prefix</th>
+              <th>Input</th>
+              <th>Output</th>
+              <th>Context</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {priceTable.map((entry) => (
+              <tr key={entry.id} className={entry === price ? styles.active : undefined}>
+                <td>
+                  <input
+                    aria-label="Model prefix"
+                    value={entry.match}
+                    onChange={(event) => updatePrice(entry.id, { match: event.target.value })}
+                  />
+                </td>
+                {priceFields.map(([field, label]) => (
+                  <td key={field}>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      aria-label={label}
+                      value={entry[field]}
+                      onChange={(event) =>
+                        updatePrice(entry.id, { [field]: Math.max(0, Number(event.target.value) || 0) })
+                      }
+                    />
+                  </td>
+                ))}
+                <td>
+                  <button
+                    type="button"
+                    aria-label={`Remove ${entry.match || "entry"}`}
+                    onClick={() => setPriceTable((table) => table.filter((item) => item.id !== entry.id))}
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className={styles.tableActions}>
+          <button
+            type="button"
+            onClick={() =>
+              setPriceTable((table) => [...table, createModelPrice(price ? "" : model.split("/").pop())])
+            }
+          >
+            Add model
+          </button>
+          <button type="button" onClick={() => setPriceTable(defaultPriceTable)}>
+            Reset to defaults
+          </button>
+        </div>
+      </details>
+    </section>
+  );
+};
+
+export default TokenBudget;
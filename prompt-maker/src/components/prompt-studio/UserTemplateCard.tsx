@@ -0,0 +1,48 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import type { UserTemplate } from "@/lib/prompt-templates";
+
+import styles from "./UserTemplateCard.module.css";
+
+/** Wraps a library card for a template saved from the workspace, marking it and adding its actions. */
+export const UserTemplateCard = ({
+  template,
+  onEdit,
+  onExport,
+  onDelete,
+  children,
+}: {
+  template: UserTemplate;
+  onEdit: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  children: ReactNode;
+}) => (
+  <div className={styles.card}>
+    {children}
+    <div className={styles.actions}>
+      <span className={styles.badge} title={`Saved ${new Date(template.createdAt).toLocaleString()}`}>
+        Custom
+      </span>
+      <button type="button" onClick={onEdit} aria-label={`Edit ${template.title}`}>
+        Edit
+      </button>
+      <button type="button" onClick={onExport} aria-label={`Export ${template.title}`}>
+        Export
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          if (window.confirm(`Delete the template "${template.title}"?`)) onDelete();
+        }}
+        aria-label={`Delete ${template.title}`}
+      >
+        ×
+      </button>
+    </div>
+  </div>
+);
+
+export default UserTemplateCard;
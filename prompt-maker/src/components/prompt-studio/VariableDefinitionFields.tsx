@@ -0,0 +1,160 @@
+"use client";
+
+import {
+  checkVariableDefinition,
+  VARIABLE_TYPES,
+  variableTypeLabels,
+  type VariableConstraints,
+  type VariableDefinition,
+  type VariableType,
+} from "@/lib/prompt-variables";
+
+import styles from "./VariableDefinitionFields.module.css";
+
+export type VariableDefinitionPatch = Partial<
+  Pick<VariableDefinition, "type" | "required" | "defaultValue" | "constraints">
+>;
+
+const parseBound = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+/** Type, required flag, default and type-specific constraints for one variable. */
+export const VariableDefinitionFields = ({
+  variable,
+  onChange,
+}: {
+  variable: VariableDefinition;
+  onChange: (patch: VariableDefinitionPatch) => void;
+}) => {
+  const type = variable.type ?? "string";
+  const constraints = variable.constraints ?? {};
+  const problems = checkVariableDefinition(variable).filter((problem) => problem !== "Name is required.");
+
+  const setConstraint = <K extends keyof VariableConstraints>(key: K, value: VariableConstraints[K]) => {
+    const next = { ...constraints, [key]: value };
+    if (value === undefined || value === "") delete next[key];
+    onChange({ constraints: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  const boundInput = (key: "minLength" | "maxLength" | "min" | "max", label: string) => (
+    <label>
+      {label}
+      <input
+        type="number"
+        min={key === "minLength" || key === "maxLength" ? 0 : undefined}
+        value={constraints[key] ?? ""}
+        onChange={(event) => setConstraint(key, parseBound(event.target.value))}
+      />
+    </label>
+  );
+
+  return (
+    <div className={styles.definition}>
+      <div className={styles.row}>
+        <label>
+          Type
+          <select value={type} onChange={(event) => onChange({ type: event.target.value as VariableType })}>
+            {VARIABLE_TYPES.map((option) => (
+              <option key={option} value={option}>
+                {variableTypeLabels[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.checkbox}>
+          <input
+            type="checkbox"
+            checked={Boolean(variable.required)}
+            onChange={(event) => onChange({ required: event.target.checked })}
+          />
+          Required
+        </label>
+      </div>
+
+      <label>
+        Default value
+        {type === "text" || type === "json" ? (
+          <textarea
+            rows={2}
+            value={variable.defaultValue ?? ""}
+            onChange={(event) => onChange({ defaultValue: event.target.value || undefined })}
+          />
+        ) : (
+          <input
+            value={variable.defaultValue ?? ""}
+            placeholder={type === "boolean" ? "true or false" : undefined}
+            onChange={(event) => onChange({ defaultValue: event.target.value || undefined })}
+          />
+        )}
+      </label>
+
+      {(type === "string" || type === "text") && (
+        <>
+          <div className={styles.row}>
+            {boundInput("minLength", "Min length")}
+            {boundInput("maxLength", "Max length")}
+          </div>
+          <label>
+            Pattern (regex)
+            <input
+              value={constraints.pattern ?? ""}
+              placeholder="e.g. [A-Z]{2}-\d+"
+              onChange={(event) => setConstraint("pattern", event.target.value)}
+            />
+          </label>
+        </>
+      )}
+
+      {type === "number" && (
+        <div className={styles.row}>
+          {boundInput("min", "Minimum")}
+          {boundInput("max", "Maximum")}
+        </div>
+      )}
+
+      {type === "enum" && (
+        <label>
+          Allowed values (comma separated)
+          <input
+            // Committed on blur so typing a trailing comma does not drop the next value.
+            key={(constraints.options ?? []).join("\u0000")}
+            defaultValue={(constraints.options ?? []).join(", ")}
+            onBlur={(event) => {
+              const options = [
+                ...new Set(
+                  event.target.value
+                    .split(",")
+                    .map((option) => option.trim())
+                    .filter(Boolean),
+                ),
+              ];
+              setConstraint("options", options.length > 0 ? options : undefined);
+            }}
+          />
+        </label>
+      )}
+
+      {type === "json" && (
+        <label>
+          JSON Schema
+          <textarea
+            rows={4}
+            className={styles.code}
+            value={constraints.schema ?? ""}
+            placeholder='{ "type": "object", "required": ["id"] }'
+            onChange={(event) => setConstraint("schema", event.target.value)}
+          />
+        </label>
+      )}
+
+      {problems.length > 0 && (
+        <ul className={styles.problems}>
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VariableDefinitionFields;
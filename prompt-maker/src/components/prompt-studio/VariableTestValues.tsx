@@ -0,0 +1,115 @@
+"use client";
+
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import type { VariableDefinition, VariableValues } from "@/lib/prompt-variables";
+
+import styles from "./VariableTestValues.module.css";
+
+export const VariableTestValues = ({
+  variables,
+  values,
+  unresolved,
+  issues,
+  onChange,
+}: {
+  variables: VariableDefinition[];
+  values: VariableValues;
+  unresolved: string[];
+  issues: ValidationIssue[];
+  onChange: (values: VariableValues) => void;
+}) => {
+  const declared = variables.filter((variable) => variable.name);
+
+  const renderInput = (variable: VariableDefinition) => {
+    const value = values[variable.id] ?? variable.example ?? "";
+    const placeholder = variable.defaultValue
+      ? `Default: ${variable.defaultValue}`
+      : "Value used in the rendered preview";
+    const update = (next: string) => onChange({ ...values, [variable.id]: next });
+
+    switch (variable.type) {
+      case "enum":
+      case "boolean": {
+        const options =
+          variable.type === "boolean" ? ["true", "false"] : (variable.constraints?.options ?? []);
+        return (
+          <select value={value} onChange={(event) => update(event.target.value)}>
+            <option value="">{variable.defaultValue ? `Default (${variable.defaultValue})` : "—"}</option>
+            {value && !options.includes(value) && <option value={value}>{value}</option>}
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      case "number":
+        return (
+          <input
+            type="number"
+            value={value}
+            placeholder={placeholder}
+            onChange={(event) => update(event.target.value)}
+          />
+        );
+      case "text":
+      case "json":
+        return (
+          <textarea
+            rows={variable.type === "json" ? 4 : 3}
+            className={variable.type === "json" ? styles.code : undefined}
+            value={value}
+            placeholder={placeholder}
+            onChange={(event) => update(event.target.value)}
+          />
+        );
+      default:
+        return (
+          <input value={value} placeholder={placeholder} onChange={(event) => update(event.target.value)} />
+        );
+    }
+  };
+
+  return (
+    <section className={styles.testValues}>
+      <header>
+        <h2>Test Values</h2>
+        <button type="button" onClick={() => onChange({})} disabled={Object.keys(values).length === 0}>
+          Reset to examples
+        </button>
+      </header>
+
+      {declared.length === 0 ? (
+        <p className={styles.hint}>Declare reusable variables to fill them in here.</p>
+      ) : (
+        declared.map((variable) => {
+          const errors = issues.filter((issue) => issue.path === variable.name);
+          return (
+            <label key={variable.id} className={styles.valueField}>
+              <code>
+                {`{{${variable.name}}}`}
+                {variable.required && <span className={styles.required}> required</span>}
+              </code>
+              {variable.description && <span className={styles.hint}>{variable.description}</span>}
+              {renderInput(variable)}
+              {errors.map((issue) => (
+                <span key={issue.message} className={styles.error}>
+                  {variable.name} {issue.message}
+                </span>
+              ))}
+            </label>
+          );
+        })
+      )}
+
+      {unresolved.length > 0 && (
+        <p className={styles.unresolved}>
+          Left as placeholders: {unresolved.map((name) => `{{${name}}}`).join(", ")}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default VariableTestValues;
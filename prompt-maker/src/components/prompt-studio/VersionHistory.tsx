@@ -0,0 +1,250 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { compileStudioPrompt } from "@/lib/prompt-targets";
+import type { PromptState, PromptVariable, WorkflowStage } from "@/lib/prompt-types";
+import { diffPromptStates, isEmptyDiff, type EntryChange, type PromptVersion } from "@/lib/prompt-versions";
+import { diffLines } from "@/lib/text-diff";
+
+import { sectionLabel } from "./prompt-sections";
+import styles from "./VersionHistory.module.css";
+
+const CURRENT = "current";
+
+const statusLabels: Record<EntryChange<{ id: string }>["status"], string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+  moved: "Moved",
+};
+
+const EntryChanges = <T extends { id: string }>({
+  title,
+  changes,
+  describe,
+}: {
+  title: string;
+  changes: EntryChange<T>[];
+  describe: (entry: T) => string;
+}) =>
+  changes.length > 0 ? (
+    <div className={styles.diffGroup}>
+      <h4>{title}</h4>
+      <ul>
+        {changes.map((change) => (
+          <li key={change.id}>
+            <span className={styles[change.status]}>{statusLabels[change.status]}</span>{" "}
+            {describe((change.after ?? change.before) as T)}
+            {change.fields.length > 0 && (
+              <span className={styles.fieldList}> · {change.fields.map(String).join(", ")}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  ) : null;
+
+export const VersionHistory = ({
+  versions,
+  currentState,
+  score,
+  onCommit,
+  onRestore,
+}: {
+  versions: PromptVersion[];
+  currentState: PromptState;
+  score: number;
+  onCommit: (message: string) => void;
+  onRestore: (version: PromptVersion) => void;
+}) => {
+  const [message, setMessage] = useState("");
+  const [fromId, setFromId] = useState<string | undefined>(undefined);
+  const [toId, setToId] = useState(CURRENT);
+  const [showCompiled, setShowCompiled] = useState(false);
+
+  const resolve = (id: string | undefined): PromptState | undefined =>
+    id === CURRENT ? currentState : versions.find((version) => version.id === id)?.state;
+
+  // Default comparison: latest commit against the live workspace. Selections that no longer
+  // resolve (e.g. after switching saved prompts) fall back to the same defaults.
+  const baseId = resolve(fromId) ? fromId : versions[0]?.id;
+  const targetId = resolve(toId) ? toId : CURRENT;
+  const before = resolve(baseId);
+  const after = resolve(targetId);
+
+  const stateDiff = useMemo(
+    () => (before && after ? diffPromptStates(before, after) : undefined),
+    [before, after],
+  );
+  // Only diff the compiled text while it is on screen; the workspace changes on every keystroke.
+  const textDiff = useMemo(
+    () =>
+      showCompiled && before && after
+        ? diffLines(compileStudioPrompt(before), compileStudioPrompt(after))
+        : [],
+    [showCompiled, before, after],
+  );
+
+  const handleCommit = () => {
+    onCommit(message);
+    setMessage("");
+  };
+
+  const optionLabel = (version: PromptVersion, index: number) =>
+    `v${versions.length - index} · ${version.message}`;
+
+  return (
+    <section className={styles.versionCard}>
+      <header>
+        <h2>Version History</h2>
+        <span>{versions.length} committed</span>
+      </header>
+
+      <div className={styles.commitRow}>
+        <input
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleCommit();
+            }
+          }}
+          placeholder="What changed in this iteration?"
+        />
+        <button type="button" onClick={handleCommit}>
+          Commit version
+        </button>
+      </div>
+
+      {versions.length > 0 && (
+        <ol className={styles.versionList}>
+          {versions.map((version, index) => (
+            <li key={version.id}>
+              <div>
+                <strong>{optionLabel(version, index)}</strong>
+                <span>
+                  Score {version.score} · {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  if (window.confirm(`Restore "${version.message}" into the workspace?`)) {
+                    onRestore(version);
+                  }
+                }}
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {versions.length > 0 && (
+        <div className={styles.compare}>
+          <div className={styles.compareSelectors}>
+            <label>
+              From
+              <select value={baseId} onChange={(event) => setFromId(event.target.value)}>
+                {versions.map((version, index) => (
+                  <option key={version.id} value={version.id}>
+                    {optionLabel(version, index)}
+                  </option>
+                ))}
+                <option value={CURRENT}>Current workspace (score {score})</option>
+              </select>
+            </label>
+            <label>
+              To
+              <select value={targetId} onChange={(event) => setToId(event.target.value)}>
+                <option value={CURRENT}>Current workspace (score {score})</option>
+                {versions.map((version, index) => (
+                  <option key={version.id} value={version.id}>
+                    {optionLabel(version, index)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {stateDiff && isEmptyDiff(stateDiff) ? (
+            <p className={styles.noChanges}>No differences between the selected versions.</p>
+          ) : (
+            stateDiff && (
+              <>
+                {stateDiff.text.length > 0 && (
+                  <div className={styles.diffGroup}>
+                    <h4>Sections</h4>
+                    {stateDiff.text.map((change) => (
+                      <details key={change.key}>
+                        <summary>{sectionLabel(change.key)}</summary>
+                        <div className={styles.sideBySide}>
+                          <pre className={styles.removedBlock}>{change.before || "—"}</pre>
+                          <pre className={styles.addedBlock}>{change.after || "—"}</pre>
+                        </div>
+                      </details>
+                    ))}
+                  </div>
+                )}
+                {stateDiff.lists.length > 0 && (
+                  <div className={styles.diffGroup}>
+                    <h4>Chips</h4>
+                    <ul>
+                      {stateDiff.lists.map((change) => (
+                        <li key={change.key}>
+                          <strong>{sectionLabel(change.key)}</strong>
+                          {change.added.map((item) => (
+                            <span key={`+${item}`} className={styles.added}>
+                              +{item}
+                            </span>
+                          ))}
+                          {change.removed.map((item) => (
+                            <span key={`-${item}`} className={styles.removed}>
+                              −{item}
+                            </span>
+                          ))}
+                          {change.reordered && <span className={styles.moved}>reordered</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <EntryChanges<WorkflowStage>
+                  title="Workflow"
+                  changes={stateDiff.workflow}
+                  describe={(stage) => stage.title || "Untitled stage"}
+                />
+                <EntryChanges<PromptVariable>
+                  title="Variables"
+                  changes={stateDiff.variables}
+                  describe={(variable) => variable.name || "Unnamed variable"}
+                />
+                <details
+                  className={styles.diffGroup}
+                  open={showCompiled}
+                  onToggle={(event) => setShowCompiled(event.currentTarget.open)}
+                >
+                  <summary>Compiled prompt</summary>
+                  <pre className={styles.textDiff}>
+                    {textDiff.map((line, index) => (
+                      <span key={index} className={styles[line.type]}>
+                        {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                        {line.text}
+                        {"\n"}
+                      </span>
+                    ))}
+                  </pre>
+                </details>
+              </>
+            )
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default VersionHistory;
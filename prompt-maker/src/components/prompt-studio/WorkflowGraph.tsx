@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, type PointerEvent } from "react";
+
+import {
+  createWorkflowEdge,
+  describeStageRoute,
+  findWorkflowGraphIssues,
+  isBranchingWorkflow,
+  layoutWorkflow,
+  NODE_HEIGHT,
+  NODE_WIDTH,
+  resolveStageRoute,
+  stageName,
+  type WorkflowEdge,
+  type WorkflowNode,
+  type WorkflowRoutingPatch,
+} from "@/lib/workflow-graph";
+
+import styles from "./WorkflowGraph.module.css";
+
+type Point = { x: number; y: number };
+
+type Drag = { id: string; pointer: Point; origin: Point; moved: boolean };
+
+/** Movement below this many pixels is a click on the node, not a drag. */
+const DRAG_THRESHOLD = 4;
+
+/** A curve from the right edge of one node to the left edge of another; back edges loop underneath. */
+const edgePath = (from: Point, to: Point) => {
+  const start = { x: from.x + NODE_WIDTH, y: from.y + NODE_HEIGHT / 2 };
+  const end = { x: to.x, y: to.y + NODE_HEIGHT / 2 };
+  if (end.x > start.x) {
+    const bend = (end.x - start.x) / 2;
+    return `M ${start.x} ${start.y} C ${start.x + bend} ${start.y}, ${end.x - bend} ${end.y}, ${end.x} ${end.y}`;
+  }
+  const below = Math.max(from.y, to.y) + NODE_HEIGHT + 28;
+  return `M ${start.x} ${start.y} C ${start.x + 60} ${below}, ${end.x - 60} ${below}, ${end.x} ${end.y}`;
+};
+
+const midpoint = (from: Point, to: Point) => ({
+  x: (from.x + NODE_WIDTH + to.x) / 2,
+  y:
+    to.x > from.x + NODE_WIDTH
+      ? (from.y + to.y) / 2 + NODE_HEIGHT / 2 - 6
+      : Math.max(from.y, to.y) + NODE_HEIGHT + 18,
+});
+
+export type WorkflowView = "list" | "graph";
+
+export const WorkflowViewToggle = ({
+  view,
+  onChange,
+}: {
+  view: WorkflowView;
+  onChange: (view: WorkflowView) => void;
+}) => (
+  <div className={styles.views} role="group" aria-label="Workflow view">
+    <button type="button" onClick={() => onChange("list")} disabled={view === "list"}>
+      List
+    </button>
+    <button type="button" onClick={() => onChange("graph")} disabled={view === "graph"}>
+      Graph
+    </button>
+  </div>
+);
+
+/** Where a stage leads, shown under it in the list view once the workflow branches. */
+export const WorkflowRouteSummary = ({ stages, index }: { stages: WorkflowNode[]; index: number }) =>
+  isBranchingWorkflow(stages) ? (
+    <p className={styles.summary}>
+      <span>Next</span> {describeStageRoute(stages, index).join(" ")}
+    </p>
+  ) : null;
+
+/**
+ * Node view of the Agent Workflow. It edits the same stages as the list: drag nodes to arrange
+ * them, select one to set its routes, conditions and whether it ends the flow.
+ */
+export const WorkflowGraph = ({
+  stages,
+  onRoute,
+}: {
+  stages: WorkflowNode[];
+  onRoute: (id: string, patch: WorkflowRoutingPatch) => void;
+}) => {
+  const [selectedId, setSelectedId] = useState<string | undefined>(stages[0]?.id);
+  const [drag, setDrag] = useState<Drag | undefined>(undefined);
+
+  const layout = layoutWorkflow(stages);
+  const positionOf = (id: string): Point => {
+    const position = layout[id];
+    return drag?.id === id
+      ? { x: Math.max(0, position.x + drag.pointer.x), y: Math.max(0, position.y + drag.pointer.y) }
+      : position;
+  };
+  const width = Math.max(...stages.map((stage) => positionOf(stage.id).x + NODE_WIDTH)) + 24;
+  const height = Math.max(...stages.map((stage) => positionOf(stage.id).y + NODE_HEIGHT)) + 64;
+
+  const selectedIndex = stages.findIndex((stage) => stage.id === selectedId);
+  const selected = stages[selectedIndex];
+  const issues = findWorkflowGraphIssues(stages);
+
+  const handlePointerDown = (id: string) => (event: PointerEvent<HTMLButtonElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ id, pointer: { x: 0, y: 0 }, origin: { x: event.clientX, y: event.clientY }, moved: false });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLButtonElement>) => {
+    setDrag((prev) => {
+      if (!prev) return prev;
+      const pointer = { x: event.clientX - prev.origin.x, y: event.clientY - prev.origin.y };
+      const moved = prev.moved || Math.hypot(pointer.x, pointer.y) > DRAG_THRESHOLD;
+      return { ...prev, pointer: moved ? pointer : prev.pointer, moved };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.moved) {
+      const position = positionOf(drag.id);
+      onRoute(drag.id, { position: { x: Math.round(position.x), y: Math.round(position.y) } });
+    } else {
+      setSelectedId(drag.id);
+    }
+    setDrag(undefined);
+  };
+
+  const updateEdges = (update: (edges: WorkflowEdge[]) => WorkflowEdge[]) => {
+    if (selected) onRoute(selected.id, { next: update(selected.next ?? []) });
+  };
+
+  if (stages.length === 0) {
+    return <p className={styles.hint}>Add a stage to start the graph.</p>;
+  }
+
+  return (
+    <div className={styles.graph}>
+      <div className={styles.canvas}>
+        <div className={styles.surface} style={{ width, height }}>
+          <svg width={width} height={height} aria-hidden="true">
+            <defs>
+              <marker
+                id="workflow-arrow"
+                viewBox="0 0 10 10"
+                refX="9"
+                refY="5"
+                markerWidth="7"
+                markerHeight="7"
+                orient="auto"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" />
+              </marker>
+            </defs>
+            {stages.flatMap((stage, index) => {
+              const route = resolveStageRoute(stages, index);
+              const from = positionOf(stage.id);
+              return [
+                ...route.branches.map((branch, branchIndex) => ({
+                  key: `${stage.id}:branch:${branchIndex}`,
+                  to: stages[branch.to].id,
+                  label: branch.condition,
+                  implicit: false,
+                })),
+                ...route.then.map((to) => ({
+                  key: `${stage.id}:then:${to}`,
+                  to: stages[to].id,
+                  label: undefined,
+                  // Fall-through to the next list entry is drawn dashed.
+                  implicit: route.implicit,
+                })),
+              ].map((edge) => {
+                const to = positionOf(edge.to);
+                const label = midpoint(from, to);
+                return (
+                  <g key={edge.key} className={edge.label ? styles.conditional : undefined}>
+                    <path
+                      d={edgePath(from, to)}
+                      className={edge.implicit ? styles.implicit : styles.edge}
+                      markerEnd="url(#workflow-arrow)"
+                    />
+                    {edge.label && (
+                      <text x={label.x} y={label.y} textAnchor="middle">
+                        {edge.label.length > 28 ? `${edge.label.slice(0, 27)}…` : edge.label}
+                      </text>
+                    )}
+                  </g>
+                );
+              });
+            })}
+          </svg>
+          {stages.map((stage, index) => {
+            const position = positionOf(stage.id);
+            return (
+              <button
+                key={stage.id}
+                type="button"
+                className={[
+                  styles.node,
+                  stage.id === selectedId && styles.selected,
+                  stage.terminal && styles.terminal,
+                  drag?.id === stage.id && drag.moved && styles.dragging,
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                style={{ left: position.x, top: position.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                onPointerDown={handlePointerDown(stage.id)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setDrag(undefined)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" || event.key === " ") setSelectedId(stage.id);
+                }}
+                aria-pressed={stage.id === selectedId}
+              >
+                <span className={styles.nodeIndex}>{index + 1}</span>
+                <span className={styles.nodeTitle}>{stage.title.trim() || "Untitled stage"}</span>
+                {stage.terminal && <span className={styles.nodeBadge}>Final</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className={styles.issues}>
+          {issues.map((issue) => (
+            <li key={`${issue.stageId}:${issue.message}`}>
+              {stageName(
+                stages,
+                stages.findIndex((stage) => stage.id === issue.stageId),
+              )}
+              : {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className={styles.inspector}>
+          <div className={styles.inspectorHeader}>
+            <strong>After {stageName(stages, selectedIndex)}</strong>
+            <label>
+              <input
+                type="checkbox"
+                checked={Boolean(selected.terminal)}
+                onChange={(event) => onRoute(selected.id, { terminal: event.target.checked })}
+              />
+              Final stage
+            </label>
+          </div>
+          {selected.terminal ? (
+            <p className={styles.hint}>The workflow ends here.</p>
+          ) : (
+            <>
+              {(selected.next ?? []).map((edge) => (
+                <div key={edge.id} className={styles.route}>
+                  <input
+                    aria-label="Condition"
+                    value={edge.condition ?? ""}
+                    placeholder="Always"
+                    onChange={(event) =>
+                      updateEdges((edges) =>
+                        edges.map((entry) =>
+                          entry.id === edge.id ? { ...entry, condition: event.target.value } : entry,
+                        ),
+                      )
+                    }
+                  />
+                  <span aria-hidden="true">→</span>
+                  <select
+                    aria-label="Go to stage"
+                    value={edge.to}
+                    onChange={(event) =>
+                      updateEdges((edges) =>
+                        edges.map((entry) =>
+                          entry.id === edge.id ? { ...entry, to: event.target.value } : entry,
+                        ),
+                      )
+                    }
+                  >
+                    {stages.map((stage, index) => (
+                      <option key={stage.id} value={stage.id}>
+                        {index + 1}. {stage.title.trim() || "Untitled stage"}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    aria-label="Remove route"
+                    onClick={() => updateEdges((edges) => edges.filter((entry) => entry.id !== edge.id))}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => {
+                  const next = stages[selectedIndex + 1] ?? stages[0];
+                  updateEdges((edges) => [...edges, createWorkflowEdge(next.id)]);
+                }}
+              >
+                + Add route
+              </button>
+              <p className={styles.hint}>
+                A route with a condition is taken only when it applies. Without one it is always taken, and
+                several such routes run as parallel branches. A stage with no routes continues with the next
+                one in the list.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowGraph;
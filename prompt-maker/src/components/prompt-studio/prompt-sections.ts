@@ -0,0 +1,214 @@
+import type { SectionHeading } from "@/lib/prompt-merge";
+import type { PromptArrayKey, PromptState } from "@/lib/prompt-types";
+import { variableTypeLabels, type VariableDefinition } from "@/lib/prompt-variables";
+import { stageName, type WorkflowNode } from "@/lib/workflow-graph";
+
+export const textSections: Array<{
+  id: keyof PromptState;
+  title: string;
+  placeholder: string;
+  helper: string;
+  rows?: number;
+}> = [
+  {
+    id: "projectTitle",
+    title: "Project Codename",
+    placeholder: "e.g. Apollo command console",
+    helper: "Optional naming to make the prompt memorable.",
+    rows: 1,
+  },
+  {
+    id: "coreObjective",
+    title: "Core Objective",
+    placeholder:
+      "What must the model accomplish? Include problem statement and desired transformation.",
+    helper:
+      "Give context, stakes, and boundaries. The model should know what success looks like.",
+    rows: 4,
+  },
+  {
+    id: "targetAudience",
+    title: "Target Audience / Persona",
+    placeholder:
+      "Who is this prompt ultimately serving? Describe persona, expertise, motivations, anxieties.",
+    helper:
+      "Helps the model tailor tone, reading level, and references.",
+    rows: 3,
+  },
+  {
+    id: "backgroundContext",
+    title: "Background Context",
+    placeholder:
+      "Operational context, systems involved, known constraints, domain specifics, or prior work.",
+    helper: "Provide only verified facts. Flag assumptions inline.",
+    rows: 4,
+  },
+  {
+    id: "requiredInputs",
+    title: "Required Inputs",
+    placeholder:
+      "What information will the end user provide? List any files, data points, or parameters expected.",
+    helper: "Make it explicit so the model can validate presence of required inputs.",
+    rows: 3,
+  },
+  {
+    id: "desiredOutput",
+    title: "Desired Deliverable",
+    placeholder:
+      "Describe the final artifact. Mention structure, length, formatting, tables, or decision frameworks.",
+    helper: "Pair structure with rationale. Models love specificity.",
+    rows: 4,
+  },
+  {
+    id: "successCriteria",
+    title: "Success Criteria",
+    placeholder:
+      "Define what good looks like. Include acceptance tests, quality bars, or evaluation checklist.",
+    helper: "This powers automated QA and self-evaluation.",
+    rows: 3,
+  },
+  {
+    id: "guardrails",
+    title: "Guardrails & Refusal Policy",
+    placeholder:
+      "Non-negotiables, refusal conditions, compliance rules, safety mitigations, or biases to avoid.",
+    helper: "Explicit guardrails drastically reduce hallucinations and policy drift.",
+    rows: 3,
+  },
+  {
+    id: "creativeAngles",
+    title: "Creative Directions",
+    placeholder:
+      "Any inspiration sources, brand anchors, emotional tones, or contrary takes to explore.",
+    helper: "Encourage the model to produce divergent options.",
+    rows: 3,
+  },
+  {
+    id: "referenceMaterial",
+    title: "Reference Material",
+    placeholder:
+      "Paste links, excerpts, or knowledge graph nodes the model should ground to. Clarify why each matters.",
+    helper: "Grounding references reduces hallucinations and lifts specificity.",
+    rows: 3,
+  },
+  {
+    id: "evaluationStrategy",
+    title: "Self-Evaluation Strategy",
+    placeholder:
+      "How should the model critique itself before finalizing? Provide scoring rubric or checklist.",
+    helper: "Tell the model to find its own mistakes before handing off.",
+    rows: 3,
+  },
+  {
+    id: "modelPreferences",
+    title: "Model / Tooling Preferences",
+    placeholder:
+      "Optional: specify model family, required tools, retrieval steps, or latency constraints.",
+    helper: "Useful when orchestrating across multiple systems.",
+    rows: 2,
+  },
+  {
+    id: "callToAction",
+    title: "Respond With",
+    placeholder:
+      "Explicit instructions for the assistant's final answer. e.g. Provide JSON schema, bullet summary, action plan.",
+    helper: "Makes downstream automation simpler.",
+    rows: 2,
+  },
+];
+
+export const chipGroups: Array<{
+  id: PromptArrayKey;
+  title: string;
+  emptyLabel: string;
+  helper: string;
+}> = [
+  {
+    id: "toneTraits",
+    title: "Tone DNA",
+    emptyLabel: "Add tone traits",
+    helper: "Select the emotional stance and voice the model should adopt.",
+  },
+  {
+    id: "styleGuidelines",
+    title: "Style Rules",
+    emptyLabel: "Add stylistic guidance",
+    helper: "Structure, pacing, and formatting requirements.",
+  },
+  {
+    id: "constraints",
+    title: "Operational Constraints",
+    emptyLabel: "Add non-negotiables",
+    helper: "Boundary conditions that keep the model on-rails.",
+  },
+  {
+    id: "keywords",
+    title: "Linguistic Anchors",
+    emptyLabel: "Add must-use phrases",
+    helper: "Terms, jargon, or frameworks to incorporate.",
+  },
+];
+
+const sectionLabels = new Map<string, string>([
+  ...textSections.map((section) => [section.id, section.title] as [string, string]),
+  ...chipGroups.map((group) => [group.id, group.title] as [string, string]),
+  ["workflow", "Agent Workflow"],
+  ["variables", "Reusable Variables"],
+]);
+
+export const sectionLabel = (key: string) => sectionLabels.get(key) ?? key;
+
+const describeRoutes = (stages: WorkflowNode[], stage: WorkflowNode) => {
+  const routes = (stage.next ?? []).map((edge) => {
+    const index = stages.findIndex((entry) => entry.id === edge.to);
+    const target = index >= 0 ? stageName(stages, index) : "a missing stage";
+    return `↪ ${target}${edge.condition?.trim() ? ` when ${edge.condition.trim()}` : ""}`;
+  });
+  return stage.terminal ? [...routes, "■ Ends the workflow"] : routes;
+};
+
+const describeVariable = (variable: VariableDefinition) => {
+  const details = [
+    variableTypeLabels[variable.type ?? "string"],
+    variable.required ? "required" : "optional",
+    variable.defaultValue !== undefined ? `default "${variable.defaultValue}"` : undefined,
+    ...Object.entries(variable.constraints ?? {}).map(
+      ([key, value]) =>
+        `${key} ${Array.isArray(value) ? value.join(" | ") : String(value).replace(/\s+/g, " ")}`,
+    ),
+  ].filter(Boolean);
+  const example = variable.example ? ` (e.g. ${variable.example})` : "";
+  return `{{${variable.name}}} – ${variable.description}${example}\n  ${details.join(" · ")}`;
+};
+
+/**
+ * A section as plain text, for side-by-side previews. Stage routes and variable definitions are
+ * spelled out so a change that drops them shows up in the diff.
+ */
+export const describeSection = (state: PromptState, key: keyof PromptState) => {
+  const value = state[key];
+  if (key === "workflow") {
+    const stages: WorkflowNode[] = state.workflow;
+    return stages
+      .map((stage, index) =>
+        [
+          `${index + 1}. ${stage.title}`,
+          stage.instruction,
+          `→ ${stage.expectedOutput}`,
+          ...describeRoutes(stages, stage),
+        ].join("\n"),
+      )
+      .join("\n\n");
+  }
+  if (key === "variables") {
+    const variables: VariableDefinition[] = state.variables;
+    return variables.map(describeVariable).join("\n");
+  }
+  return Array.isArray(value) ? value.map((item) => `• ${item}`).join("\n") : String(value);
+};
+
+/** Headings recognised when mapping free-form refined prompts back onto fields. */
+export const sectionHeadings: SectionHeading[] = [
+  ...textSections.map((section) => ({ key: section.id, title: section.title })),
+  ...chipGroups.map((group) => ({ key: group.id, title: group.title })),
+];
@@ -0,0 +1,64 @@
+"use client";
+
+import { useCallback, useState, useSyncExternalStore } from "react";
+
+type StoredValue = { value: unknown; listeners: Set<() => void> };
+
+/** One entry per load function, so every component reading the same data shares one value. */
+const storedValues = new Map<() => unknown, StoredValue>();
+
+const storedValueFor = (load: () => unknown) => {
+  let stored = storedValues.get(load);
+  if (!stored) {
+    stored = { value: load(), listeners: new Set() };
+    storedValues.set(load, stored);
+  }
+  return stored;
+};
+
+const subscribeToNothing = () => () => {};
+
+/**
+ * State mirrored in localStorage. Storage is only readable in the browser, so the server render
+ * and hydration use `fallback` and the stored value takes over right after; `isRestored` tells
+ * the two apart. Updates are persisted as they are made. `load` identifies the data: pass a
+ * stable function (a module-level loader, or one memoised per key).
+ */
+export const useLocalStorageState = <T>(load: () => T, persist: (value: T) => void, fallback: T) => {
+  const [serverValue] = useState(fallback);
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      const stored = storedValueFor(load);
+      stored.listeners.add(listener);
+      return () => {
+        stored.listeners.delete(listener);
+      };
+    },
+    [load],
+  );
+  const value = useSyncExternalStore(
+    subscribe,
+    () => storedValueFor(load).value as T,
+    () => serverValue,
+  );
+  const isRestored = useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false,
+  );
+
+  const setValue = useCallback(
+    (update: T | ((previous: T) => T)) => {
+      const stored = storedValueFor(load);
+      const next = typeof update === "function" ? (update as (previous: T) => T)(stored.value as T) : update;
+      if (Object.is(next, stored.value)) return;
+      stored.value = next;
+      persist(next);
+      stored.listeners.forEach((listener) => listener());
+    },
+    [load, persist],
+  );
+
+  return [value, setValue, isRestored] as const;
+};
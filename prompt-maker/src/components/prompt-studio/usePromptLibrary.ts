@@ -0,0 +1,196 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  createSavedPrompt,
+  createWorkspaceAutosave,
+  isSameState,
+  loadSavedPrompts,
+  loadWorkspaceAutosave,
+  persistSavedPrompts,
+  persistWorkspaceAutosave,
+  suggestPromptName,
+  type SavedPrompt,
+} from "@/lib/prompt-library";
+import type { PromptState } from "@/lib/prompt-types";
+import { createPromptVersion, type PromptVersion } from "@/lib/prompt-versions";
+
+import { useLocalStorageState } from "./useLocalStorageState";
+
+const AUTOSAVE_DELAY_MS = 600;
+
+export const usePromptLibrary = (
+  state: PromptState,
+  hydrate: (payload: PromptState, options?: { replaceHistory?: boolean }) => void,
+) => {
+  const [prompts, setPrompts, isRestored] = useLocalStorageState<SavedPrompt[]>(
+    loadSavedPrompts,
+    persistSavedPrompts,
+    [],
+  );
+  const [autosave, setAutosave] = useLocalStorageState(
+    loadWorkspaceAutosave,
+    persistWorkspaceAutosave,
+    undefined,
+  );
+  // Until a prompt is opened or detached this session, the autosaved choice stands.
+  const [selection, setSelection] = useState<{ promptId?: string } | undefined>(undefined);
+  const [draftBaseline, setDraftBaseline] = useState<PromptState | undefined>(state);
+  const hasHydrated = useRef(false);
+
+  const activePromptId = selection ? selection.promptId : autosave?.activePromptId;
+  const lastAutosave = autosave?.savedAt;
+
+  // The workspace itself lives in the editor's reducer, so the autosave is handed over once restored.
+  useEffect(() => {
+    if (!isRestored || hasHydrated.current) return;
+    hasHydrated.current = true;
+    if (autosave) hydrate(autosave.state, { replaceHistory: true });
+  }, [isRestored, autosave, hydrate]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const timer = setTimeout(
+      () => setAutosave(createWorkspaceAutosave(state, activePromptId)),
+      AUTOSAVE_DELAY_MS,
+    );
+
+    return () => clearTimeout(timer);
+  }, [isRestored, state, activePromptId, setAutosave]);
+
+  const activePrompt = useMemo(
+    () => prompts.find((entry) => entry.id === activePromptId),
+    [prompts, activePromptId],
+  );
+
+  const baseline = activePrompt?.state ?? draftBaseline;
+  const hasUnsavedChanges = baseline ? !isSameState(baseline, state) : true;
+
+  const saveAs = useCallback(
+    (name?: string) => {
+      const entry = createSavedPrompt(name ?? suggestPromptName(state, prompts), state);
+      setPrompts((prev) => [entry, ...prev]);
+      setSelection({ promptId: entry.id });
+      return entry;
+    },
+    [state, prompts, setPrompts],
+  );
+
+  const save = useCallback(() => {
+    if (!activePrompt) return saveAs();
+
+    const updated: SavedPrompt = {
+      ...activePrompt,
+      state: structuredClone(state),
+      updatedAt: new Date().toISOString(),
+    };
+    setPrompts((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)));
+    return updated;
+  }, [activePrompt, saveAs, state, setPrompts]);
+
+  // Committing a version also saves the workspace, creating a library entry if needed.
+  const commitVersion = useCallback(
+    (message: string, score: number) => {
+      const version = createPromptVersion(state, message, score);
+      if (!activePrompt) {
+        const entry = {
+          ...createSavedPrompt(suggestPromptName(state, prompts), state),
+          versions: [version],
+        };
+        setPrompts((prev) => [entry, ...prev]);
+        setSelection({ promptId: entry.id });
+        return version;
+      }
+
+      setPrompts((prev) =>
+        prev.map((entry) =>
+          entry.id === activePrompt.id
+            ? {
+                ...entry,
+                state: structuredClone(state),
+                versions: [version, ...entry.versions],
+                updatedAt: version.createdAt,
+              }
+            : entry,
+        ),
+      );
+      return version;
+    },
+    [activePrompt, prompts, state, setPrompts],
+  );
+
+  const restoreVersion = useCallback(
+    (version: PromptVersion) => hydrate(structuredClone(version.state)),
+    [hydrate],
+  );
+
+  const rename = useCallback(
+    (id: string, name: string) => {
+      const trimmed = name.trim();
+      if (!trimmed) return;
+      setPrompts((prev) =>
+        prev.map((entry) =>
+          entry.id === id ? { ...entry, name: trimmed, updatedAt: new Date().toISOString() } : entry,
+        ),
+      );
+    },
+    [setPrompts],
+  );
+
+  const duplicate = useCallback(
+    (id: string) => {
+      const source = prompts.find((entry) => entry.id === id);
+      if (!source) return;
+      const copy = createSavedPrompt(`${source.name} copy`, source.state);
+      setPrompts((prev) => {
+        const index = prev.findIndex((entry) => entry.id === id);
+        return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+      });
+    },
+    [prompts, setPrompts],
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      setPrompts((prev) => prev.filter((entry) => entry.id !== id));
+      if (activePromptId === id) setSelection({ promptId: undefined });
+    },
+    [activePromptId, setPrompts],
+  );
+
+  const restore = useCallback(
+    (id: string) => {
+      const entry = prompts.find((item) => item.id === id);
+      if (!entry) return;
+      hydrate(structuredClone(entry.state));
+      setSelection({ promptId: entry.id });
+    },
+    [prompts, hydrate],
+  );
+
+  // Called when the workspace is replaced from outside the library (template load, reset).
+  const detach = useCallback((baselineState?: PromptState) => {
+    setSelection({ promptId: undefined });
+    setDraftBaseline(baselineState);
+  }, []);
+
+  return {
+    prompts,
+    activePrompt,
+    hasUnsavedChanges,
+    lastAutosave,
+    save,
+    saveAs,
+    commitVersion,
+    restoreVersion,
+    rename,
+    duplicate,
+    remove,
+    restore,
+    detach,
+  };
+};
+
+export type PromptLibraryController = ReturnType<typeof usePromptLibrary>;
@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { loadPromptRuns, persistPromptRuns, type PromptRun } from "@/lib/prompt-runs";
+
+import { useLocalStorageState } from "./useLocalStorageState";
+
+/**
+ * The run log, newest first, mirrored in localStorage. The selected run is shared so the
+ * Playground and the judge look at the same output.
+ */
+export const usePromptRuns = () => {
+  const [runs, setRuns] = useLocalStorageState<PromptRun[]>(loadPromptRuns, persistPromptRuns, []);
+  const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+
+  const addRun = useCallback((run: PromptRun) => setRuns((prev) => [run, ...prev]), [setRuns]);
+
+  const updateRun = useCallback(
+    (id: string, patch: Partial<PromptRun>) =>
+      setRuns((prev) => prev.map((run) => (run.id === id ? { ...run, ...patch } : run))),
+    [setRuns],
+  );
+
+  const removeRun = useCallback(
+    (id: string) => setRuns((prev) => prev.filter((run) => run.id !== id)),
+    [setRuns],
+  );
+
+  const clearRuns = useCallback(
+    (predicate: (run: PromptRun) => boolean = () => true) =>
+      setRuns((prev) => prev.filter((run) => !predicate(run))),
+    [setRuns],
+  );
+
+  return { runs, selectedId, setSelectedId, addRun, updateRun, removeRun, clearRuns };
+};
+
+export type PromptRunsController = ReturnType<typeof usePromptRuns>;
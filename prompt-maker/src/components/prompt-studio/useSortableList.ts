@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, type DragEvent, type KeyboardEvent } from "react";
+
+import styles from "./SortableList.module.css";
+
+/**
+ * Drag-and-drop plus Alt+↑/↓ reordering for a list of entries with ids. Dragging starts from
+ * the handle only, so text selection inside the entry's fields keeps working.
+ */
+export const useSortableList = (ids: string[], onMove: (id: string, toIndex: number) => void) => {
+  const [draggingId, setDraggingId] = useState<string | undefined>(undefined);
+  const [overId, setOverId] = useState<string | undefined>(undefined);
+
+  const reset = () => {
+    setDraggingId(undefined);
+    setOverId(undefined);
+  };
+
+  const handleProps = (id: string) => ({
+    className: styles.handle,
+    draggable: true,
+    title: "Drag to reorder (Alt+↑/↓ from any field)",
+    "aria-label": "Reorder",
+    onDragStart: (event: DragEvent<HTMLElement>) => {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", id);
+      const item = event.currentTarget.closest("[data-sortable-item]");
+      if (item instanceof HTMLElement) event.dataTransfer.setDragImage(item, 16, 16);
+      setDraggingId(id);
+    },
+    onDragEnd: reset,
+  });
+
+  const itemProps = (id: string) => {
+    const index = ids.indexOf(id);
+    return {
+      "data-sortable-item": true,
+      className: [draggingId === id && styles.dragging, overId === id && draggingId !== id && styles.dropTarget]
+        .filter(Boolean)
+        .join(" "),
+      onDragOver: (event: DragEvent<HTMLElement>) => {
+        if (!draggingId) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+        if (overId !== id) setOverId(id);
+      },
+      onDrop: (event: DragEvent<HTMLElement>) => {
+        if (!draggingId) return;
+        event.preventDefault();
+        if (draggingId !== id) onMove(draggingId, index);
+        reset();
+      },
+      onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+        if (!event.altKey || (event.key !== "ArrowUp" && event.key !== "ArrowDown")) return;
+        const target = event.key === "ArrowUp" ? index - 1 : index + 1;
+        if (target < 0 || target >= ids.length) return;
+        event.preventDefault();
+        // React may re-insert the moved entry's DOM node, which drops focus; put it back.
+        const focused = document.activeElement;
+        onMove(id, target);
+        requestAnimationFrame(() => {
+          if (focused instanceof HTMLElement && focused !== document.activeElement) focused.focus();
+        });
+      },
+    };
+  };
+
+  return { handleProps, itemProps };
+};
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { TemplatePackListing } from "@/lib/prompt-templates";
+
+/** Template packs served by `/api/templates`; empty until they load or when the route fails. */
+export const useTemplatePacks = () => {
+  const [listing, setListing] = useState<TemplatePackListing>({ packs: [], issues: [] });
+
+  useEffect(() => {
+    let controller = new AbortController();
+    const load = () => {
+      controller.abort();
+      controller = new AbortController();
+      fetch("/api/templates", { signal: controller.signal })
+        .then((response) => (response.ok ? response.json() : undefined))
+        .then((data: TemplatePackListing | undefined) => {
+          if (data) setListing(data);
+        })
+        .catch(() => {
+          // Without the route the library still lists built-in and saved templates.
+        });
+    };
+
+    load();
+    // The server re-reads changed pack files in development; refetch when returning from the editor.
+    const reloadOnFocus = process.env.NODE_ENV === "development";
+    if (reloadOnFocus) window.addEventListener("focus", load);
+    return () => {
+      controller.abort();
+      if (reloadOnFocus) window.removeEventListener("focus", load);
+    };
+  }, []);
+
+  return listing;
+};
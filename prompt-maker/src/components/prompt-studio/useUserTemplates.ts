@@ -0,0 +1,35 @@
+"use client";
+
+import { useCallback } from "react";
+
+import { loadUserTemplates, persistUserTemplates, type UserTemplate } from "@/lib/prompt-templates";
+
+import { useLocalStorageState } from "./useLocalStorageState";
+
+/** Templates saved from the workspace, newest first, mirrored in localStorage. */
+export const useUserTemplates = () => {
+  const [templates, setTemplates] = useLocalStorageState<UserTemplate[]>(
+    loadUserTemplates,
+    persistUserTemplates,
+    [],
+  );
+
+  const saveTemplate = useCallback(
+    (template: UserTemplate) =>
+      setTemplates((prev) =>
+        prev.some((entry) => entry.id === template.id)
+          ? prev.map((entry) => (entry.id === template.id ? template : entry))
+          : [template, ...prev],
+      ),
+    [setTemplates],
+  );
+
+  const removeTemplate = useCallback(
+    (id: string) => setTemplates((prev) => prev.filter((template) => template.id !== id)),
+    [setTemplates],
+  );
+
+  return { templates, saveTemplate, removeTemplate };
+};
+
+export type UserTemplatesController = ReturnType<typeof useUserTemplates>;
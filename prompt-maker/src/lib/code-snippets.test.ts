@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { describe, it } from "node:test";
+
+import { generateSnippet, type SnippetInput } from "@/lib/code-snippets";
+import type { VariableDefinition } from "@/lib/prompt-variables";
+import { openaiAdapter } from "@/lib/providers/openai";
+
+const awkwardDefaults = [
+  "it's",
+  'say "hi"',
+  "$HOME and ${PATH}",
+  "`whoami` and $(date)",
+  "line one\nline two",
+  "back\\slash",
+  "'",
+];
+
+const snippetInput = (variables: VariableDefinition[]): SnippetInput => ({
+  adapter: openaiAdapter,
+  model: "gpt-4o-mini",
+  temperature: 0.2,
+  messages: [{ role: "user", content: variables.map((variable) => `{{${variable.name}}}`).join(" ") }],
+  variables,
+});
+
+const variables = awkwardDefaults.map((defaultValue, index): VariableDefinition => ({
+  id: `v${index}`,
+  name: `VALUE_${index}`,
+  description: "Default with 'quotes'\nand a newline",
+  type: "text",
+  defaultValue,
+}));
+
+describe("generateSnippet", () => {
+  it("writes a curl script that bash can parse whatever the defaults contain", () => {
+    const script = generateSnippet("curl", snippetInput(variables));
+    const result = spawnSync("bash", ["-n"], { input: script, encoding: "utf8" });
+    assert.equal(result.status, 0, result.stderr);
+  });
+
+  it("keeps curl defaults literal", () => {
+    const script = generateSnippet("curl", snippetInput(variables));
+    const assignments = script.slice(0, script.indexOf("BODY=$("));
+    const print = variables.map((variable) => `"$${variable.name}"`).join(" ");
+    const result = spawnSync("bash", ["-c", `${assignments}\nprintf '%s\\0' ${print}`], {
+      encoding: "utf8",
+    });
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(result.stdout.split("\0").slice(0, -1), awkwardDefaults);
+  });
+
+  it("lets the environment override a curl default", () => {
+    const script = generateSnippet("curl", snippetInput(variables.slice(0, 1)));
+    const assignments = script.slice(0, script.indexOf("BODY=$("));
+    const result = spawnSync("bash", ["-c", `${assignments}\nprintf '%s' "$VALUE_0"`], {
+      encoding: "utf8",
+      env: { ...process.env, VALUE_0: "from env" },
+    });
+    assert.equal(result.stdout, "from env");
+  });
+});
@@ -0,0 +1,428 @@
+import type { ChatMessage, ProviderAdapter } from "@/lib/providers";
+import type { VariableDefinition } from "@/lib/prompt-variables";
+
+export type SnippetLanguage = "ts-fetch" | "ts-openai" | "python" | "curl";
+
+export const snippetLanguages: Array<{ id: SnippetLanguage; label: string; filename: string }> = [
+  { id: "ts-fetch", label: "TypeScript · fetch", filename: "prompt.ts" },
+  { id: "ts-openai", label: "TypeScript · openai SDK", filename: "prompt.ts" },
+  { id: "python", label: "Python", filename: "prompt.py" },
+  { id: "curl", label: "curl", filename: "prompt.sh" },
+];
+
+export type SnippetInput = {
+  adapter: ProviderAdapter;
+  model: string;
+  temperature: number;
+  baseUrl?: string;
+  apiVersion?: string;
+  /** Compiled prompt with `{{NAME}}` placeholders left in for the generated code to fill. */
+  messages: ChatMessage[];
+  variables: VariableDefinition[];
+};
+
+const API_KEY_SENTINEL = "__API_KEY__";
+const messageSentinel = (index: number) => `__PROMPT_${index}__`;
+const FALLBACK_ENDPOINT = "https://YOUR-RESOURCE.openai.azure.com";
+
+/** Matches the variable names the server reads, e.g. `AZURE_OPENAI_API_KEY`. */
+const apiKeyEnv = (adapter: ProviderAdapter) => `${adapter.id.toUpperCase().replace(/-/g, "_")}_API_KEY`;
+
+const camelCase = (name: string) => {
+  const result = name.toLowerCase().replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+  return /^[0-9]/.test(result) ? `_${result}` : result;
+};
+
+/** Names the generated Python function already uses, plus keywords that cannot be parameters. */
+const PYTHON_RESERVED = new Set([
+  ...["api_key", "values", "fill", "response", "data", "json", "os", "re", "requests", "text", "match"],
+  ...("and as assert async await break class continue def del elif else except finally for from global if " +
+    "import in is lambda nonlocal not or pass raise return try while with yield").split(" "),
+]);
+
+const snakeCase = (name: string) => {
+  const result = name.toLowerCase();
+  if (/^[0-9]/.test(result)) return `_${result}`;
+  return PYTHON_RESERVED.has(result) ? `${result}_` : result;
+};
+
+const declaredVariables = (variables: VariableDefinition[]) => {
+  const seen = new Set<string>();
+  return variables.filter((variable) => {
+    if (!variable.name || seen.has(variable.name)) return false;
+    seen.add(variable.name);
+    return true;
+  });
+};
+
+/** A default value as a JSON literal of the variable's type, or undefined when it has none. */
+const defaultLiteral = (variable: VariableDefinition): unknown => {
+  const raw = variable.defaultValue;
+  if (raw === undefined || raw === "") return undefined;
+  switch (variable.type) {
+    case "number":
+      return Number.isFinite(Number(raw)) ? Number(raw) : undefined;
+    case "boolean":
+      return /^(true|yes|1|on)$/i.test(raw.trim());
+    case "json":
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return undefined;
+      }
+    default:
+      return raw;
+  }
+};
+
+/**
+ * Builds the provider request once with sentinel values so every snippet sends exactly what the
+ * studio's adapters send, including provider quirks like Anthropic's separate `system` field.
+ */
+const buildTemplateRequest = (input: SnippetInput) => {
+  const { adapter } = input;
+  const baseUrl =
+    input.baseUrl ||
+    adapter.defaults?.baseUrl ||
+    (adapter.configFields.includes("baseUrl") ? FALLBACK_ENDPOINT : undefined);
+  const { url, init } = adapter.buildRequest(
+    {
+      model: input.model,
+      temperature: input.temperature,
+      messages: input.messages.map((message, index) => ({ ...message, content: messageSentinel(index) })),
+    },
+    { apiKey: API_KEY_SENTINEL, baseUrl, apiVersion: input.apiVersion || adapter.defaults?.apiVersion },
+  );
+  const headers = Object.fromEntries(
+    Object.entries((init.headers ?? {}) as Record<string, string>).filter(([, value]) => value !== ""),
+  );
+  const body: unknown = JSON.parse(String(init.body));
+  return { url, headers, body, baseUrl };
+};
+
+const tsType = (variable: VariableDefinition) => {
+  switch (variable.type) {
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "json":
+      return "unknown";
+    case "enum":
+      return variable.constraints?.options?.length
+        ? variable.constraints.options.map((option) => JSON.stringify(option)).join(" | ")
+        : "string";
+    default:
+      return "string";
+  }
+};
+
+const tsVariables = (variables: VariableDefinition[]) => {
+  const declared = declaredVariables(variables);
+  const fields = declared.map((variable) => {
+    const optional = !variable.required || defaultLiteral(variable) !== undefined;
+    const doc = variable.description ? `  /** ${variable.description.replace(/\*\//g, "*\\/")} */\n` : "";
+    return `${doc}  ${camelCase(variable.name)}${optional ? "?" : ""}: ${tsType(variable)};`;
+  });
+  // Read through `variables.` so parameter names can never shadow the snippet's own locals.
+  const values = declared.map((variable) => {
+    const literal = defaultLiteral(variable);
+    const access = `variables.${camelCase(variable.name)}${literal === undefined ? "" : ` ?? ${JSON.stringify(literal)}`}`;
+    const convert = variable.type === "json" ? "JSON.stringify" : "String";
+    return literal === undefined
+      ? `    ${variable.name}: ${access} === undefined ? undefined : ${convert}(${access}),`
+      : `    ${variable.name}: ${convert}(${access}),`;
+  });
+
+  return {
+    type: declared.length > 0 ? `export type PromptVariables = {\n${fields.join("\n")}\n};\n\n` : "",
+    param: declared.length > 0 ? `  variables: PromptVariables,\n` : "",
+    fill:
+      declared.length > 0
+        ? [
+            "  const values: Record<string, string | undefined> = {",
+            ...values,
+            "  };",
+            "  const fill = (text: string) =>",
+            "    text.replace(/\\{\\{\\s*([A-Za-z0-9_]+)\\s*\\}\\}/g, (match, name: string) => values[name] ?? match);",
+          ].join("\n")
+        : "  const fill = (text: string) => text;",
+  };
+};
+
+const tsPromptConstants = (messages: ChatMessage[]) =>
+  messages.map((message, index) => `const PROMPT_${index} = ${JSON.stringify(message.content)};`).join("\n");
+
+/** JSON with the sentinels swapped for TypeScript expressions. */
+const tsExpression = (value: unknown, indent: string) =>
+  JSON.stringify(value, null, 2)
+    .replace(/"__PROMPT_(\d+)__"/g, "fill(PROMPT_$1)")
+    .replace(/"__API_KEY__"/g, "apiKey")
+    .replace(/"([^"\n]*)__API_KEY__([^"\n]*)"/g, "`$1${apiKey}$2`")
+    .replace(/\n/g, `\n${indent}`);
+
+const tsFetchSnippet = (input: SnippetInput) => {
+  const { url, headers, body } = buildTemplateRequest(input);
+  const variables = tsVariables(input.variables);
+  const env = apiKeyEnv(input.adapter);
+  const isAnthropic = input.adapter.id === "anthropic";
+
+  return `${tsPromptConstants(input.messages)}
+
+${variables.type}export async function runPrompt(
+${variables.param}  apiKey = process.env.${env} ?? "",
+): Promise<string> {
+${variables.fill}
+
+  const response = await fetch(${JSON.stringify(url)}, {
+    method: "POST",
+    headers: ${tsExpression(headers, "    ")},
+    body: JSON.stringify(${tsExpression(body, "    ")}),
+  });
+  if (!response.ok) {
+    throw new Error(\`${input.adapter.label} request failed (\${response.status}): \${await response.text()}\`);
+  }
+
+  const data = await response.json();
+  return ${
+    isAnthropic
+      ? `data.content
+    .filter((block: { type: string }) => block.type === "text")
+    .map((block: { text: string }) => block.text)
+    .join("")`
+      : "data.choices[0].message.content"
+  };
+}
+`;
+};
+
+/** SDK base URLs where they differ from the adapter's; Anthropic serves an OpenAI-compatible API. */
+const sdkBaseUrls: Record<string, string> = {
+  anthropic: "https://api.anthropic.com/v1/",
+  openrouter: "https://openrouter.ai/api/v1",
+};
+
+const tsOpenAISnippet = (input: SnippetInput) => {
+  const { adapter } = input;
+  const { baseUrl } = buildTemplateRequest(input);
+  const sdkBaseUrl = adapter.id === "openai" ? undefined : (sdkBaseUrls[adapter.id] ?? baseUrl);
+  const variables = tsVariables(input.variables);
+  const env = apiKeyEnv(adapter);
+  const messages = input.messages
+    .map((message, index) => `      { role: "${message.role}", content: fill(PROMPT_${index}) },`)
+    .join("\n");
+
+  const client =
+    adapter.id === "azure-openai"
+      ? `new AzureOpenAI({
+    apiKey,
+    endpoint: ${JSON.stringify(baseUrl)},
+    apiVersion: ${JSON.stringify(input.apiVersion || adapter.defaults?.apiVersion)},
+    deployment: ${JSON.stringify(input.model)},
+  })`
+      : `new OpenAI({ apiKey${sdkBaseUrl ? `, baseURL: ${JSON.stringify(sdkBaseUrl)}` : ""} })`;
+
+  return `import ${adapter.id === "azure-openai" ? "{ AzureOpenAI }" : "OpenAI"} from "openai";
+
+${tsPromptConstants(input.messages)}
+
+${variables.type}export async function runPrompt(
+${variables.param}  apiKey = process.env.${env} ?? "",
+): Promise<string> {
+${variables.fill}
+
+  const client = ${client};
+  const completion = await client.chat.completions.create({
+    model: ${JSON.stringify(input.model)},
+    temperature: ${input.temperature},
+    messages: [
+${messages}
+    ],
+  });
+  return completion.choices[0]?.message?.content ?? "";
+}
+`;
+};
+
+const pyLiteral = (value: unknown, indent = ""): string => {
+  if (value === null || value === undefined) return "None";
+  if (typeof value === "boolean") return value ? "True" : "False";
+  if (typeof value === "number") return String(value);
+  if (typeof value === "string") {
+    const prompt = value.match(/^__PROMPT_(\d+)__$/);
+    if (prompt) return `fill(PROMPT_${prompt[1]})`;
+    if (value.includes(API_KEY_SENTINEL))
+      return `f${JSON.stringify(value).replace(API_KEY_SENTINEL, "{api_key}")}`;
+    return JSON.stringify(value);
+  }
+  const inner = `${indent}    `;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((item) => `${inner}${pyLiteral(item, inner)},`).join("\n")}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pyLiteral(item, inner)},`).join("\n")}\n${indent}}`;
+};
+
+const pyType = (variable: VariableDefinition) => {
+  switch (variable.type) {
+    case "number":
+      return "float";
+    case "boolean":
+      return "bool";
+    case "json":
+      return "Any";
+    case "enum":
+      return variable.constraints?.options?.length
+        ? `Literal[${variable.constraints.options.map((option) => JSON.stringify(option)).join(", ")}]`
+        : "str";
+    default:
+      return "str";
+  }
+};
+
+const pythonSnippet = (input: SnippetInput) => {
+  const { url, headers, body } = buildTemplateRequest(input);
+  const declared = declaredVariables(input.variables);
+  const env = apiKeyEnv(input.adapter);
+  const isAnthropic = input.adapter.id === "anthropic";
+
+  // Parameters without a value to fall back on come first, as Python requires.
+  const params = [
+    ...declared
+      .filter((variable) => variable.required && defaultLiteral(variable) === undefined)
+      .map((variable) => `${snakeCase(variable.name)}: ${pyType(variable)}`),
+    ...declared
+      .filter((variable) => !(variable.required && defaultLiteral(variable) === undefined))
+      .map((variable) => {
+        const literal = defaultLiteral(variable);
+        return literal === undefined
+          ? `${snakeCase(variable.name)}: Optional[${pyType(variable)}] = None`
+          : `${snakeCase(variable.name)}: ${pyType(variable)} = ${pyLiteral(literal)}`;
+      }),
+    `api_key: Optional[str] = None`,
+  ];
+  const values = declared.map((variable) => {
+    const name = snakeCase(variable.name);
+    const convert =
+      variable.type === "json"
+        ? `json.dumps(${name})`
+        : variable.type === "boolean"
+          ? `("true" if ${name} else "false")`
+          : `str(${name})`;
+    return `        ${JSON.stringify(variable.name)}: None if ${name} is None else ${convert},`;
+  });
+  const typing = [
+    declared.some((variable) => variable.type === "json") && "Any",
+    declared.some((variable) => variable.type === "enum" && variable.constraints?.options?.length) &&
+      "Literal",
+    "Optional",
+  ].filter(Boolean);
+
+  return `import json
+import os
+import re
+from typing import ${typing.join(", ")}
+
+import requests
+
+${input.messages.map((message, index) => `PROMPT_${index} = ${JSON.stringify(message.content)}`).join("\n")}
+
+
+def run_prompt(
+${params.map((param) => `    ${param},`).join("\n")}
+) -> str:
+    api_key = api_key or os.environ[${JSON.stringify(env)}]
+    values = {
+${values.join("\n")}
+    }
+
+    def fill(text: str) -> str:
+        return re.sub(
+            r"\\{\\{\\s*([A-Za-z0-9_]+)\\s*\\}\\}",
+            lambda match: values.get(match.group(1)) or match.group(0),
+            text,
+        )
+
+    response = requests.post(
+        ${JSON.stringify(url)},
+        headers=${pyLiteral(headers, "        ")},
+        json=${pyLiteral(body, "        ")},
+        timeout=120,
+    )
+    response.raise_for_status()
+    data = response.json()
+    return ${
+      isAnthropic
+        ? `"".join(block["text"] for block in data["content"] if block["type"] == "text")`
+        : `data["choices"][0]["message"]["content"]`
+    }
+`;
+};
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const curlSnippet = (input: SnippetInput) => {
+  const { url, headers, body } = buildTemplateRequest(input);
+  const declared = declaredVariables(input.variables);
+  const env = apiKeyEnv(input.adapter);
+  const bodyWithPrompts = JSON.parse(
+    JSON.stringify(body).replace(/"__PROMPT_(\d+)__"/g, (_, index: string) =>
+      JSON.stringify(input.messages[Number(index)]?.content ?? ""),
+    ),
+  ) as unknown;
+
+  const assignments = declared.map((variable) => {
+    const literal = defaultLiteral(variable);
+    const fallback =
+      literal === undefined ? "" : typeof literal === "string" ? literal : JSON.stringify(literal);
+    const comment = variable.description ? `  # ${variable.description.replace(/[\r\n]+/g, " ")}` : "";
+    if (variable.required && literal === undefined) {
+      return `: "\${${variable.name}:?Set ${variable.name}}"${comment}`;
+    }
+    // Single-quoted, the default stays literal whatever quotes, `$`, backticks or newlines it holds.
+    return fallback
+      ? `[ -n "\${${variable.name}:-}" ] || ${variable.name}=${shellQuote(fallback)}${comment}`
+      : `${variable.name}="\${${variable.name}:-}"${comment}`;
+  });
+  const jqArgs = declared.map((variable) => `--arg ${variable.name} "$${variable.name}"`).join(" ");
+  const jqFilter = declared.length
+    ? `walk(if type == "string" then ${declared
+        .map((variable) => `gsub("\\\\{\\\\{\\\\s*${variable.name}\\\\s*\\\\}\\\\}"; $${variable.name})`)
+        .join(" | ")} else . end)`
+    : ".";
+  const headerFlags = Object.entries(headers)
+    .map(
+      ([name, value]) =>
+        `  -H ${value.includes(API_KEY_SENTINEL) ? `"${name}: ${value.replace(API_KEY_SENTINEL, `$${env}`)}"` : shellQuote(`${name}: ${value}`)} \\`,
+    )
+    .join("\n");
+
+  return `#!/usr/bin/env bash
+# Requires curl and jq 1.6+. Export ${env} first.
+set -euo pipefail
+${assignments.length ? `\n${assignments.join("\n")}\n` : ""}
+BODY=$(jq ${jqArgs ? `${jqArgs} ` : ""}${shellQuote(jqFilter)} <<'JSON'
+${JSON.stringify(bodyWithPrompts, null, 2)}
+JSON
+)
+
+curl -sS ${shellQuote(url)} \\
+${headerFlags}
+  -d "$BODY"
+`;
+};
+
+export const generateSnippet = (language: SnippetLanguage, input: SnippetInput) => {
+  switch (language) {
+    case "ts-fetch":
+      return tsFetchSnippet(input);
+    case "ts-openai":
+      return tsOpenAISnippet(input);
+    case "python":
+      return pythonSnippet(input);
+    case "curl":
+      return curlSnippet(input);
+  }
+};
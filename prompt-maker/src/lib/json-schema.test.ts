@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseJsonSchema, validateJsonSchema, type JsonSchema } from "@/lib/json-schema";
+
+describe("validateJsonSchema", () => {
+  it("checks types, with integer as a stricter number", () => {
+    assert.deepEqual(validateJsonSchema(1.5, { type: "integer" }), ["$: expected integer, received number."]);
+    assert.deepEqual(validateJsonSchema(null, { type: ["string", "null"] }), []);
+    assert.deepEqual(validateJsonSchema([], { type: "object" }), ["$: expected object, received array."]);
+  });
+
+  it("checks enum, const and string and number bounds", () => {
+    assert.deepEqual(validateJsonSchema("c", { enum: ["a", "b"] }), ['$: must be one of "a", "b".']);
+    assert.deepEqual(validateJsonSchema({ a: 1 }, { const: { a: 1 } }), []);
+    assert.deepEqual(validateJsonSchema("ab", { minLength: 3, pattern: "^b" }), [
+      "$: must be at least 3 characters.",
+      "$: must match /^b/.",
+    ]);
+    assert.deepEqual(validateJsonSchema(11, { minimum: 0, maximum: 10 }), ["$: must be ≤ 10."]);
+  });
+
+  it("reports nested violations with their path", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      required: ["items", "id"],
+      additionalProperties: false,
+      properties: {
+        items: {
+          type: "array",
+          maxItems: 2,
+          items: { type: "object", properties: { "unit price": { type: "number" } } },
+        },
+      },
+    };
+    assert.deepEqual(validateJsonSchema({ items: [{ "unit price": "1" }, {}, {}], extra: true }, schema), [
+      "$.id: is required.",
+      "$.items: must contain at most 2 items.",
+      '$.items[0]["unit price"]: expected number, received string.',
+      "$.extra: is not allowed.",
+    ]);
+  });
+
+  it("validates extra properties against an additionalProperties schema", () => {
+    assert.deepEqual(validateJsonSchema({ a: 1, b: "x" }, { additionalProperties: { type: "number" } }), [
+      "$.b: expected number, received string.",
+    ]);
+  });
+});
+
+describe("parseJsonSchema", () => {
+  it("accepts JSON objects only", () => {
+    assert.deepEqual(parseJsonSchema('{"type":"string"}'), { schema: { type: "string" } });
+    assert.deepEqual(parseJsonSchema("[]"), { error: "Schema must be a JSON object." });
+    assert.match((parseJsonSchema("{") as { error: string }).error, /^Schema is not valid JSON/);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * The JSON Schema subset supported for JSON-typed variables: `type`, `enum`, `const`, object
+ * `properties`/`required`/`additionalProperties`, array `items`/`minItems`/`maxItems`, and the
+ * string and number bounds. Unsupported keywords are ignored rather than rejected.
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+};
+
+type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): JsonSchemaType =>
+  value === null
+    ? "null"
+    : Array.isArray(value)
+      ? "array"
+      : typeof value === "number"
+        ? "number"
+        : (typeof value as JsonSchemaType);
+
+const matchesType = (value: unknown, type: JsonSchemaType) =>
+  type === "integer" ? Number.isInteger(value) : typeOf(value) === type;
+
+const childPath = (path: string, key: string | number) => {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}["${key}"]`;
+};
+
+const matchesPattern = (pattern: string, value: string) => {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    // An invalid pattern is reported when the schema is edited, not on every value.
+    return true;
+  }
+};
+
+/** Parses schema text; returns an error message when it is not a JSON object. */
+export const parseJsonSchema = (text: string): { schema: JsonSchema } | { error: string } => {
+  try {
+    const schema: unknown = JSON.parse(text);
+    return isObject(schema) ? { schema: schema as JsonSchema } : { error: "Schema must be a JSON object." };
+  } catch (error) {
+    return { error: `Schema is not valid JSON: ${(error as Error).message}` };
+  }
+};
+
+/** Returns one message per violation, each prefixed with the JSONPath of the offending value. */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema, path = "$"): string[] => {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, received ${typeOf(value)}.`];
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}.`);
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}.`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters.`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters.`);
+    }
+    if (schema.pattern !== undefined && !matchesPattern(schema.pattern, value)) {
+      errors.push(`${path}: must match /${schema.pattern}/.`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be ≥ ${schema.minimum}.`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be ≤ ${schema.maximum}.`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must contain at least ${schema.minItems} items.`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must contain at most ${schema.maxItems} items.`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, childPath(path, index))));
+    }
+  }
+
+  if (isObject(value)) {
+    schema.required?.forEach((key) => {
+      if (!(key in value)) errors.push(`${childPath(path, key)}: is required.`);
+    });
+    Object.entries(value).forEach(([key, entry]) => {
+      const property = schema.properties?.[key];
+      if (property) {
+        errors.push(...validateJsonSchema(entry, property, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath(path, key)}: is not allowed.`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(entry, schema.additionalProperties, childPath(path, key)));
+      }
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseJudgeVerdict, type JudgeRubric } from "@/lib/judge";
+
+const rubric: JudgeRubric = { criteria: ["Mentions the order id", "Stays polite"], strategy: "" };
+
+describe("parseJudgeVerdict", () => {
+  it("matches scores to the rubric by position and scales the mean to 0–100", () => {
+    const content = [
+      "Here is my verdict:",
+      "```json",
+      JSON.stringify({
+        scores: [
+          { criterion: "Order id mentioned", score: 5, justification: " Quotes #42. " },
+          { criterion: "Polite", score: "3" },
+        ],
+        summary: "Good enough.",
+      }),
+      "```",
+    ].join("\n");
+
+    const verdict = parseJudgeVerdict(content, rubric, "gpt-4o-mini");
+    assert.ok(verdict);
+    assert.deepEqual(verdict.scores, [
+      { criterion: "Mentions the order id", score: 5, justification: "Quotes #42." },
+      { criterion: "Stays polite", score: 3, justification: "" },
+    ]);
+    assert.equal(verdict.overall, 75);
+    assert.equal(verdict.summary, "Good enough.");
+    assert.equal(verdict.judgeModel, "gpt-4o-mini");
+  });
+
+  it("rejects verdicts with a missing or out-of-range score", () => {
+    const verdict = (scores: unknown[]) => parseJudgeVerdict(JSON.stringify({ scores }), rubric, "m");
+    assert.equal(verdict([{ score: 5 }]), undefined);
+    assert.equal(verdict([{ score: 5 }, { score: 0 }]), undefined);
+    assert.equal(verdict([{ score: 5 }, { score: 6 }]), undefined);
+    assert.equal(verdict([{ score: 5 }, { score: "high" }]), undefined);
+    assert.equal(verdict([{ score: 1 }, { score: 1 }])?.overall, 0);
+  });
+
+  it("rejects output that has no scores list", () => {
+    assert.equal(parseJudgeVerdict(undefined, rubric, "m"), undefined);
+    assert.equal(parseJudgeVerdict("I would give it a 4.", rubric, "m"), undefined);
+    assert.equal(parseJudgeVerdict('{"scores": "5, 3"}', rubric, "m"), undefined);
+  });
+});
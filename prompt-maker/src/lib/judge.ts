@@ -0,0 +1,100 @@
+import type { PromptState } from "@/lib/prompt-types";
+import type { ChatMessage } from "@/lib/providers";
+import { extractJsonObject } from "@/lib/structured-output";
+
+export const JUDGE_MAX_SCORE = 5;
+
+export type JudgeRubric = {
+  /** One criterion per line of Success Criteria. */
+  criteria: string[];
+  /** The Self-Evaluation Strategy, passed to the judge as grading instructions. */
+  strategy: string;
+};
+
+export type JudgeScore = {
+  criterion: string;
+  /** 1 to `JUDGE_MAX_SCORE`. */
+  score: number;
+  justification: string;
+};
+
+export type JudgeVerdict = {
+  scores: JudgeScore[];
+  /** Mean criterion score scaled to 0–100, comparable with the Quality Radar total. */
+  overall: number;
+  summary: string;
+  judgeModel: string;
+  judgedAt: string;
+};
+
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+export const buildJudgeRubric = (state: PromptState): JudgeRubric => ({
+  criteria: state.successCriteria
+    .split("\n")
+    .map((line) => line.replace(LIST_MARKER, "").trim())
+    .filter(Boolean),
+  strategy: state.evaluationStrategy.trim(),
+});
+
+export const JUDGE_OUTPUT_INSTRUCTIONS = `Respond with a single JSON object and nothing else:
+{
+  "scores": [{ "criterion": "string – copied verbatim from the rubric", "score": 1-${JUDGE_MAX_SCORE}, "justification": "string – cite the output" }],
+  "summary": "string – one or two sentences on overall quality"
+}
+Score every criterion, in rubric order. ${JUDGE_MAX_SCORE} means fully met, 1 means not met at all.`;
+
+export const buildJudgeMessages = (rubric: JudgeRubric, prompt: ChatMessage[], output: string): ChatMessage[] => [
+  {
+    role: "system",
+    content: [
+      "You are a strict, impartial evaluator of model outputs. Judge only the output against the rubric; do not reward length or confident tone.",
+      rubric.strategy && `Evaluation strategy from the prompt author:\n${rubric.strategy}`,
+      JUDGE_OUTPUT_INSTRUCTIONS,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+  },
+  {
+    role: "user",
+    content: [
+      `RUBRIC:\n${rubric.criteria.map((criterion, index) => `${index + 1}. ${criterion}`).join("\n")}`,
+      `PROMPT THE MODEL RECEIVED:\n${prompt.map((message) => `[${message.role}]\n${message.content}`).join("\n\n")}`,
+      `OUTPUT TO JUDGE:\n${output}`,
+    ].join("\n\n"),
+  },
+];
+
+/**
+ * Validates the judge's JSON against the rubric. Scores are matched by position, since judges
+ * paraphrase criteria; missing or out-of-range scores make the verdict unusable.
+ */
+export const parseJudgeVerdict = (
+  content: string | undefined,
+  rubric: JudgeRubric,
+  judgeModel: string,
+): JudgeVerdict | undefined => {
+  const data = extractJsonObject(content);
+  if (!data || !Array.isArray(data.scores)) return undefined;
+
+  const scores: JudgeScore[] = [];
+  for (const [index, criterion] of rubric.criteria.entries()) {
+    const entry = data.scores[index] as Record<string, unknown> | undefined;
+    const score = Number(entry?.score);
+    if (!Number.isFinite(score) || score < 1 || score > JUDGE_MAX_SCORE) return undefined;
+    scores.push({
+      criterion,
+      score: Math.round(score),
+      justification: typeof entry?.justification === "string" ? entry.justification.trim() : "",
+    });
+  }
+
+  const mean = scores.reduce((total, entry) => total + entry.score, 0) / Math.max(1, scores.length);
+  return {
+    scores,
+    overall: Math.round(((mean - 1) / (JUDGE_MAX_SCORE - 1)) * 100),
+    summary: typeof data.summary === "string" ? data.summary.trim() : "",
+    judgeModel,
+    judgedAt: new Date().toISOString(),
+  };
+};
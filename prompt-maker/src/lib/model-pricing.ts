@@ -0,0 +1,90 @@
+import { createId, readStorage, writeStorage } from "@/lib/prompt-library";
+
+export type ModelPrice = {
+  id: string;
+  /** Model id prefix, e.g. `gpt-4o-mini`; the longest matching prefix wins. */
+  match: string;
+  /** USD per million input tokens. */
+  inputPerMillion: number;
+  /** USD per million output tokens. */
+  outputPerMillion: number;
+  contextWindow: number;
+};
+
+const PRICE_TABLE_STORAGE_KEY = "prompt-maker:prices";
+
+/** Share of the context window at which the studio starts warning. */
+export const CONTEXT_WARNING_RATIO = 0.8;
+
+const price = (match: string, inputPerMillion: number, outputPerMillion: number, contextWindow: number) => ({
+  id: match,
+  match,
+  inputPerMillion,
+  outputPerMillion,
+  contextWindow,
+});
+
+/** List prices at the time of writing; users edit the table when providers change them. */
+export const defaultPriceTable: ModelPrice[] = [
+  price("gpt-4o-mini", 0.15, 0.6, 128_000),
+  price("gpt-4o", 2.5, 10, 128_000),
+  price("gpt-4.1-nano", 0.1, 0.4, 1_047_576),
+  price("gpt-4.1-mini", 0.4, 1.6, 1_047_576),
+  price("gpt-4.1", 2, 8, 1_047_576),
+  price("o3-mini", 1.1, 4.4, 200_000),
+  price("o1", 15, 60, 200_000),
+  price("gpt-4-turbo", 10, 30, 128_000),
+  price("gpt-4", 30, 60, 8_192),
+  price("gpt-3.5-turbo", 0.5, 1.5, 16_385),
+  price("claude-3-5-haiku", 0.8, 4, 200_000),
+  price("claude-3-haiku", 0.25, 1.25, 200_000),
+  price("claude-3-5-sonnet", 3, 15, 200_000),
+  price("claude-3-7-sonnet", 3, 15, 200_000),
+  price("claude-sonnet-4", 3, 15, 200_000),
+  price("claude-3-opus", 15, 75, 200_000),
+  price("claude-opus-4", 15, 75, 200_000),
+];
+
+const isModelPrice = (value: unknown): value is ModelPrice => {
+  const entry = value as ModelPrice;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    typeof entry.id === "string" &&
+    typeof entry.match === "string" &&
+    [entry.inputPerMillion, entry.outputPerMillion, entry.contextWindow].every(
+      (number) => typeof number === "number" && Number.isFinite(number) && number >= 0,
+    )
+  );
+};
+
+export const loadPriceTable = (): ModelPrice[] => {
+  const stored = readStorage<unknown>(PRICE_TABLE_STORAGE_KEY);
+  return Array.isArray(stored) ? stored.filter(isModelPrice) : defaultPriceTable;
+};
+
+export const persistPriceTable = (table: ModelPrice[]) => writeStorage(PRICE_TABLE_STORAGE_KEY, table);
+
+export const createModelPrice = (match = ""): ModelPrice => ({
+  id: createId(),
+  match,
+  inputPerMillion: 0,
+  outputPerMillion: 0,
+  contextWindow: 128_000,
+});
+
+/** Entry for a model id; OpenRouter-style `vendor/model` ids match on the model part too. */
+export const findModelPrice = (table: ModelPrice[], model: string) => {
+  const id = model.trim().toLowerCase();
+  const bare = id.split("/").pop() ?? id;
+  return table
+    .filter((entry) => {
+      const match = entry.match.trim().toLowerCase();
+      return match && (id.startsWith(match) || bare.startsWith(match));
+    })
+    .sort((a, b) => b.match.trim().length - a.match.trim().length)[0];
+};
+
+/** Cost of one call in USD: the prompt as input plus the expected completion length as output. */
+export const estimateCallCost = (entry: ModelPrice, inputTokens: number, outputTokens: number) =>
+  (inputTokens * entry.inputPerMillion + outputTokens * entry.outputPerMillion) / 1_000_000;
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  buildStageMessages,
+  canRunAsChain,
+  reusableStageCount,
+  type ChainStageResult,
+} from "@/lib/prompt-chain";
+import { validatePromptState } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+
+const label = (key: string) => key;
+
+const sampleState = (): PromptState => {
+  const result = validatePromptState({
+    coreObjective: "Answer refund requests.",
+    workflow: [
+      { id: "a", title: "Read", instruction: "Read the ticket", expectedOutput: "" },
+      { id: "blank", title: "", instruction: "", expectedOutput: "" },
+      { id: "b", title: "Reply", instruction: "Write the reply", expectedOutput: "" },
+    ],
+  });
+  assert.ok(result.ok);
+  return result.value;
+};
+
+/** Results as a completed run of `state` would have left them. */
+const completedRun = (state: PromptState): ChainStageResult[] => {
+  const stages = state.workflow.filter((stage) => stage.id !== "blank");
+  return stages.reduce<ChainStageResult[]>((results, stage, index) => {
+    const messages = buildStageMessages(
+      state,
+      stage,
+      { index, count: stages.length },
+      results[index - 1]?.output,
+      label,
+    );
+    return [...results, { stageId: stage.id, title: stage.title, messages, output: `output ${index + 1}` }];
+  }, []);
+};
+
+describe("reusableStageCount", () => {
+  it("reuses every result of an unchanged prompt, skipping blank stages", () => {
+    const state = sampleState();
+    assert.equal(reusableStageCount(state, completedRun(state), label), 2);
+  });
+
+  it("stops at a stage without an output or whose stage moved", () => {
+    const state = sampleState();
+    const results = completedRun(state);
+    assert.equal(reusableStageCount(state, [results[0], { ...results[1], output: undefined }], label), 1);
+    assert.equal(reusableStageCount(state, [results[1], results[0]], label), 0);
+  });
+
+  it("treats results as stale once the messages a stage would send change", () => {
+    const state = sampleState();
+    const results = completedRun(state);
+
+    const editedStage = structuredClone(state);
+    editedStage.workflow[2].instruction = "Write a short reply";
+    assert.equal(reusableStageCount(editedStage, results, label), 1);
+
+    const editedPrompt = { ...state, coreObjective: "Answer refund and exchange requests." };
+    assert.equal(reusableStageCount(editedPrompt, results, label), 0);
+
+    const changedOutput = [{ ...results[0], output: "a different first output" }, results[1]];
+    assert.equal(reusableStageCount(state, changedOutput, label), 1);
+  });
+});
+
+describe("canRunAsChain", () => {
+  const withStages = (workflow: unknown[]) => {
+    const result = validatePromptState({ coreObjective: "Answer refund requests.", workflow });
+    assert.ok(result.ok);
+    return result.value;
+  };
+
+  it("runs flat workflows as a chain", () => {
+    assert.equal(canRunAsChain(sampleState()), true);
+  });
+
+  it("refuses workflows with routes or a final stage", () => {
+    const reply = { id: "b", title: "Reply", instruction: "Write the reply" };
+    assert.equal(canRunAsChain(withStages([{ id: "a", title: "Read", terminal: true }, reply])), false);
+    assert.equal(
+      canRunAsChain(
+        withStages([{ id: "a", title: "Read", next: [{ id: "r", to: "b", condition: "refund" }] }, reply]),
+      ),
+      false,
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { executePromptRun, type RunRequest } from "@/lib/prompt-runs";
+import { compileMessages, type SectionLabeler } from "@/lib/prompt-targets";
+import { buildRubricMessages, parseRubricVerdict } from "@/lib/prompt-tests";
+import type { PromptState, WorkflowStage } from "@/lib/prompt-types";
+import type { ChatMessage, TokenUsage } from "@/lib/providers";
+import { isBlankStage, isBranchingWorkflow } from "@/lib/workflow-graph";
+
+export type StageCheck = {
+  passed: boolean;
+  message: string;
+};
+
+export type ChainStageResult = {
+  stageId: string;
+  title: string;
+  /** Exactly what the stage's model call received. */
+  messages: ChatMessage[];
+  output?: string;
+  error?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  /** Output graded against the stage's `expectedOutput`; absent when the stage has none. */
+  check?: StageCheck;
+};
+
+export type ChainRunOptions = {
+  /** The rendered prompt; its workflow supplies the stages. */
+  state: PromptState;
+  label: SectionLabeler;
+  request: Omit<RunRequest, "messages">;
+  signal?: AbortSignal;
+  onProgress?: (results: ChainStageResult[]) => void;
+};
+
+/** Stages with something to do; blank starter rows are skipped. */
+export const chainStages = (state: PromptState) => state.workflow.filter((stage) => !isBlankStage(stage));
+
+/**
+ * A chain runs the stages in list order, so it cannot follow conditional routes or stop at a final
+ * stage. Branching workflows run as a single call, where the model follows the routes itself.
+ */
+export const canRunAsChain = (state: PromptState) => !isBranchingWorkflow(chainStages(state));
+
+/**
+ * One stage as its own call: the prompt without its workflow as context, then this stage's
+ * instruction and the previous stage's output.
+ */
+export const buildStageMessages = (
+  state: PromptState,
+  stage: WorkflowStage,
+  position: { index: number; count: number },
+  previousOutput: string | undefined,
+  label: SectionLabeler,
+): ChatMessage[] => {
+  const context = compileMessages({ ...state, workflow: [] }, label);
+  const task = [
+    `STAGE ${position.index + 1} OF ${position.count}${stage.title.trim() ? `: ${stage.title.trim()}` : ""}`,
+    stage.instruction.trim() && `Instruction:\n${stage.instruction.trim()}`,
+    stage.expectedOutput.trim() && `Expected output:\n${stage.expectedOutput.trim()}`,
+    previousOutput !== undefined && `Output of the previous stage:\n${previousOutput}`,
+    "Complete only this stage.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  // Fold into the task message so providers that require alternating roles accept it.
+  const last = context[context.length - 1];
+  return last?.role === "user"
+    ? [...context.slice(0, -1), { role: "user", content: `${last.content}\n\n${task}` }]
+    : [...context, { role: "user", content: task }];
+};
+
+const checkStage = async (
+  stage: WorkflowStage,
+  output: string,
+  options: ChainRunOptions,
+): Promise<StageCheck | undefined> => {
+  if (!stage.expectedOutput.trim()) return undefined;
+  const graded = await executePromptRun(
+    {
+      ...options.request,
+      temperature: 0,
+      messages: buildRubricMessages(`The output must be: ${stage.expectedOutput.trim()}`, output),
+    },
+    options.signal,
+  );
+  const verdict = parseRubricVerdict(graded.content);
+  return {
+    passed: verdict?.pass ?? false,
+    message: graded.error ?? verdict?.reason ?? "The grader did not return a verdict.",
+  };
+};
+
+const sameMessages = (a: ChatMessage[], b: ChatMessage[]) =>
+  a.length === b.length &&
+  a.every((message, index) => message.role === b[index].role && message.content === b[index].content);
+
+/**
+ * How many leading results can be reused: each must belong to the stage now at its index, have an
+ * output, and have been sent exactly the messages the stage would send now. Editing the prompt,
+ * a stage, or the stages before it invalidates everything from the first mismatch on.
+ */
+export const reusableStageCount = (
+  state: PromptState,
+  results: ChainStageResult[],
+  label: SectionLabeler,
+) => {
+  const stages = chainStages(state);
+  const stale = stages.findIndex((stage, index) => {
+    const result = results[index];
+    if (result?.stageId !== stage.id || result.output === undefined) return true;
+    const messages = buildStageMessages(
+      state,
+      stage,
+      { index, count: stages.length },
+      results[index - 1]?.output,
+      label,
+    );
+    return !sameMessages(result.messages, messages);
+  });
+  return stale === -1 ? stages.length : stale;
+};
+
+/**
+ * Runs the stages in order, feeding each output into the next call. Starting at `fromIndex`
+ * reuses the earlier results as-is, so one stage can be re-run without paying for the rest;
+ * it starts earlier when those results no longer match the stages.
+ * Stops at the first stage whose call fails; failed checks are reported but do not stop it.
+ */
+export const runPromptChain = async (
+  options: ChainRunOptions,
+  previous: ChainStageResult[] = [],
+  fromIndex = 0,
+): Promise<ChainStageResult[]> => {
+  const stages = chainStages(options.state);
+  const start = Math.min(fromIndex, reusableStageCount(options.state, previous, options.label));
+  const results = previous.slice(0, start);
+
+  for (let index = start; index < stages.length; index += 1) {
+    const stage = stages[index];
+    const messages = buildStageMessages(
+      options.state,
+      stage,
+      { index, count: stages.length },
+      results[index - 1]?.output,
+      options.label,
+    );
+    const response = await executePromptRun({ ...options.request, messages }, options.signal);
+    const result: ChainStageResult = {
+      stageId: stage.id,
+      title: stage.title.trim() || `Stage ${index + 1}`,
+      messages,
+      output: response.error === undefined ? (response.content ?? "") : undefined,
+      error: response.error,
+      latencyMs: response.latencyMs,
+      usage: response.usage,
+    };
+    results.push(result);
+    options.onProgress?.([...results]);
+    if (result.output === undefined) break;
+
+    results[index] = { ...result, check: await checkStage(stage, result.output, options) };
+    options.onProgress?.([...results]);
+  }
+
+  return results;
+};
@@ -0,0 +1,75 @@
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** Group key of the last recorded action; consecutive actions sharing it collapse into one step. */
+  group?: string;
+  /** When the group last changed, so a pause in typing starts a new step. */
+  groupedAt?: number;
+};
+
+export type HistoryAction = { type: "undo" } | { type: "redo" } | { type: "clearHistory" };
+
+type HistoryOptions<A> = {
+  /** Returns a key for actions that should merge with an immediately preceding action of the same key. */
+  groupBy?: (action: A) => string | undefined;
+  /** Idle time in milliseconds after which an action of the same group starts a new step. */
+  groupWindow?: number;
+  limit?: number;
+};
+
+const HISTORY_ACTIONS = new Set(["undo", "redo", "clearHistory"]);
+
+const isHistoryAction = (action: { type: string }): action is HistoryAction =>
+  HISTORY_ACTIONS.has(action.type);
+
+export const createHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+export const withHistory = <T, A extends { type: string }>(
+  reducer: (state: T, action: A) => T,
+  { groupBy, groupWindow = 1000, limit = 100 }: HistoryOptions<A> = {},
+) => {
+  return (history: History<T>, action: A | HistoryAction): History<T> => {
+    if (isHistoryAction(action)) {
+      switch (action.type) {
+        case "undo": {
+          if (history.past.length === 0) return history;
+          const previous = history.past[history.past.length - 1];
+          return {
+            past: history.past.slice(0, -1),
+            present: previous,
+            future: [history.present, ...history.future],
+          };
+        }
+        case "redo": {
+          if (history.future.length === 0) return history;
+          const [next, ...future] = history.future;
+          return {
+            past: [...history.past, history.present],
+            present: next,
+            future,
+          };
+        }
+        case "clearHistory":
+          return createHistory(history.present);
+      }
+    }
+
+    const present = reducer(history.present, action as A);
+    if (present === history.present) return history;
+
+    const group = groupBy?.(action as A);
+    const now = Date.now();
+    if (group && group === history.group && now - (history.groupedAt ?? 0) < groupWindow) {
+      return { ...history, present, future: [], groupedAt: now };
+    }
+
+    return {
+      past: [...history.past, history.present].slice(-limit),
+      present,
+      future: [],
+      group,
+      groupedAt: now,
+    };
+  };
+};
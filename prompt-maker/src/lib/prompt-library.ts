@@ -0,0 +1,118 @@
+import { restorePromptState } from "@/lib/prompt-transfer";
+import type { PromptState } from "@/lib/prompt-types";
+import type { PromptVersion } from "@/lib/prompt-versions";
+
+export type SavedPrompt = {
+  id: string;
+  name: string;
+  state: PromptState;
+  /** Committed snapshots, newest first. */
+  versions: PromptVersion[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorkspaceAutosave = {
+  state: PromptState;
+  activePromptId?: string;
+  savedAt: string;
+};
+
+const LIBRARY_STORAGE_KEY = "prompt-maker:library";
+const AUTOSAVE_STORAGE_KEY = "prompt-maker:autosave";
+const LIBRARY_VERSION = 1;
+
+export const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const readStorage = <T>(key: string): T | undefined => {
+  if (typeof window === "undefined") return undefined;
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : undefined;
+  } catch (error) {
+    console.error(`Failed to read ${key} from storage`, error);
+    return undefined;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown) => {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to write ${key} to storage`, error);
+  }
+};
+
+/** The stored state, migrated and validated; entries that fail are dropped with a console note. */
+const readStoredState = (value: unknown, label: string): PromptState | undefined => {
+  const result = restorePromptState(value);
+  if (result.ok) return result.value;
+  console.warn(`Skipped ${label} from storage`, result.errors);
+  return undefined;
+};
+
+export const loadSavedPrompts = (): SavedPrompt[] => {
+  const stored = readStorage<{ version: number; prompts: SavedPrompt[] }>(LIBRARY_STORAGE_KEY);
+  if (!stored || !Array.isArray(stored.prompts)) return [];
+
+  return stored.prompts.flatMap((entry) => {
+    if (typeof entry?.id !== "string" || typeof entry.name !== "string") return [];
+    const state = readStoredState(entry.state, `saved prompt "${entry.name}"`);
+    if (!state) return [];
+    const versions = (Array.isArray(entry.versions) ? entry.versions : []).flatMap((version) => {
+      const versionState = readStoredState(version?.state, `a version of "${entry.name}"`);
+      return versionState ? [{ ...version, state: versionState }] : [];
+    });
+    return [{ ...entry, state, versions }];
+  });
+};
+
+export const persistSavedPrompts = (prompts: SavedPrompt[]) =>
+  writeStorage(LIBRARY_STORAGE_KEY, { version: LIBRARY_VERSION, prompts });
+
+export const loadWorkspaceAutosave = (): WorkspaceAutosave | undefined => {
+  const stored = readStorage<WorkspaceAutosave>(AUTOSAVE_STORAGE_KEY);
+  const state = stored && readStoredState(stored.state, "the autosaved workspace");
+  return stored && state ? { ...stored, state } : undefined;
+};
+
+export const createWorkspaceAutosave = (state: PromptState, activePromptId?: string): WorkspaceAutosave => ({
+  state,
+  activePromptId,
+  savedAt: new Date().toISOString(),
+});
+
+export const persistWorkspaceAutosave = (autosave: WorkspaceAutosave | undefined) => {
+  if (autosave) writeStorage(AUTOSAVE_STORAGE_KEY, autosave);
+};
+
+export const createSavedPrompt = (name: string, state: PromptState): SavedPrompt => {
+  const timestamp = new Date().toISOString();
+  return {
+    id: createId(),
+    name: name.trim() || "Untitled prompt",
+    state: structuredClone(state),
+    versions: [],
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+export const suggestPromptName = (state: PromptState, prompts: SavedPrompt[]) => {
+  const base = state.projectTitle.trim() || "Untitled prompt";
+  const taken = new Set(prompts.map((entry) => entry.name));
+  if (!taken.has(base)) return base;
+
+  let suffix = 2;
+  while (taken.has(`${base} (${suffix})`)) suffix += 1;
+  return `${base} (${suffix})`;
+};
+
+export const isSameState = (left: PromptState, right: PromptState) =>
+  JSON.stringify(left) === JSON.stringify(right);
@@ -0,0 +1,120 @@
+import { PROMPT_ARRAY_KEYS, PROMPT_TEXT_KEYS } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import { normalizeVariableName } from "@/lib/prompt-variables";
+
+export type LintLocation = {
+  section: keyof PromptState;
+  /** Workflow stage or variable id for list sections. */
+  entryId?: string;
+  field?: string;
+};
+
+export type VariableLintIssue = {
+  /** Stable key for rendering; unique within one lint run. */
+  id: string;
+  kind: "undeclared" | "unused" | "duplicate" | "malformed";
+  message: string;
+  location: LintLocation;
+  /** Variable name the "declare variable" fix would add. */
+  declare?: string;
+};
+
+const TOKEN_PATTERN = /\{\{([^{}\n]*)\}\}/g;
+const VALID_NAME = /^\s*([A-Z][A-Z0-9_]*)\s*$/;
+
+/** Every piece of text that may reference variables, with where it lives. */
+const collectFields = (state: PromptState): Array<{ text: string; location: LintLocation }> => [
+  ...PROMPT_TEXT_KEYS.map((key) => ({ text: state[key], location: { section: key } })),
+  ...PROMPT_ARRAY_KEYS.flatMap((key) =>
+    state[key].map((text, index) => ({ text, location: { section: key, field: String(index) } })),
+  ),
+  ...state.workflow.flatMap((stage) =>
+    (["title", "instruction", "expectedOutput"] as const).map((field) => ({
+      text: stage[field],
+      location: { section: "workflow" as const, entryId: stage.id, field },
+    })),
+  ),
+];
+
+const locationKey = ({ section, entryId, field }: LintLocation) => [section, entryId, field].filter(Boolean).join(":");
+
+/**
+ * Cross-checks `{{PLACEHOLDER}}` tokens against declared variables: undeclared placeholders,
+ * variables nothing references, duplicate names, and tokens the renderer will never substitute.
+ */
+export const lintPromptVariables = (state: PromptState): VariableLintIssue[] => {
+  const issues: VariableLintIssue[] = [];
+  const declared = new Set(state.variables.map((variable) => variable.name).filter(Boolean));
+  const used = new Set<string>();
+
+  collectFields(state).forEach(({ text, location }) => {
+    if (!text) return;
+    const key = locationKey(location);
+    const reported = new Set<string>();
+    const report = (issue: Omit<VariableLintIssue, "id" | "location">, token: string) => {
+      if (reported.has(token)) return;
+      reported.add(token);
+      issues.push({ ...issue, id: `${issue.kind}:${key}:${token}`, location });
+    };
+
+    for (const [token, inner] of text.matchAll(TOKEN_PATTERN)) {
+      const name = inner.match(VALID_NAME)?.[1];
+      if (!name) {
+        const suggestion = normalizeVariableName(inner.trim());
+        report(
+          {
+            kind: "malformed",
+            message: suggestion
+              ? `${token} is not a valid placeholder; use {{${suggestion}}}.`
+              : `${token} is an empty placeholder.`,
+          },
+          token,
+        );
+        continue;
+      }
+      used.add(name);
+      if (!declared.has(name)) {
+        report({ kind: "undeclared", message: `{{${name}}} is not a declared variable.`, declare: name }, name);
+      }
+    }
+
+    const remainder = text.replace(TOKEN_PATTERN, "");
+    if (remainder.includes("{{")) {
+      report({ kind: "malformed", message: "A {{ placeholder is never closed with }}." }, "{{");
+    }
+    if (remainder.includes("}}")) {
+      report({ kind: "malformed", message: "A }} closes a placeholder that was never opened." }, "}}");
+    }
+  });
+
+  const seen = new Set<string>();
+  state.variables.forEach((variable) => {
+    if (!variable.name) return;
+    const location: LintLocation = { section: "variables", entryId: variable.id };
+    if (seen.has(variable.name)) {
+      issues.push({
+        id: `duplicate:${variable.id}`,
+        kind: "duplicate",
+        message: `{{${variable.name}}} is declared more than once.`,
+        location,
+      });
+      return;
+    }
+    seen.add(variable.name);
+    if (!used.has(variable.name)) {
+      issues.push({
+        id: `unused:${variable.id}`,
+        kind: "unused",
+        message: `{{${variable.name}}} is declared but never used.`,
+        location,
+      });
+    }
+  });
+
+  return issues;
+};
+
+export const issuesAt = (issues: VariableLintIssue[], section: keyof PromptState, entryId?: string) =>
+  issues.filter(
+    (issue) => issue.location.section === section && (entryId === undefined || issue.location.entryId === entryId),
+  );
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { buildSectionProposal } from "@/lib/prompt-merge";
+import { validatePromptState } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import type { VariableDefinition } from "@/lib/prompt-variables";
+import type { WorkflowNode } from "@/lib/workflow-graph";
+
+const sampleState = (): PromptState => {
+  const result = validatePromptState({
+    coreObjective: "Answer refund requests.",
+    workflow: [
+      {
+        id: "read",
+        title: "Read",
+        instruction: "Read the ticket",
+        expectedOutput: "",
+        next: [{ id: "e1", to: "escalate", condition: "the order is missing" }],
+        position: { x: 10, y: 20 },
+      },
+      { id: "escalate", title: "Escalate", instruction: "Hand over", expectedOutput: "", terminal: true },
+    ],
+    variables: [
+      {
+        id: "v",
+        name: "PLAN",
+        description: "Plan tier",
+        type: "enum",
+        required: true,
+        defaultValue: "basic",
+        constraints: { options: ["basic", "pro"] },
+      },
+    ],
+  });
+  assert.ok(result.ok);
+  return result.value;
+};
+
+describe("buildSectionProposal", () => {
+  it("keeps typed variable fields the model did not write back", () => {
+    const current = sampleState();
+    const { state, fields, ignored } = buildSectionProposal(current, {
+      variables: [
+        { name: "plan", description: "The customer's plan" },
+        { name: "TOPIC", description: "New" },
+      ],
+    });
+
+    assert.deepEqual(fields, ["variables"]);
+    assert.deepEqual(ignored, []);
+    const [plan, topic] = state.variables as VariableDefinition[];
+    assert.deepEqual(plan, { ...current.variables[0], description: "The customer's plan" });
+    assert.equal(topic.type, "string");
+    assert.notEqual(topic.id, plan.id);
+  });
+
+  it("keeps routes, the terminal flag and the position of matching stages", () => {
+    const current = sampleState();
+    const { state } = buildSectionProposal(current, {
+      workflow: [
+        {
+          title: "Read carefully",
+          instruction: "Read the whole ticket",
+          expectedOutput: "Summary",
+          next: [],
+        },
+        { title: "Escalate", instruction: "Hand over to billing", expectedOutput: "", terminal: false },
+        { title: "Follow up", instruction: "Check back", expectedOutput: "" },
+      ],
+    });
+
+    const [read, escalate, followUp] = state.workflow as WorkflowNode[];
+    const [currentRead, currentEscalate] = current.workflow as WorkflowNode[];
+    assert.deepEqual(read, {
+      ...currentRead,
+      title: "Read carefully",
+      instruction: "Read the whole ticket",
+      expectedOutput: "Summary",
+    });
+    assert.deepEqual(escalate, { ...currentEscalate, instruction: "Hand over to billing" });
+    assert.equal(followUp.next, undefined);
+    assert.ok(![read.id, escalate.id].includes(followUp.id));
+  });
+
+  it("leaves fields with invalid output untouched and reports them", () => {
+    const current = sampleState();
+    const { state, fields, ignored } = buildSectionProposal(current, {
+      coreObjective: "Resolve refunds.",
+      variables: [{ name: "PLAN", type: "colour" }],
+      constructor: "x",
+    });
+
+    assert.deepEqual(fields, ["coreObjective"]);
+    assert.equal(state.coreObjective, "Resolve refunds.");
+    assert.deepEqual(state.variables, current.variables);
+    assert.deepEqual(
+      ignored.map((issue) => issue.path),
+      ["sections.variables[0].type", "sections.constructor"],
+    );
+  });
+});
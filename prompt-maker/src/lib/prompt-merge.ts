@@ -0,0 +1,143 @@
+import { isRecord, validatePromptState, type ValidationIssue } from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import { normalizeVariableName } from "@/lib/prompt-variables";
+import type { WorkflowNode } from "@/lib/workflow-graph";
+
+export type SectionHeading = {
+  key: keyof PromptState;
+  title: string;
+};
+
+/**
+ * Lays model entries over the current ones they match: stages by position, variables by name.
+ * The model only rewrites the text, so variable types, constraints and defaults survive, and a
+ * matched stage keeps its routes and canvas position. Ids stay stable so the review diff shows
+ * edits instead of delete-and-add pairs.
+ */
+const overlayEntries = (current: PromptState, key: string, value: unknown) => {
+  if (!Array.isArray(value)) return value;
+
+  if (key === "workflow") {
+    return value.map((entry, index) => {
+      const existing: WorkflowNode | undefined = current.workflow[index];
+      if (!isRecord(entry) || !existing) return entry;
+      const { next, terminal, position } = existing;
+      return { ...existing, ...entry, id: existing.id, next, terminal, position };
+    });
+  }
+
+  if (key === "variables") {
+    return value.map((entry) => {
+      if (!isRecord(entry) || typeof entry.name !== "string") return entry;
+      const name = normalizeVariableName(entry.name);
+      const existing = current.variables.find((variable) => variable.name === name);
+      return existing ? { ...existing, ...entry, id: existing.id } : entry;
+    });
+  }
+
+  return value;
+};
+
+/**
+ * Builds a candidate workspace from section-keyed model output. Each field is validated on its
+ * own so one malformed entry does not discard the rest; rejected fields keep their current value.
+ */
+export const buildSectionProposal = (
+  current: PromptState,
+  sections: unknown,
+): { state: PromptState; ignored: ValidationIssue[]; fields: Array<keyof PromptState> } => {
+  const ignored: ValidationIssue[] = [];
+  const fields: Array<keyof PromptState> = [];
+  const state: PromptState = structuredClone(current);
+
+  if (!isRecord(sections)) {
+    return { state, ignored: [{ path: "sections", message: "No section-keyed output to apply." }], fields };
+  }
+
+  Object.entries(sections).forEach(([key, value]) => {
+    // `in` would also accept inherited names such as `constructor` from model output.
+    if (!Object.prototype.hasOwnProperty.call(current, key)) {
+      ignored.push({ path: `sections.${key}`, message: "Not a workspace field." });
+      return;
+    }
+
+    const result = validatePromptState({ [key]: overlayEntries(current, key, value) }, "sections");
+    if (!result.ok) {
+      ignored.push(...result.errors);
+      return;
+    }
+
+    const field = key as keyof PromptState;
+    Object.assign(state, { [field]: result.value[field] });
+    fields.push(field);
+  });
+
+  return { state, ignored, fields };
+};
+
+const normalizeHeading = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Fallback for free-form refined prompts: splits markdown (`## Core Objective`) or label-style
+ * (`CORE OBJECTIVE:`) headings and maps them onto known sections by title or field name.
+ * Bulleted bodies become chip lists when the target field is a list.
+ */
+export const parseSectionedText = (text: string, headings: SectionHeading[], current: PromptState) => {
+  const lookup = new Map<string, keyof PromptState>();
+  headings.forEach(({ key, title }) => {
+    lookup.set(normalizeHeading(title), key);
+    lookup.set(normalizeHeading(key.replace(/([A-Z])/g, " $1")), key);
+  });
+
+  const sections: Record<string, unknown> = {};
+  let activeKey: keyof PromptState | undefined;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    if (!activeKey) return;
+    const body = buffer.join("\n").trim();
+    if (Array.isArray(current[activeKey])) {
+      sections[activeKey] = body
+        .split("\n")
+        .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+        .filter(Boolean);
+    } else if (typeof current[activeKey] === "string") {
+      sections[activeKey] = body;
+    }
+  };
+
+  text.split("\n").forEach((line) => {
+    const heading =
+      line.match(/^\s*#{1,6}\s+(.+?)\s*#*\s*$/)?.[1] ??
+      line.match(/^\s*\*\*(.+?)\*\*:?\s*$/)?.[1] ??
+      line.match(/^\s*([A-Z][A-Z /&-]{2,}):\s*$/)?.[1];
+    const key = heading ? lookup.get(normalizeHeading(heading)) : undefined;
+
+    if (key) {
+      flush();
+      activeKey = key;
+      buffer = [];
+    } else if (heading && activeKey) {
+      // An unrelated heading ends the current section.
+      flush();
+      activeKey = undefined;
+      buffer = [];
+    } else if (activeKey) {
+      buffer.push(line);
+    }
+  });
+  flush();
+
+  return sections;
+};
+
+/** Copies the chosen fields from `source` onto `target`. */
+export const pickFields = (target: PromptState, source: PromptState, keys: Array<keyof PromptState>): PromptState => {
+  const next = structuredClone(target);
+  keys.forEach((key) => Object.assign(next, { [key]: structuredClone(source[key]) }));
+  return next;
+};
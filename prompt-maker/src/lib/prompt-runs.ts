@@ -0,0 +1,150 @@
+import type { JudgeVerdict } from "@/lib/judge";
+import { createId, isSameState, readStorage, writeStorage } from "@/lib/prompt-library";
+import type { PromptState } from "@/lib/prompt-types";
+import type { PromptVersion } from "@/lib/prompt-versions";
+import type { ChatMessage, TokenUsage } from "@/lib/providers";
+
+export type RunRequest = {
+  messages: ChatMessage[];
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+export type RunResponse = {
+  content?: string;
+  usage?: TokenUsage;
+  latencyMs?: number;
+  error?: string;
+};
+
+export type PromptRun = {
+  id: string;
+  createdAt: string;
+  promptId?: string;
+  promptName: string;
+  /** Committed version whose state matched the workspace; absent for uncommitted drafts. */
+  versionId?: string;
+  versionLabel: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  messages: ChatMessage[];
+  /** Variable values substituted into the prompt, by name. */
+  values: Record<string, string>;
+  output?: string;
+  error?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  /** Latest LLM-as-judge scores for `output`. */
+  judgement?: JudgeVerdict;
+};
+
+/** Where a comparison variant's prompt comes from. */
+export type VariantSource =
+  | { kind: "workspace" }
+  | { kind: "version"; versionId: string }
+  | { kind: "refined" };
+
+export type ComparisonWinner = "a" | "b" | "tie";
+
+/** Two runs on the same variable values. Runs are stored inline so trimming the run log keeps them. */
+export type PromptComparison = {
+  id: string;
+  createdAt: string;
+  promptId?: string;
+  runs: [PromptRun, PromptRun];
+  winner?: ComparisonWinner;
+};
+
+const RUNS_STORAGE_KEY = "prompt-maker:runs";
+const COMPARISONS_STORAGE_KEY = "prompt-maker:comparisons";
+const MAX_STORED_RUNS = 100;
+const MAX_STORED_COMPARISONS = 50;
+
+const isPromptRun = (run: unknown): run is PromptRun =>
+  typeof (run as PromptRun)?.id === "string" &&
+  typeof (run as PromptRun).model === "string" &&
+  Array.isArray((run as PromptRun).messages);
+
+export const loadPromptRuns = (): PromptRun[] => {
+  const stored = readStorage<unknown>(RUNS_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.filter(isPromptRun);
+};
+
+/** Keeps the newest runs only; full responses make the log the largest thing in storage. */
+export const persistPromptRuns = (runs: PromptRun[]) =>
+  writeStorage(RUNS_STORAGE_KEY, runs.slice(0, MAX_STORED_RUNS));
+
+export const loadComparisons = (): PromptComparison[] => {
+  const stored = readStorage<unknown>(COMPARISONS_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+  return stored.filter(
+    (entry): entry is PromptComparison =>
+      typeof entry?.id === "string" &&
+      Array.isArray(entry.runs) &&
+      entry.runs.length === 2 &&
+      entry.runs.every(isPromptRun),
+  );
+};
+
+export const persistComparisons = (comparisons: PromptComparison[]) =>
+  writeStorage(COMPARISONS_STORAGE_KEY, comparisons.slice(0, MAX_STORED_COMPARISONS));
+
+export const createComparison = (runs: [PromptRun, PromptRun], promptId?: string): PromptComparison => ({
+  id: createId(),
+  createdAt: new Date().toISOString(),
+  promptId,
+  runs,
+});
+
+/** Which committed version (if any) the workspace currently is, for labelling runs. */
+export const describeWorkspaceVersion = (state: PromptState, versions: PromptVersion[]) => {
+  const match = versions.find((version) => isSameState(version.state, state));
+  if (match) return { versionId: match.id, versionLabel: match.message };
+  return {
+    versionId: undefined,
+    versionLabel: versions.length > 0 ? `Draft after “${versions[0].message}”` : "Uncommitted draft",
+  };
+};
+
+export const createPromptRun = (
+  run: Omit<PromptRun, "id" | "createdAt">,
+  response: RunResponse,
+): PromptRun => ({
+  ...run,
+  id: createId(),
+  createdAt: new Date().toISOString(),
+  output: response.content,
+  error: response.error,
+  latencyMs: response.latencyMs,
+  usage: response.usage,
+});
+
+/** Calls `/api/run`. Failures come back as `{ error }`; aborts reject so callers can tell them apart. */
+export const executePromptRun = async (request: RunRequest, signal?: AbortSignal): Promise<RunResponse> => {
+  try {
+    const response = await fetch("/api/run", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+    const data: RunResponse = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { error: data.error ?? `Run failed with status ${response.status}.` };
+    }
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(error);
+    return { error: "Network error while running the prompt." };
+  }
+};
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { validatePromptState } from "@/lib/prompt-schema";
+import type { VariableDefinition } from "@/lib/prompt-variables";
+
+const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+describe("validatePromptState", () => {
+  it("fills missing sections with empty defaults", () => {
+    const result = validatePromptState({ coreObjective: "Summarise tickets" });
+    assert.ok(result.ok);
+    assert.equal(result.value.coreObjective, "Summarise tickets");
+    assert.equal(result.value.targetAudience, "");
+    assert.deepEqual(result.value.toneTraits, []);
+    assert.deepEqual(result.value.workflow, []);
+    assert.deepEqual(result.value.variables, []);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it("rejects non-objects", () => {
+    const result = validatePromptState(["not", "a", "prompt"]);
+    assert.equal(result.ok, false);
+    assert.deepEqual(!result.ok && paths(result.errors), ["prompt"]);
+  });
+
+  it("reports wrong types with their paths", () => {
+    const result = validatePromptState(
+      { coreObjective: { text: "no" }, toneTraits: "warm", keywords: ["ok", 4] },
+      "doc",
+    );
+    assert.equal(result.ok, false);
+    assert.deepEqual(!result.ok && paths(result.errors), [
+      "doc.coreObjective",
+      "doc.toneTraits",
+      "doc.keywords[1]",
+    ]);
+  });
+
+  it("converts scalars, trims and de-duplicates chips, and warns about unknown fields", () => {
+    const result = validatePromptState({
+      projectTitle: 42,
+      constraints: [" Short ", "Short", ""],
+      extra: true,
+    });
+    assert.ok(result.ok);
+    assert.equal(result.value.projectTitle, "42");
+    assert.deepEqual(result.value.constraints, ["Short"]);
+    assert.deepEqual(paths(result.warnings), ["prompt.projectTitle", "prompt.extra"]);
+  });
+
+  it("replaces duplicate and missing entry ids", () => {
+    const result = validatePromptState({
+      workflow: [
+        { id: "a", title: "One", instruction: "", expectedOutput: "" },
+        { id: "a", title: "Two", instruction: "", expectedOutput: "" },
+        { title: "Three" },
+      ],
+    });
+    assert.ok(result.ok);
+    const ids = result.value.workflow.map((stage) => stage.id);
+    assert.equal(ids[0], "a");
+    assert.equal(new Set(ids).size, 3);
+    assert.deepEqual(paths(result.warnings), ["prompt.workflow[1].id"]);
+  });
+
+  it("keeps workflow routes and drops those into unknown stages", () => {
+    const result = validatePromptState({
+      workflow: [
+        { id: "a", title: "Check", next: [{ id: "e1", to: "b", condition: "valid" }, { to: "gone" }] },
+        { id: "b", title: "Finish", terminal: true, position: { x: 10, y: "20" } },
+      ],
+    });
+    assert.ok(result.ok);
+    const [check, finish] = result.value.workflow as Array<Record<string, unknown>>;
+    assert.deepEqual(check.next, [{ id: "e1", to: "b", condition: "valid" }]);
+    assert.equal(finish.terminal, true);
+    assert.deepEqual(finish.position, { x: 10, y: 20 });
+    assert.ok(paths(result.warnings).includes("prompt.workflow[0].next"));
+  });
+
+  it("normalises variable names and rejects unknown variable types", () => {
+    const valid = validatePromptState({ variables: [{ name: "user name", required: "true" }] });
+    assert.ok(valid.ok);
+    const [variable] = valid.value.variables as VariableDefinition[];
+    assert.equal(variable.name, "USER_NAME");
+    assert.equal(variable.required, true);
+
+    const invalid = validatePromptState({ variables: [{ name: "TOPIC", type: "color" }] });
+    assert.equal(invalid.ok, false);
+    assert.deepEqual(!invalid.ok && paths(invalid.errors), ["prompt.variables[0].type"]);
+  });
+});
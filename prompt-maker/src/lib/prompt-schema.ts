@@ -0,0 +1,383 @@
+import { createId } from "@/lib/prompt-library";
+import type { PromptArrayKey, PromptState } from "@/lib/prompt-types";
+import {
+  checkVariableDefinition,
+  normalizeVariableName,
+  VARIABLE_TYPES,
+  type VariableConstraints,
+  type VariableDefinition,
+  type VariableType,
+} from "@/lib/prompt-variables";
+import type { WorkflowEdge, WorkflowNode } from "@/lib/workflow-graph";
+
+export type ValidationIssue = {
+  /** Dotted path to the offending field, e.g. `prompt.workflow[2].title`. */
+  path: string;
+  message: string;
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; warnings: ValidationIssue[] }
+  | { ok: false; errors: ValidationIssue[]; warnings: ValidationIssue[] };
+
+export const PROMPT_TEXT_KEYS = [
+  "projectTitle",
+  "coreObjective",
+  "targetAudience",
+  "backgroundContext",
+  "requiredInputs",
+  "desiredOutput",
+  "successCriteria",
+  "guardrails",
+  "creativeAngles",
+  "referenceMaterial",
+  "evaluationStrategy",
+  "modelPreferences",
+  "callToAction",
+] as const satisfies ReadonlyArray<keyof PromptState>;
+
+export const PROMPT_ARRAY_KEYS = [
+  "toneTraits",
+  "styleGuidelines",
+  "constraints",
+  "keywords",
+] as const satisfies ReadonlyArray<PromptArrayKey>;
+
+const KNOWN_KEYS = new Set<string>([...PROMPT_TEXT_KEYS, ...PROMPT_ARRAY_KEYS, "workflow", "variables"]);
+
+const describeType = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+type Collector = {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+};
+
+const readString = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  collector: Collector,
+  { optional = false }: { optional?: boolean } = {},
+): string | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return optional ? undefined : "";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    collector.warnings.push({ path: `${path}.${key}`, message: `Converted ${typeof value} to text.` });
+    return String(value);
+  }
+  if (typeof value !== "string") {
+    collector.errors.push({
+      path: `${path}.${key}`,
+      message: `Expected text, received ${describeType(value)}.`,
+    });
+    return undefined;
+  }
+  return value;
+};
+
+const readEntries = <T extends { id: string }>(
+  source: Record<string, unknown>,
+  key: "workflow" | "variables",
+  path: string,
+  collector: Collector,
+  readEntry: (entry: Record<string, unknown>, entryPath: string) => Omit<T, "id">,
+): T[] => {
+  const value = source[key];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    collector.errors.push({ path: `${path}.${key}`, message: `Expected a list, received ${describeType(value)}.` });
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return value.flatMap((entry, index) => {
+    const entryPath = `${path}.${key}[${index}]`;
+    if (!isRecord(entry)) {
+      collector.errors.push({ path: entryPath, message: `Expected an object, received ${describeType(entry)}.` });
+      return [];
+    }
+
+    let id = typeof entry.id === "string" && entry.id.trim() ? entry.id : undefined;
+    if (!id || seen.has(id)) {
+      if (id) {
+        collector.warnings.push({ path: `${entryPath}.id`, message: `Duplicate id "${id}" was replaced.` });
+      }
+      id = createId();
+    }
+    seen.add(id);
+
+    return [{ id, ...readEntry(entry, entryPath) } as T];
+  });
+};
+
+const readNumber = (source: Record<string, unknown>, key: string, path: string, collector: Collector) => {
+  const value = source[key];
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string" && Number.isFinite(Number(value))) {
+    collector.warnings.push({ path: `${path}.${key}`, message: "Converted text to a number." });
+    return Number(value);
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    collector.errors.push({ path: `${path}.${key}`, message: `Expected a number, received ${describeType(value)}.` });
+    return undefined;
+  }
+  return value;
+};
+
+const CONSTRAINT_KEYS = new Set(["minLength", "maxLength", "pattern", "min", "max", "options", "schema"]);
+
+const readConstraints = (
+  source: Record<string, unknown>,
+  path: string,
+  collector: Collector,
+): VariableConstraints | undefined => {
+  const value = source.constraints;
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) {
+    collector.errors.push({
+      path: `${path}.constraints`,
+      message: `Expected an object, received ${describeType(value)}.`,
+    });
+    return undefined;
+  }
+
+  const constraintsPath = `${path}.constraints`;
+  const constraints: VariableConstraints = {};
+  (["minLength", "maxLength"] as const).forEach((key) => {
+    const length = readNumber(value, key, constraintsPath, collector);
+    if (length === undefined) return;
+    if (!Number.isInteger(length) || length < 0) {
+      collector.errors.push({ path: `${constraintsPath}.${key}`, message: "Expected a non-negative whole number." });
+      return;
+    }
+    constraints[key] = length;
+  });
+  (["min", "max"] as const).forEach((key) => {
+    const bound = readNumber(value, key, constraintsPath, collector);
+    if (bound !== undefined) constraints[key] = bound;
+  });
+
+  const pattern = readString(value, "pattern", constraintsPath, collector, { optional: true });
+  if (pattern) constraints.pattern = pattern;
+
+  if (value.options !== undefined && value.options !== null) {
+    if (!Array.isArray(value.options)) {
+      collector.errors.push({
+        path: `${constraintsPath}.options`,
+        message: `Expected a list, received ${describeType(value.options)}.`,
+      });
+    } else {
+      const options = value.options.flatMap((option, index) => {
+        if (typeof option === "string") return [option.trim()];
+        if (typeof option === "number" || typeof option === "boolean") return [String(option)];
+        collector.errors.push({
+          path: `${constraintsPath}.options[${index}]`,
+          message: `Expected text, received ${describeType(option)}.`,
+        });
+        return [];
+      });
+      constraints.options = [...new Set(options.filter(Boolean))];
+    }
+  }
+
+  // Schemas may be written inline as objects in YAML/JSON files; the workspace keeps them as text.
+  if (isRecord(value.schema)) {
+    constraints.schema = JSON.stringify(value.schema, null, 2);
+  } else {
+    const schema = readString(value, "schema", constraintsPath, collector, { optional: true });
+    if (schema) constraints.schema = schema;
+  }
+
+  Object.keys(value)
+    .filter((key) => !CONSTRAINT_KEYS.has(key))
+    .forEach((key) =>
+      collector.warnings.push({ path: `${constraintsPath}.${key}`, message: "Unknown constraint was ignored." }),
+    );
+
+  return Object.keys(constraints).length > 0 ? constraints : undefined;
+};
+
+const readVariableDefinition = (
+  entry: Record<string, unknown>,
+  entryPath: string,
+  collector: Collector,
+): Omit<VariableDefinition, "id"> => {
+  const name = readString(entry, "name", entryPath, collector) ?? "";
+  const normalized = normalizeVariableName(name);
+  if (normalized !== name) {
+    collector.warnings.push({ path: `${entryPath}.name`, message: `Renamed "${name}" to "${normalized}".` });
+  }
+
+  let type: VariableType = "string";
+  if (entry.type !== undefined && entry.type !== null) {
+    if (VARIABLE_TYPES.includes(entry.type as VariableType)) {
+      type = entry.type as VariableType;
+    } else {
+      collector.errors.push({
+        path: `${entryPath}.type`,
+        message: `Expected one of ${VARIABLE_TYPES.join(", ")}, received ${JSON.stringify(entry.type)}.`,
+      });
+    }
+  }
+
+  let required = false;
+  if (typeof entry.required === "boolean") {
+    required = entry.required;
+  } else if (typeof entry.required === "string" && /^(true|false)$/i.test(entry.required)) {
+    collector.warnings.push({ path: `${entryPath}.required`, message: "Converted text to a boolean." });
+    required = entry.required.toLowerCase() === "true";
+  } else if (entry.required !== undefined && entry.required !== null) {
+    collector.errors.push({
+      path: `${entryPath}.required`,
+      message: `Expected true or false, received ${describeType(entry.required)}.`,
+    });
+  }
+
+  const definition: Omit<VariableDefinition, "id"> = {
+    name: normalized,
+    description: readString(entry, "description", entryPath, collector) ?? "",
+    example: readString(entry, "example", entryPath, collector, { optional: true }),
+    type,
+    required,
+    defaultValue: readString(entry, "defaultValue", entryPath, collector, { optional: true }),
+    constraints: readConstraints(entry, entryPath, collector),
+  };
+
+  checkVariableDefinition({ id: "", ...definition })
+    .filter((problem) => problem !== "Name is required.")
+    .forEach((message) => collector.warnings.push({ path: entryPath, message }));
+
+  return definition;
+};
+
+/** A workflow stage plus its optional routes, terminal flag and canvas position. */
+const readWorkflowNode = (
+  entry: Record<string, unknown>,
+  entryPath: string,
+  collector: Collector,
+): Omit<WorkflowNode, "id"> => {
+  const node: Omit<WorkflowNode, "id"> = {
+    title: readString(entry, "title", entryPath, collector) ?? "",
+    instruction: readString(entry, "instruction", entryPath, collector) ?? "",
+    expectedOutput: readString(entry, "expectedOutput", entryPath, collector) ?? "",
+  };
+
+  if (entry.next !== undefined && entry.next !== null) {
+    if (!Array.isArray(entry.next)) {
+      collector.errors.push({
+        path: `${entryPath}.next`,
+        message: `Expected a list, received ${describeType(entry.next)}.`,
+      });
+    } else {
+      node.next = entry.next.flatMap((edge, index): WorkflowEdge[] => {
+        const edgePath = `${entryPath}.next[${index}]`;
+        if (!isRecord(edge)) {
+          collector.errors.push({ path: edgePath, message: `Expected an object, received ${describeType(edge)}.` });
+          return [];
+        }
+        const to = readString(edge, "to", edgePath, collector);
+        if (!to) {
+          collector.errors.push({ path: `${edgePath}.to`, message: "Expected the id of a stage." });
+          return [];
+        }
+        const id = typeof edge.id === "string" && edge.id.trim() ? edge.id : createId();
+        return [{ id, to, condition: readString(edge, "condition", edgePath, collector) ?? "" }];
+      });
+    }
+  }
+
+  if (typeof entry.terminal === "boolean") {
+    node.terminal = entry.terminal;
+  } else if (entry.terminal !== undefined && entry.terminal !== null) {
+    collector.errors.push({
+      path: `${entryPath}.terminal`,
+      message: `Expected true or false, received ${describeType(entry.terminal)}.`,
+    });
+  }
+
+  if (isRecord(entry.position)) {
+    const x = readNumber(entry.position, "x", `${entryPath}.position`, collector);
+    const y = readNumber(entry.position, "y", `${entryPath}.position`, collector);
+    if (x !== undefined && y !== undefined) node.position = { x, y };
+  }
+
+  return node;
+};
+
+/**
+ * Validates untrusted data (imports, storage, API payloads) against the `PromptState` shape.
+ * Missing fields fall back to empty values; anything of the wrong type is an error so a bad
+ * document is rejected as a whole instead of half-applied.
+ */
+export const validatePromptState = (input: unknown, path = "prompt"): ValidationResult<PromptState> => {
+  const collector: Collector = { errors: [], warnings: [] };
+
+  if (!isRecord(input)) {
+    return {
+      ok: false,
+      errors: [{ path, message: `Expected an object, received ${describeType(input)}.` }],
+      warnings: [],
+    };
+  }
+
+  const state: Record<string, unknown> = {};
+
+  PROMPT_TEXT_KEYS.forEach((key) => {
+    state[key] = readString(input, key, path, collector);
+  });
+
+  PROMPT_ARRAY_KEYS.forEach((key) => {
+    const value = input[key];
+    if (value === undefined || value === null) {
+      state[key] = [];
+      return;
+    }
+    if (!Array.isArray(value)) {
+      collector.errors.push({ path: `${path}.${key}`, message: `Expected a list, received ${describeType(value)}.` });
+      return;
+    }
+    const items = value.filter((item, index) => {
+      if (typeof item === "string") return true;
+      collector.errors.push({
+        path: `${path}.${key}[${index}]`,
+        message: `Expected text, received ${describeType(item)}.`,
+      });
+      return false;
+    }) as string[];
+    state[key] = [...new Set(items.map((item) => item.trim()).filter(Boolean))];
+  });
+
+  const workflow = readEntries<WorkflowNode>(input, "workflow", path, collector, (entry, entryPath) =>
+    readWorkflowNode(entry, entryPath, collector),
+  );
+  const stageIds = new Set(workflow.map((stage) => stage.id));
+  state.workflow = workflow.map((stage, index) => {
+    const routes = stage.next?.filter((edge) => stageIds.has(edge.to));
+    if (!stage.next || routes?.length === stage.next.length) return stage;
+    collector.warnings.push({
+      path: `${path}.workflow[${index}].next`,
+      message: "Routes to unknown stages were dropped.",
+    });
+    return { ...stage, next: routes };
+  });
+
+  state.variables = readEntries<VariableDefinition>(input, "variables", path, collector, (entry, entryPath) =>
+    readVariableDefinition(entry, entryPath, collector),
+  );
+
+  Object.keys(input)
+    .filter((key) => !KNOWN_KEYS.has(key))
+    .forEach((key) => collector.warnings.push({ path: `${path}.${key}`, message: "Unknown field was ignored." }));
+
+  if (collector.errors.length > 0) {
+    return { ok: false, errors: collector.errors, warnings: collector.warnings };
+  }
+
+  return { ok: true, value: state as PromptState, warnings: collector.warnings };
+};
@@ -0,0 +1,248 @@
+import { PROMPT_ARRAY_KEYS, PROMPT_TEXT_KEYS } from "@/lib/prompt-schema";
+import type { PromptState, WorkflowStage } from "@/lib/prompt-types";
+import { compilePrompt } from "@/lib/prompt-utils";
+import type { VariableDefinition } from "@/lib/prompt-variables";
+import type { ChatMessage } from "@/lib/providers";
+import {
+  describeStageRoute,
+  describeWorkflowGraph,
+  isBlankStage,
+  isBranchingWorkflow,
+  type WorkflowNode,
+} from "@/lib/workflow-graph";
+
+export type CompileTargetId = "studio" | "markdown" | "xml" | "prose" | "messages";
+
+export type CompileTarget = {
+  id: CompileTargetId;
+  label: string;
+  extension: string;
+  mimeType: string;
+  compile: (state: PromptState, label: SectionLabeler) => string;
+};
+
+/** Heading for a state key; the studio passes its section titles so every target matches the UI. */
+export type SectionLabeler = (key: keyof PromptState) => string;
+
+type PromptSection = {
+  key: keyof PromptState;
+  text?: string;
+  items?: string[];
+  stages?: WorkflowNode[];
+};
+
+/**
+ * Persona and rules go to the system message; everything describing the task itself is the
+ * user message.
+ */
+const SYSTEM_KEYS = new Set<keyof PromptState>([
+  "targetAudience",
+  "guardrails",
+  "toneTraits",
+  "styleGuidelines",
+  "constraints",
+  "modelPreferences",
+]);
+
+const describeVariable = (variable: VariableDefinition) => {
+  const details = [variable.type ?? "string", variable.required ? "required" : undefined]
+    .filter(Boolean)
+    .join(", ");
+  return `{{${variable.name}}} (${details})${variable.description ? ` – ${variable.description}` : ""}`;
+};
+
+/** Stages with something to do; blank starter rows are skipped. */
+const activeStages = (state: PromptState): WorkflowNode[] =>
+  state.workflow.filter((stage) => !isBlankStage(stage));
+
+/** Non-empty sections in the order the builder shows them. */
+const collectSections = (state: PromptState): PromptSection[] => {
+  const sections: PromptSection[] = [];
+  PROMPT_TEXT_KEYS.filter((key) => key !== "projectTitle").forEach((key) => {
+    if (state[key].trim()) sections.push({ key, text: state[key].trim() });
+  });
+  PROMPT_ARRAY_KEYS.forEach((key) => {
+    if (state[key].length > 0) sections.push({ key, items: state[key] });
+  });
+
+  const stages = activeStages(state);
+  if (stages.length > 0) {
+    sections.push({ key: "workflow", stages });
+  }
+
+  const variables = state.variables.filter((variable) => variable.name);
+  if (variables.length > 0) sections.push({ key: "variables", items: variables.map(describeVariable) });
+  return sections;
+};
+
+const describeStage = (stage: WorkflowStage) =>
+  [stage.title.trim(), stage.instruction.trim()].filter(Boolean).join(": ");
+
+/** Routing after a stage, only once the workflow branches. */
+const routeOf = (stages: WorkflowNode[], index: number) =>
+  isBranchingWorkflow(stages) ? describeStageRoute(stages, index).join(" ") : "";
+
+const toMarkdown = (sections: PromptSection[], label: SectionLabeler) =>
+  sections
+    .map((section) => {
+      const stages = section.stages;
+      const body =
+        section.text ??
+        stages
+          ?.map((stage, index) => {
+            const route = routeOf(stages, index);
+            return (
+              `${index + 1}. ${describeStage(stage)}` +
+              (stage.expectedOutput.trim() ? `\n   Expected output: ${stage.expectedOutput.trim()}` : "") +
+              (route ? `\n   Next: ${route}` : "")
+            );
+          })
+          .join("\n") ??
+        (section.items ?? []).map((item) => `- ${item}`).join("\n");
+      return `## ${label(section.key)}\n\n${body}`;
+    })
+    .join("\n\n");
+
+const escapeXml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const toTagName = (key: string) => key.replace(/([A-Z])/g, "_$1").toLowerCase();
+
+const toXml = (state: PromptState) => {
+  const body = collectSections(state)
+    .map((section) => {
+      const tag = toTagName(section.key);
+      if (section.text !== undefined) {
+        return `  <${tag}>\n    ${escapeXml(section.text).replace(/\n/g, "\n    ")}\n  </${tag}>`;
+      }
+      if (section.stages) {
+        const all = section.stages;
+        const stages = all.map((stage, index) =>
+          [
+            `    <stage index="${index + 1}">`,
+            stage.title.trim() && `      <title>${escapeXml(stage.title.trim())}</title>`,
+            stage.instruction.trim() &&
+              `      <instruction>${escapeXml(stage.instruction.trim())}</instruction>`,
+            stage.expectedOutput.trim() &&
+              `      <expected_output>${escapeXml(stage.expectedOutput.trim())}</expected_output>`,
+            routeOf(all, index) && `      <next>${escapeXml(routeOf(all, index))}</next>`,
+            "    </stage>",
+          ]
+            .filter(Boolean)
+            .join("\n"),
+        );
+        return `  <${tag}>\n${stages.join("\n")}\n  </${tag}>`;
+      }
+      const child = section.key === "variables" ? "variable" : "item";
+      const items = (section.items ?? [])
+        .map((item) => `    <${child}>${escapeXml(item)}</${child}>`)
+        .join("\n");
+      return `  <${tag}>\n${items}\n  </${tag}>`;
+    })
+    .join("\n");
+  const name = state.projectTitle.trim()
+    ? ` name="${escapeXml(state.projectTitle.trim()).replace(/"/g, "&quot;")}"`
+    : "";
+  return `<prompt${name}>\n${body}\n</prompt>`;
+};
+
+const joinList = (items: string[]) =>
+  items.length <= 1 ? (items[0] ?? "") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+const endSentence = (text: string) => (/[.!?:]$/.test(text) ? text : `${text}.`);
+
+const stepLead = (index: number, count: number) =>
+  index === 0 ? "First, " : index === count - 1 ? "Finally, " : "Then, ";
+
+const toProse = (state: PromptState, label: SectionLabeler) =>
+  collectSections(state)
+    .map((section) => {
+      if (section.text !== undefined) {
+        return `${label(section.key)}: ${endSentence(section.text.replace(/\s*\n+\s*/g, " "))}`;
+      }
+      if (section.stages) {
+        const stages = section.stages;
+        const branching = isBranchingWorkflow(stages);
+        const steps = stages.map((stage, index) => {
+          // Branching flows are not read top to bottom, so stages are numbered instead of sequenced.
+          const lead = branching
+            ? `Stage ${index + 1}: `
+            : stages.length === 1
+              ? ""
+              : stepLead(index, stages.length);
+          const output = stage.expectedOutput.trim()
+            ? ` Produce ${endSentence(stage.expectedOutput.trim())}`
+            : "";
+          const route = branching ? ` ${routeOf(stages, index)}` : "";
+          return `${endSentence(`${lead}${describeStage(stage)}`)}${output}${route}`;
+        });
+        const intro = `Work through ${stages.length} ${stages.length === 1 ? "stage" : "stages"}`;
+        return `${intro}${branching ? ", starting with stage 1 and following the route after each" : ""}. ${steps.join(" ")}`;
+      }
+      return `${label(section.key)}: ${endSentence(joinList(section.items ?? []))}`;
+    })
+    .join("\n\n");
+
+/** `compilePrompt` plus the routing of a branching workflow, which the studio format lists flat. */
+export const compileStudioPrompt = (state: PromptState) =>
+  [compilePrompt(state), describeWorkflowGraph(activeStages(state))].filter(Boolean).join("\n\n");
+
+/** Each non-empty section as it reads in Markdown, e.g. to measure which sections dominate. */
+export const compileSections = (state: PromptState, label: SectionLabeler) =>
+  collectSections(state).map((section) => ({ key: section.key, text: toMarkdown([section], label) }));
+
+/** Chat-completions style messages: persona and rules as `system`, the task as `user`. */
+export const compileMessages = (state: PromptState, label: SectionLabeler) => {
+  const sections = collectSections(state);
+  const system = sections.filter((section) => SYSTEM_KEYS.has(section.key));
+  const user = sections.filter((section) => !SYSTEM_KEYS.has(section.key));
+  const title = state.projectTitle.trim();
+  return [
+    { role: "system" as const, content: toMarkdown(system, label) },
+    {
+      role: "user" as const,
+      content: [title && `# ${title}`, toMarkdown(user, label)].filter(Boolean).join("\n\n"),
+    },
+  ].filter((message) => message.content);
+};
+
+export const compileTargets: CompileTarget[] = [
+  {
+    id: "studio",
+    label: "Studio format",
+    extension: "txt",
+    mimeType: "text/plain",
+    compile: (state) => compileStudioPrompt(state),
+  },
+  {
+    id: "markdown",
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown",
+    compile: (state, label) => {
+      const title = state.projectTitle.trim();
+      return [title && `# ${title}`, toMarkdown(collectSections(state), label)].filter(Boolean).join("\n\n");
+    },
+  },
+  { id: "xml", label: "XML sections", extension: "xml", mimeType: "application/xml", compile: toXml },
+  { id: "prose", label: "Plain prose", extension: "txt", mimeType: "text/plain", compile: toProse },
+  {
+    id: "messages",
+    label: "JSON messages",
+    extension: "json",
+    mimeType: "application/json",
+    compile: (state, label) => JSON.stringify(compileMessages(state, label), null, 2),
+  },
+];
+
+export const getCompileTarget = (id: CompileTargetId) =>
+  compileTargets.find((target) => target.id === id) ?? compileTargets[0];
+
+/** What gets sent to a model: the messages target keeps its system/user split, others are one user turn. */
+export const compileChatMessages = (
+  state: PromptState,
+  target: CompileTargetId,
+  label: SectionLabeler,
+): ChatMessage[] =>
+  target === "messages"
+    ? compileMessages(state, label)
+    : [{ role: "user", content: getCompileTarget(target).compile(state, label) }];
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { validatePromptState } from "@/lib/prompt-schema";
+import { mergeTemplate } from "@/lib/prompt-templates";
+import type { PromptState, PromptTemplate } from "@/lib/prompt-types";
+import type { WorkflowNode } from "@/lib/workflow-graph";
+
+const promptState = (sections: Record<string, unknown>): PromptState => {
+  const result = validatePromptState(sections);
+  assert.ok(result.ok);
+  return result.value;
+};
+
+const workspace = () =>
+  promptState({
+    coreObjective: "Answer refund requests.",
+    targetAudience: "Support agents",
+    toneTraits: ["Friendly", "Concise"],
+    workflow: [
+      { id: "read", title: "Read", instruction: "Read the ticket", expectedOutput: "" },
+      { id: "blank", title: "", instruction: "", expectedOutput: "" },
+    ],
+    variables: [
+      { id: "plan", name: "PLAN", description: "Plan tier" },
+      { id: "empty", name: "", description: "" },
+    ],
+  });
+
+const template = (): PromptTemplate => ({
+  id: "triage",
+  title: "Triage",
+  subtitle: "",
+  category: "Support",
+  tags: [],
+  sections: promptState({
+    coreObjective: "Triage incoming tickets.",
+    toneTraits: ["Concise", "Calm"],
+    workflow: [
+      {
+        id: "classify",
+        title: "Classify",
+        instruction: "Pick a queue",
+        expectedOutput: "",
+        next: [
+          { id: "e1", to: "escalate", condition: "the customer is angry" },
+          { id: "e2", to: "elsewhere" },
+        ],
+      },
+      { id: "escalate", title: "Escalate", instruction: "Hand over", expectedOutput: "", terminal: true },
+    ],
+    variables: [
+      { id: "t-plan", name: "PLAN", description: "Template plan" },
+      { id: "t-queue", name: "QUEUE", description: "Target queue" },
+    ],
+  }),
+});
+
+describe("mergeTemplate", () => {
+  it("replaces only the sections in the plan", () => {
+    const current = workspace();
+    const merged = mergeTemplate(current, template(), { coreObjective: "replace", toneTraits: "replace" });
+    assert.equal(merged.coreObjective, "Triage incoming tickets.");
+    assert.deepEqual(merged.toneTraits, ["Concise", "Calm"]);
+    assert.equal(merged.targetAudience, "Support agents");
+    assert.deepEqual(merged.workflow, current.workflow);
+  });
+
+  it("replaces text sections even when asked to append", () => {
+    const merged = mergeTemplate(workspace(), template(), { coreObjective: "append" });
+    assert.equal(merged.coreObjective, "Triage incoming tickets.");
+  });
+
+  it("appends chips without repeating ones already there", () => {
+    const merged = mergeTemplate(workspace(), template(), { toneTraits: "append" });
+    assert.deepEqual(merged.toneTraits, ["Friendly", "Concise", "Calm"]);
+  });
+
+  it("appends stages with fresh ids and keeps the routes between them", () => {
+    const merged = mergeTemplate(workspace(), template(), { workflow: "append" });
+    const stages = merged.workflow as WorkflowNode[];
+    assert.deepEqual(
+      stages.map((stage) => stage.title),
+      ["Read", "Classify", "Escalate"],
+    );
+    const [, classify, escalate] = stages;
+    assert.notEqual(classify.id, "classify");
+    assert.notEqual(escalate.id, "escalate");
+    assert.equal(escalate.terminal, true);
+    assert.deepEqual(
+      classify.next?.map(({ to, condition }) => ({ to, condition })),
+      [{ to: escalate.id, condition: "the customer is angry" }],
+    );
+  });
+
+  it("appends variables whose names are new, with fresh ids", () => {
+    const merged = mergeTemplate(workspace(), template(), { variables: "append" });
+    assert.deepEqual(
+      merged.variables.map((variable) => [variable.name, variable.description]),
+      [
+        ["PLAN", "Plan tier"],
+        ["QUEUE", "Target queue"],
+      ],
+    );
+    assert.notEqual(merged.variables[1].id, "t-queue");
+  });
+
+  it("leaves the workspace and the template untouched", () => {
+    const current = workspace();
+    const source = template();
+    const before = structuredClone({ current, source });
+    const merged = mergeTemplate(current, source, { workflow: "append", variables: "replace" });
+    (merged.variables[0] as { name: string }).name = "CHANGED";
+    assert.deepEqual({ current, source }, before);
+  });
+});
@@ -0,0 +1,400 @@
+import { createId, readStorage, writeStorage } from "@/lib/prompt-library";
+import { pickFields } from "@/lib/prompt-merge";
+import {
+  isRecord,
+  PROMPT_ARRAY_KEYS,
+  PROMPT_TEXT_KEYS,
+  validatePromptState,
+  type ValidationIssue,
+  type ValidationResult,
+} from "@/lib/prompt-schema";
+import { detectTransferFormat, parseStructuredText } from "@/lib/prompt-transfer";
+import type { PromptArrayKey, PromptState, PromptTemplate } from "@/lib/prompt-types";
+import { createDefaultPromptState } from "@/lib/prompt-utils";
+import type { WorkflowNode } from "@/lib/workflow-graph";
+
+export const TEMPLATE_PACK_FORMAT = "prompt-maker/templates";
+export const TEMPLATE_PACK_VERSION = 1;
+
+/** A template saved from the workspace. Built-in templates come from `@/data/templates`. */
+export type UserTemplate = PromptTemplate & {
+  source: "user";
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TemplateDraft = Pick<PromptTemplate, "title" | "subtitle" | "category" | "tags">;
+
+/** File format for sharing templates; built-in and user templates export the same way. */
+export type TemplatePack = {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  schemaVersion: number;
+  /** Display name and release of a team's pack; exports from the studio leave them out. */
+  name?: string;
+  version?: string;
+  exportedAt: string;
+  templates: PromptTemplate[];
+};
+
+/** A heading in the template library: saved templates, the built-ins, or one pack. */
+export type TemplateGroup = {
+  id: string;
+  name: string;
+  version?: string;
+  templates: PromptTemplate[];
+};
+
+/** A pack file from the server's template directory. */
+export type LoadedTemplatePack = TemplateGroup & { file: string };
+
+export type TemplatePackIssue = ValidationIssue & { file: string };
+
+/** What `/api/templates` returns. */
+export type TemplatePackListing = {
+  packs: LoadedTemplatePack[];
+  issues: TemplatePackIssue[];
+};
+
+export type TemplateFilter = {
+  query: string;
+  category?: string;
+  tag?: string;
+};
+
+/** How a template section lands in the workspace when merging. */
+export type SectionMergeMode = "replace" | "append";
+
+export type TemplateMergePlan = Partial<Record<keyof PromptState, SectionMergeMode>>;
+
+const TEMPLATES_STORAGE_KEY = "prompt-maker:templates";
+const TEMPLATES_VERSION = 1;
+
+/** Every section a template can carry, in the order the builder shows them. */
+export const TEMPLATE_SECTION_KEYS: Array<keyof PromptState> = [
+  ...PROMPT_TEXT_KEYS,
+  ...PROMPT_ARRAY_KEYS,
+  "workflow",
+  "variables",
+];
+
+/** Sections whose entries can be added to the workspace's own instead of replacing them. */
+export const APPENDABLE_SECTION_KEYS: Array<keyof PromptState> = [
+  ...PROMPT_ARRAY_KEYS,
+  "workflow",
+  "variables",
+];
+
+export const isUserTemplate = (template: PromptTemplate): template is UserTemplate =>
+  (template as Partial<UserTemplate>).source === "user";
+
+export const parseTemplateTags = (text: string) => [
+  ...new Set(
+    text
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+  ),
+];
+
+/** Sections with content; blank starter stages and variables do not count. */
+export const filledSections = (state: PromptState) =>
+  TEMPLATE_SECTION_KEYS.filter((key) => {
+    if (key === "workflow") {
+      return state.workflow.some((stage) => stage.title.trim() || stage.instruction.trim());
+    }
+    if (key === "variables") return state.variables.some((variable) => variable.name);
+    const value = state[key];
+    return Array.isArray(value) ? value.length > 0 : String(value).trim() !== "";
+  });
+
+export const captureSections = (state: PromptState, keys: Array<keyof PromptState>): Partial<PromptState> =>
+  Object.fromEntries(keys.map((key) => [key, structuredClone(state[key])]));
+
+export const templateSectionKeys = (template: PromptTemplate) =>
+  TEMPLATE_SECTION_KEYS.filter((key) => template.sections[key] !== undefined);
+
+/** Every whitespace-separated term must appear in the title, subtitle, category or tags. */
+export const filterTemplates = <T extends PromptTemplate>(templates: T[], filter: TemplateFilter) => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return templates.filter((template) => {
+    if (filter.category && template.category !== filter.category) return false;
+    if (filter.tag && !template.tags.includes(filter.tag)) return false;
+    const haystack = [template.title, template.subtitle, template.category, ...template.tags]
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
+
+/** The workspace that loading the template produces: its sections over a blank state. */
+export const templateToState = (template: PromptTemplate): PromptState => {
+  const base = createDefaultPromptState();
+  return {
+    ...base,
+    ...template.sections,
+    toneTraits: template.sections.toneTraits ?? base.toneTraits,
+    styleGuidelines: template.sections.styleGuidelines ?? base.styleGuidelines,
+    constraints: template.sections.constraints ?? base.constraints,
+    keywords: template.sections.keywords ?? base.keywords,
+    workflow: template.sections.workflow ?? base.workflow,
+    variables: template.sections.variables ?? base.variables,
+  };
+};
+
+/** Appends stages with fresh ids, keeping routes between the appended stages intact. */
+const appendStages = (current: WorkflowNode[], added: WorkflowNode[]): WorkflowNode[] => {
+  const ids = new Map(added.map((stage) => [stage.id, createId()]));
+  const kept = current.filter((stage) => stage.title.trim() || stage.instruction.trim());
+  return [
+    ...kept,
+    ...added.map((stage) => ({
+      ...stage,
+      id: ids.get(stage.id) as string,
+      ...(stage.next && {
+        next: stage.next.flatMap((edge) => {
+          const to = ids.get(edge.to);
+          return to ? [{ ...edge, id: createId(), to }] : [];
+        }),
+      }),
+    })),
+  ];
+};
+
+/**
+ * Applies the chosen template sections to the workspace. Replaced sections take the
+ * template's value; appended ones keep the workspace's entries and add the template's after
+ * them, skipping chips and variable names that already exist.
+ */
+export const mergeTemplate = (current: PromptState, template: PromptTemplate, plan: TemplateMergePlan) => {
+  const source = templateToState(template);
+  const keys = Object.keys(plan) as Array<keyof PromptState>;
+  const next = pickFields(
+    current,
+    source,
+    keys.filter((key) => plan[key] === "replace" || !APPENDABLE_SECTION_KEYS.includes(key)),
+  );
+
+  keys
+    .filter((key) => plan[key] === "append" && APPENDABLE_SECTION_KEYS.includes(key))
+    .forEach((key) => {
+      if (key === "workflow") {
+        next.workflow = appendStages(current.workflow, structuredClone(source.workflow));
+      } else if (key === "variables") {
+        const names = new Set(current.variables.map((variable) => variable.name).filter(Boolean));
+        next.variables = [
+          ...current.variables.filter((variable) => variable.name || variable.description),
+          ...source.variables
+            .filter((variable) => variable.name && !names.has(variable.name))
+            .map((variable) => ({ ...structuredClone(variable), id: createId() })),
+        ];
+      } else {
+        const chips = key as PromptArrayKey;
+        next[chips] = [...new Set([...current[chips], ...source[chips]])];
+      }
+    });
+
+  return next;
+};
+
+const cleanDraft = (draft: TemplateDraft): TemplateDraft => ({
+  title: draft.title.trim() || "Untitled template",
+  subtitle: draft.subtitle.trim(),
+  category: draft.category.trim() || "Custom",
+  tags: draft.tags,
+});
+
+export const createUserTemplate = (
+  draft: TemplateDraft,
+  state: PromptState,
+  keys: Array<keyof PromptState>,
+): UserTemplate => {
+  const timestamp = new Date().toISOString();
+  return {
+    id: createId(),
+    ...cleanDraft(draft),
+    sections: captureSections(state, keys),
+    source: "user",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+};
+
+/** New details, and new sections when `sections` is given; otherwise the saved content stays. */
+export const updateUserTemplate = (
+  template: UserTemplate,
+  draft: TemplateDraft,
+  sections?: Partial<PromptState>,
+): UserTemplate => ({
+  ...template,
+  ...cleanDraft(draft),
+  sections: sections ?? template.sections,
+  updatedAt: new Date().toISOString(),
+});
+
+/** Saved templates get the same checks as a pack; entries with invalid sections are dropped. */
+export const loadUserTemplates = (): UserTemplate[] => {
+  const stored = readStorage<{ version: number; templates: unknown }>(TEMPLATES_STORAGE_KEY);
+  if (!stored || !Array.isArray(stored.templates)) return [];
+
+  const warnings: ValidationIssue[] = [];
+  const templates = stored.templates.flatMap((entry: unknown, index) => {
+    const template = readPackTemplate(entry, `templates[${index}]`, warnings);
+    if (!template) return [];
+    const { createdAt, updatedAt } = entry as Partial<UserTemplate>;
+    const timestamp = new Date().toISOString();
+    return [
+      {
+        ...template,
+        source: "user" as const,
+        createdAt: typeof createdAt === "string" ? createdAt : timestamp,
+        updatedAt: typeof updatedAt === "string" ? updatedAt : timestamp,
+      },
+    ];
+  });
+  if (warnings.length > 0) console.warn("Checked saved templates from storage", warnings);
+  return templates;
+};
+
+export const persistUserTemplates = (templates: UserTemplate[]) =>
+  writeStorage(TEMPLATES_STORAGE_KEY, { version: TEMPLATES_VERSION, templates });
+
+export const serializeTemplatePack = (templates: PromptTemplate[]) => {
+  const pack: TemplatePack = {
+    format: TEMPLATE_PACK_FORMAT,
+    schemaVersion: TEMPLATE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(({ id, title, subtitle, category, tags, sections }) => ({
+      id,
+      title,
+      subtitle,
+      category,
+      tags,
+      sections,
+    })),
+  };
+  return `${JSON.stringify(pack, null, 2)}\n`;
+};
+
+/** Reads one template; problems are reported as warnings and the template is skipped. */
+const readPackTemplate = (
+  entry: unknown,
+  path: string,
+  warnings: ValidationIssue[],
+): PromptTemplate | undefined => {
+  if (
+    !isRecord(entry) ||
+    typeof entry.id !== "string" ||
+    !entry.id.trim() ||
+    typeof entry.title !== "string"
+  ) {
+    warnings.push({ path, message: "Expected a template with an id and a title; it was skipped." });
+    return undefined;
+  }
+  const sections = entry.sections;
+  if (!isRecord(sections)) {
+    warnings.push({
+      path: `${path}.sections`,
+      message: "Expected an object of sections; the template was skipped.",
+    });
+    return undefined;
+  }
+
+  const validation = validatePromptState(sections, `${path}.sections`);
+  warnings.push(...validation.warnings);
+  if (!validation.ok) {
+    warnings.push(...validation.errors, {
+      path,
+      message: "The template has invalid sections and was skipped.",
+    });
+    return undefined;
+  }
+
+  return {
+    id: entry.id.trim(),
+    title: entry.title.trim() || "Untitled template",
+    subtitle: typeof entry.subtitle === "string" ? entry.subtitle.trim() : "",
+    category: typeof entry.category === "string" && entry.category.trim() ? entry.category.trim() : "Custom",
+    tags: Array.isArray(entry.tags)
+      ? [...new Set(entry.tags.filter((tag) => typeof tag === "string").map((tag) => tag.trim()))].filter(
+          Boolean,
+        )
+      : [],
+    sections: captureSections(
+      validation.value,
+      TEMPLATE_SECTION_KEYS.filter((key) => sections[key] !== undefined),
+    ),
+  };
+};
+
+/**
+ * Parses a JSON or YAML template pack. Only an unreadable file or a missing template list
+ * fails the whole pack; templates with invalid sections are skipped with a warning.
+ */
+export const parseTemplatePack = (
+  text: string,
+  filename?: string,
+): ValidationResult<Pick<TemplatePack, "name" | "version" | "templates">> => {
+  const parsed = parseStructuredText(text, detectTransferFormat(text, filename));
+  if (!parsed.ok) return { ok: false, errors: [parsed.error], warnings: [] };
+
+  const fail = (path: string, message: string) => ({
+    ok: false as const,
+    errors: [{ path, message }],
+    warnings: [],
+  });
+  const data = parsed.data;
+  if (!isRecord(data) || !Array.isArray(data.templates)) {
+    return fail("(file)", "Expected a template pack with a templates list.");
+  }
+  if (data.format !== undefined && data.format !== TEMPLATE_PACK_FORMAT) {
+    return fail("format", `Unrecognized pack format "${String(data.format)}".`);
+  }
+  if (typeof data.schemaVersion === "number" && data.schemaVersion > TEMPLATE_PACK_VERSION) {
+    return fail(
+      "schemaVersion",
+      `Schema version ${data.schemaVersion} is newer than this studio supports (${TEMPLATE_PACK_VERSION}).`,
+    );
+  }
+
+  const warnings: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const templates = data.templates.flatMap((entry, index) => {
+    const path = `templates[${index}]`;
+    const template = readPackTemplate(entry, path, warnings);
+    if (!template) return [];
+    if (seen.has(template.id)) {
+      warnings.push({
+        path: `${path}.id`,
+        message: `Duplicate id "${template.id}"; the template was skipped.`,
+      });
+      return [];
+    }
+    seen.add(template.id);
+    return [template];
+  });
+  // YAML reads an unquoted 1.10 as the number 1.1, so only text is trusted as a version.
+  if (data.version !== undefined && data.version !== null && typeof data.version !== "string") {
+    warnings.push({
+      path: "version",
+      message: `Expected text, received ${JSON.stringify(data.version)}; quote the version, e.g. "1.10".`,
+    });
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: typeof data.name === "string" && data.name.trim() ? data.name.trim() : undefined,
+      version: typeof data.version === "string" && data.version.trim() ? data.version.trim() : undefined,
+      templates,
+    },
+    warnings,
+  };
+};
+
+export const templateFilename = (template: PromptTemplate) => {
+  const base = template.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${base || "template"}.templates.json`;
+};
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { checkAssertion, createTestAssertion, type AssertionKind } from "@/lib/prompt-tests";
+
+const check = (kind: AssertionKind, value: string, output: string) =>
+  checkAssertion({ ...createTestAssertion(kind), value }, output);
+
+describe("checkAssertion", () => {
+  it("checks contains and not-contains", () => {
+    assert.equal(check("contains", "refund", "Your refund is on its way.").passed, true);
+    assert.equal(check("contains", "Refund", "Your refund is on its way.").passed, false);
+    assert.equal(check("notContains", "sorry", "Your refund is on its way.").passed, true);
+    assert.equal(check("notContains", "refund", "Your refund is on its way.").passed, false);
+  });
+
+  it("fails a blank value instead of passing every output", () => {
+    (["contains", "notContains", "regex", "maxLength", "rubric"] as const).forEach((kind) => {
+      const result = check(kind, "  ", "anything");
+      assert.equal(result.passed, false);
+      assert.match(result.message, /needs a value/);
+    });
+  });
+
+  it("accepts plain and /literal/ regexes and reports invalid ones", () => {
+    assert.equal(check("regex", "^Order \\d+", "Order 42 shipped").passed, true);
+    assert.equal(check("regex", "/^order/i", "Order 42 shipped").passed, true);
+    assert.equal(check("regex", "/^order/", "Order 42 shipped").passed, false);
+    assert.match(check("regex", "(", "x").message, /^Invalid regex/);
+  });
+
+  it("parses JSON output, fenced or not, and validates it against the schema", () => {
+    const schema = JSON.stringify({ type: "object", required: ["status"] });
+    assert.equal(check("json", "", '{"status":"ok"}').passed, true);
+    assert.equal(check("json", schema, '```json\n{"status":"ok"}\n```').passed, true);
+    assert.equal(check("json", schema, "{}").message, "$.status: is required.");
+    assert.match(check("json", "", "not json").message, /^Output is not valid JSON/);
+    assert.match(check("json", "[1]", "{}").message, /must be a JSON object/);
+  });
+
+  it("compares the output length with the limit", () => {
+    assert.equal(check("maxLength", "5", "12345").passed, true);
+    assert.equal(check("maxLength", "4", "12345").message, "Output has 5 characters; the limit is 4.");
+    assert.match(check("maxLength", "five", "12345").message, /is not a number/);
+  });
+
+  it("leaves rubrics to the grader", () => {
+    assert.equal(check("rubric", "Is polite", "Thanks!").passed, false);
+  });
+});
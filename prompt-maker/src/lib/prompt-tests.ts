@@ -0,0 +1,299 @@
+import { parseJsonSchema, validateJsonSchema } from "@/lib/json-schema";
+import { createId, readStorage, writeStorage } from "@/lib/prompt-library";
+import { executePromptRun, type RunRequest } from "@/lib/prompt-runs";
+import { compileChatMessages, type CompileTargetId, type SectionLabeler } from "@/lib/prompt-targets";
+import type { PromptState } from "@/lib/prompt-types";
+import { renderPromptState, resolveVariableValues } from "@/lib/prompt-variables";
+import type { ChatMessage } from "@/lib/providers";
+import { extractJsonObject } from "@/lib/structured-output";
+
+export const ASSERTION_KINDS = ["contains", "notContains", "regex", "json", "maxLength", "rubric"] as const;
+
+export type AssertionKind = (typeof ASSERTION_KINDS)[number];
+
+export const assertionKindLabels: Record<AssertionKind, string> = {
+  contains: "Contains",
+  notContains: "Does not contain",
+  regex: "Matches regex",
+  json: "Valid JSON (optional schema)",
+  maxLength: "Max length (characters)",
+  rubric: "LLM-graded rubric",
+};
+
+/** `value` is the needle, pattern, JSON Schema text, character limit or rubric, depending on `kind`. */
+export type TestAssertion = {
+  id: string;
+  kind: AssertionKind;
+  value: string;
+};
+
+export type TestCase = {
+  id: string;
+  name: string;
+  /** Variable values by name, so cases survive variables being re-created. */
+  values: Record<string, string>;
+  assertions: TestAssertion[];
+};
+
+export type AssertionResult = {
+  assertionId: string;
+  kind: AssertionKind;
+  passed: boolean;
+  message: string;
+};
+
+export type CaseResult = {
+  caseId: string;
+  name: string;
+  passed: boolean;
+  output?: string;
+  /** The case could not run (invalid values, provider error); counts as a failure. */
+  error?: string;
+  latencyMs?: number;
+  assertions: AssertionResult[];
+};
+
+export type TestReport = {
+  id: string;
+  createdAt: string;
+  versionLabel: string;
+  model: string;
+  results: CaseResult[];
+};
+
+export type TestSuite = {
+  cases: TestCase[];
+  /** Newest first. */
+  reports: TestReport[];
+};
+
+export type CaseRegression = "regressed" | "fixed" | "new" | "unchanged";
+
+const SUITES_STORAGE_KEY = "prompt-maker:test-suites";
+const DRAFT_SUITE_KEY = "draft";
+const MAX_STORED_REPORTS = 20;
+
+export const emptyTestSuite = (): TestSuite => ({ cases: [], reports: [] });
+
+/** Suites are stored per saved prompt; the unsaved workspace shares one draft suite. */
+export const loadTestSuite = (promptId?: string): TestSuite => {
+  const suite = readStorage<Record<string, TestSuite>>(SUITES_STORAGE_KEY)?.[promptId ?? DRAFT_SUITE_KEY];
+  return suite && Array.isArray(suite.cases) && Array.isArray(suite.reports) ? suite : emptyTestSuite();
+};
+
+export const persistTestSuite = (promptId: string | undefined, suite: TestSuite) => {
+  const suites = readStorage<Record<string, TestSuite>>(SUITES_STORAGE_KEY) ?? {};
+  writeStorage(SUITES_STORAGE_KEY, {
+    ...suites,
+    [promptId ?? DRAFT_SUITE_KEY]: { ...suite, reports: suite.reports.slice(0, MAX_STORED_REPORTS) },
+  });
+};
+
+export const createTestAssertion = (kind: AssertionKind = "contains"): TestAssertion => ({
+  id: createId(),
+  kind,
+  value: "",
+});
+
+export const createTestCase = (name: string, values: Record<string, string> = {}): TestCase => ({
+  id: createId(),
+  name,
+  values,
+  assertions: [createTestAssertion()],
+});
+
+/**
+ * Renders the prompt with a case's values. Values are validated against the variable
+ * definitions first, so a case with a bad value fails without spending a model call.
+ */
+export const renderTestCase = (
+  state: PromptState,
+  testCase: TestCase,
+  target: CompileTargetId,
+  label: SectionLabeler,
+): { messages: ChatMessage[] } | { error: string } => {
+  const byId = Object.fromEntries(
+    state.variables.map((variable) => [variable.id, testCase.values[variable.name] ?? ""]),
+  );
+  const resolved = resolveVariableValues(state.variables, byId);
+  if (resolved.issues.length > 0) {
+    return { error: resolved.issues.map((issue) => `${issue.path} ${issue.message}`).join(" ") };
+  }
+  return { messages: compileChatMessages(renderPromptState(state, resolved.values).state, target, label) };
+};
+
+const parseJsonOutput = (output: string) => {
+  const fenced = output.match(/^\s*```(?:json)?\s*\n([\s\S]*?)```\s*$/i);
+  return JSON.parse(fenced ? fenced[1] : output);
+};
+
+const compileRegex = (source: string) => {
+  // Accept both `pattern` and `/pattern/flags`.
+  const literal = source.match(/^\/([\s\S]*)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+};
+
+/** Checks assertions that can be decided locally; `rubric` needs a grader and is handled by the runner. */
+export const checkAssertion = (assertion: TestAssertion, output: string): AssertionResult => {
+  const result = (passed: boolean, message: string) => ({
+    assertionId: assertion.id,
+    kind: assertion.kind,
+    passed,
+    message,
+  });
+
+  // An empty needle, pattern or rubric says nothing about the output; `includes("")` is always true.
+  if (!assertion.value.trim() && assertion.kind !== "json") {
+    return result(false, `"${assertionKindLabels[assertion.kind]}" needs a value.`);
+  }
+
+  switch (assertion.kind) {
+    case "contains":
+      return output.includes(assertion.value)
+        ? result(true, `Contains "${assertion.value}".`)
+        : result(false, `Expected the output to contain "${assertion.value}".`);
+    case "notContains":
+      return output.includes(assertion.value)
+        ? result(false, `Expected the output not to contain "${assertion.value}".`)
+        : result(true, `Does not contain "${assertion.value}".`);
+    case "regex": {
+      let pattern: RegExp;
+      try {
+        pattern = compileRegex(assertion.value);
+      } catch (error) {
+        return result(false, `Invalid regex: ${(error as Error).message}`);
+      }
+      return pattern.test(output)
+        ? result(true, `Matches ${pattern}.`)
+        : result(false, `Expected the output to match ${pattern}.`);
+    }
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = parseJsonOutput(output);
+      } catch (error) {
+        return result(false, `Output is not valid JSON: ${(error as Error).message}`);
+      }
+      if (!assertion.value.trim()) return result(true, "Output is valid JSON.");
+      const schema = parseJsonSchema(assertion.value);
+      if ("error" in schema) return result(false, schema.error);
+      const errors = validateJsonSchema(parsed, schema.schema);
+      return errors.length === 0
+        ? result(true, "Output matches the JSON Schema.")
+        : result(false, errors.join(" "));
+    }
+    case "maxLength": {
+      const limit = Number(assertion.value);
+      if (!Number.isFinite(limit)) {
+        return result(false, `Max length "${assertion.value}" is not a number.`);
+      }
+      return output.length <= limit
+        ? result(true, `${output.length} of ${limit} characters.`)
+        : result(false, `Output has ${output.length} characters; the limit is ${limit}.`);
+    }
+    case "rubric":
+      return result(false, "Rubric assertions need a grader.");
+  }
+};
+
+export const buildRubricMessages = (rubric: string, output: string): ChatMessage[] => [
+  {
+    role: "system",
+    content:
+      'You grade model outputs against a rubric. Respond with a single JSON object and nothing else: { "pass": boolean, "reason": "string – one sentence" }.',
+  },
+  { role: "user", content: `RUBRIC:\n${rubric}\n\nOUTPUT TO GRADE:\n${output}` },
+];
+
+export const parseRubricVerdict = (content: string | undefined) => {
+  const verdict = extractJsonObject(content);
+  if (typeof verdict?.pass !== "boolean") return undefined;
+  return { pass: verdict.pass, reason: typeof verdict.reason === "string" ? verdict.reason : "" };
+};
+
+export type SuiteRunOptions = {
+  state: PromptState;
+  target: CompileTargetId;
+  label: SectionLabeler;
+  /** Provider settings shared by the cases and the rubric grader. */
+  request: Omit<RunRequest, "messages">;
+  signal?: AbortSignal;
+  onProgress?: (result: CaseResult, index: number) => void;
+};
+
+const runCase = async (testCase: TestCase, options: SuiteRunOptions): Promise<CaseResult> => {
+  const base = { caseId: testCase.id, name: testCase.name, assertions: [] };
+  // A case that checks nothing would always pass; fail it before spending a model call.
+  if (testCase.assertions.length === 0) {
+    return { ...base, passed: false, error: "Add at least one assertion to this case." };
+  }
+  const rendered = renderTestCase(options.state, testCase, options.target, options.label);
+  if ("error" in rendered) return { ...base, passed: false, error: rendered.error };
+
+  const response = await executePromptRun({ ...options.request, messages: rendered.messages }, options.signal);
+  if (response.error !== undefined) return { ...base, passed: false, error: response.error };
+
+  const output = response.content ?? "";
+  const assertions: AssertionResult[] = [];
+  for (const assertion of testCase.assertions) {
+    if (assertion.kind !== "rubric" || !assertion.value.trim()) {
+      assertions.push(checkAssertion(assertion, output));
+      continue;
+    }
+    // Graded at temperature 0 so re-runs only change when the output does.
+    const graded = await executePromptRun(
+      { ...options.request, temperature: 0, messages: buildRubricMessages(assertion.value, output) },
+      options.signal,
+    );
+    const verdict = parseRubricVerdict(graded.content);
+    assertions.push({
+      assertionId: assertion.id,
+      kind: "rubric",
+      passed: verdict?.pass ?? false,
+      message: graded.error ?? verdict?.reason ?? "The grader did not return a verdict.",
+    });
+  }
+
+  return {
+    ...base,
+    passed: assertions.every((assertion) => assertion.passed),
+    output,
+    latencyMs: response.latencyMs,
+    assertions,
+  };
+};
+
+/** Runs the cases one at a time so provider rate limits apply to the suite as a whole. */
+export const runTestSuite = async (
+  cases: TestCase[],
+  options: SuiteRunOptions,
+  versionLabel: string,
+): Promise<TestReport> => {
+  const results: CaseResult[] = [];
+  for (const [index, testCase] of cases.entries()) {
+    const result = await runCase(testCase, options);
+    results.push(result);
+    options.onProgress?.(result, index);
+  }
+  return {
+    id: createId(),
+    createdAt: new Date().toISOString(),
+    versionLabel,
+    model: options.request.model,
+    results,
+  };
+};
+
+/** How each case in `current` moved relative to the previous report. */
+export const compareReports = (current: TestReport, previous?: TestReport): Record<string, CaseRegression> => {
+  const before = new Map(previous?.results.map((result) => [result.caseId, result.passed]));
+  return Object.fromEntries(
+    current.results.map((result) => {
+      const passedBefore = before.get(result.caseId);
+      if (passedBefore === undefined) return [result.caseId, "new"];
+      if (passedBefore && !result.passed) return [result.caseId, "regressed"];
+      if (!passedBefore && result.passed) return [result.caseId, "fixed"];
+      return [result.caseId, "unchanged"];
+    }),
+  );
+};
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { validatePromptState } from "@/lib/prompt-schema";
+import {
+  migratePromptDocument,
+  parsePromptDocument,
+  PROMPT_DOCUMENT_FORMAT,
+  PROMPT_SCHEMA_VERSION,
+  restorePromptState,
+  serializePromptDocument,
+} from "@/lib/prompt-transfer";
+import type { PromptState } from "@/lib/prompt-types";
+
+const sampleState = (): PromptState => {
+  const result = validatePromptState({
+    projectTitle: "Refund reply",
+    coreObjective: "Answer refund requests.\n\nKeep it short.",
+    toneTraits: ["Warm"],
+    workflow: [{ id: "a", title: "Read", instruction: "Read the ticket", expectedOutput: "" }],
+    variables: [{ id: "v", name: "ORDER_ID", description: "The order", type: "string", required: true }],
+  });
+  assert.ok(result.ok);
+  return result.value;
+};
+
+describe("migratePromptDocument", () => {
+  it("wraps a bare v0 prompt and upgrades its variables", () => {
+    const migrated = migratePromptDocument({
+      coreObjective: "x",
+      variables: [{ name: "NOTES", example: "line one\nline two" }, { name: "TOPIC" }],
+    });
+    assert.ok(!("error" in migrated));
+    assert.equal(migrated.from, 0);
+    assert.equal(migrated.document.format, PROMPT_DOCUMENT_FORMAT);
+    assert.equal(migrated.document.schemaVersion, PROMPT_SCHEMA_VERSION);
+    const prompt = migrated.document.prompt as { variables: Array<Record<string, unknown>> };
+    assert.deepEqual(
+      prompt.variables.map(({ type, required }) => ({ type, required })),
+      [
+        { type: "text", required: false },
+        { type: "string", required: false },
+      ],
+    );
+  });
+
+  it("keeps fields a v1 variable already had", () => {
+    const migrated = migratePromptDocument({
+      format: PROMPT_DOCUMENT_FORMAT,
+      schemaVersion: 1,
+      prompt: { variables: [{ name: "TOPIC", type: "enum", required: true }] },
+    });
+    assert.ok(!("error" in migrated));
+    const prompt = migrated.document.prompt as { variables: Array<Record<string, unknown>> };
+    assert.equal(prompt.variables[0].type, "enum");
+    assert.equal(prompt.variables[0].required, true);
+  });
+
+  it("rejects newer versions and foreign formats", () => {
+    const newer = migratePromptDocument({
+      format: PROMPT_DOCUMENT_FORMAT,
+      schemaVersion: PROMPT_SCHEMA_VERSION + 1,
+    });
+    assert.ok("error" in newer && newer.error.path === "schemaVersion");
+    const foreign = migratePromptDocument({ format: "other/tool", schemaVersion: 1, prompt: {} });
+    assert.ok("error" in foreign && foreign.error.path === "format");
+    const invalid = migratePromptDocument({ format: PROMPT_DOCUMENT_FORMAT, schemaVersion: "two" });
+    assert.ok("error" in invalid && invalid.error.path === "schemaVersion");
+  });
+});
+
+describe("serializePromptDocument / parsePromptDocument", () => {
+  (["json", "yaml"] as const).forEach((format) => {
+    it(`round-trips a prompt as ${format}`, () => {
+      const state = sampleState();
+      const result = parsePromptDocument(
+        serializePromptDocument(state, format, "Refunds"),
+        `refunds.${format}`,
+      );
+      assert.ok(result.ok);
+      assert.deepEqual(result.state, state);
+      assert.equal(result.name, "Refunds");
+      assert.equal(result.migratedFrom, undefined);
+    });
+  });
+
+  it("reports the version an older file was migrated from", () => {
+    const result = parsePromptDocument(JSON.stringify({ coreObjective: "Legacy" }), "legacy.json");
+    assert.ok(result.ok);
+    assert.equal(result.migratedFrom, 0);
+    assert.equal(result.state.coreObjective, "Legacy");
+  });
+
+  it("returns parse errors instead of throwing", () => {
+    const json = parsePromptDocument("{ broken", "broken.json");
+    assert.equal(json.ok, false);
+    const yaml = parsePromptDocument("a:\n\tb: 1", "broken.yaml");
+    assert.equal(yaml.ok, false);
+  });
+});
+
+describe("restorePromptState", () => {
+  it("keeps a current state as it was stored", () => {
+    const state = sampleState();
+    const result = restorePromptState(JSON.parse(JSON.stringify(state)));
+    assert.ok(result.ok);
+    assert.deepEqual(result.value, state);
+  });
+
+  it("migrates pre-typed variables and rejects corrupt states", () => {
+    const legacy = restorePromptState({ coreObjective: "x", variables: [{ id: "v", name: "NOTES" }] });
+    assert.ok(legacy.ok);
+    assert.equal((legacy.value.variables[0] as { type?: string }).type, "string");
+
+    assert.equal(restorePromptState({ workflow: "not a list", variables: [] }).ok, false);
+    assert.equal(restorePromptState(null).ok, false);
+  });
+});
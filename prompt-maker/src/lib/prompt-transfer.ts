@@ -0,0 +1,179 @@
+import {
+  isRecord,
+  validatePromptState,
+  type ValidationIssue,
+  type ValidationResult,
+} from "@/lib/prompt-schema";
+import type { PromptState } from "@/lib/prompt-types";
+import { parseYaml, stringifyYaml, YamlError } from "@/lib/yaml";
+
+export const PROMPT_DOCUMENT_FORMAT = "prompt-maker/prompt";
+export const PROMPT_SCHEMA_VERSION = 2;
+
+export type TransferFormat = "json" | "yaml";
+
+export type PromptDocument = {
+  format: typeof PROMPT_DOCUMENT_FORMAT;
+  schemaVersion: number;
+  name?: string;
+  exportedAt: string;
+  prompt: PromptState;
+};
+
+export type ImportResult =
+  | {
+      ok: true;
+      state: PromptState;
+      name?: string;
+      /** Schema version of the file before migration, when it was older than the current one. */
+      migratedFrom?: number;
+      warnings: ValidationIssue[];
+    }
+  | { ok: false; errors: ValidationIssue[]; warnings: ValidationIssue[] };
+
+/**
+ * Each entry upgrades a document from `version` to `version + 1`. Documents are plain parsed
+ * data at this point; validation only runs once the latest shape is reached.
+ */
+const migrations: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0: a bare PromptState object without the document envelope.
+  0: (document) => ({
+    format: PROMPT_DOCUMENT_FORMAT,
+    schemaVersion: 1,
+    prompt: document,
+  }),
+  // v1 → v2: variables gained a type, required flag, default and constraints.
+  1: (document) => {
+    const prompt = isRecord(document.prompt) ? document.prompt : undefined;
+    if (!prompt || !Array.isArray(prompt.variables)) return { ...document, schemaVersion: 2 };
+    return {
+      ...document,
+      schemaVersion: 2,
+      prompt: {
+        ...prompt,
+        variables: prompt.variables.map((variable) =>
+          isRecord(variable)
+            ? {
+                type: typeof variable.example === "string" && variable.example.includes("\n") ? "text" : "string",
+                required: false,
+                ...variable,
+              }
+            : variable,
+        ),
+      },
+    };
+  },
+};
+
+const detectSchemaVersion = (document: Record<string, unknown>) => {
+  if (document.format === undefined && document.schemaVersion === undefined && !("prompt" in document)) {
+    return 0;
+  }
+  return document.schemaVersion;
+};
+
+export const migratePromptDocument = (
+  input: Record<string, unknown>,
+): { document: Record<string, unknown>; from: number } | { error: ValidationIssue } => {
+  const from = detectSchemaVersion(input);
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 0) {
+    return { error: { path: "schemaVersion", message: "Missing or invalid schema version." } };
+  }
+  if (from > PROMPT_SCHEMA_VERSION) {
+    return {
+      error: {
+        path: "schemaVersion",
+        message: `Schema version ${from} is newer than this studio supports (${PROMPT_SCHEMA_VERSION}).`,
+      },
+    };
+  }
+  if (input.format !== undefined && input.format !== PROMPT_DOCUMENT_FORMAT) {
+    return { error: { path: "format", message: `Unrecognized document format "${String(input.format)}".` } };
+  }
+
+  let document = input;
+  for (let version = from; version < PROMPT_SCHEMA_VERSION; version += 1) {
+    document = migrations[version](document);
+  }
+  return { document, from };
+};
+
+export const detectTransferFormat = (text: string, filename?: string): TransferFormat => {
+  if (filename && /\.ya?ml$/i.test(filename)) return "yaml";
+  if (filename && /\.json$/i.test(filename)) return "json";
+  return /^\s*[{[]/.test(text) ? "json" : "yaml";
+};
+
+export const parseStructuredText = (
+  text: string,
+  format: TransferFormat,
+): { ok: true; data: unknown } | { ok: false; error: ValidationIssue } => {
+  try {
+    return { ok: true, data: format === "json" ? JSON.parse(text) : parseYaml(text) };
+  } catch (error) {
+    const message =
+      error instanceof YamlError || error instanceof SyntaxError ? error.message : "Unreadable file contents.";
+    return { ok: false, error: { path: "(file)", message: `Invalid ${format.toUpperCase()}: ${message}` } };
+  }
+};
+
+export const serializePromptDocument = (
+  state: PromptState,
+  format: TransferFormat,
+  name?: string,
+): string => {
+  const document: PromptDocument = {
+    format: PROMPT_DOCUMENT_FORMAT,
+    schemaVersion: PROMPT_SCHEMA_VERSION,
+    name: name?.trim() || state.projectTitle.trim() || undefined,
+    exportedAt: new Date().toISOString(),
+    prompt: state,
+  };
+
+  return format === "json" ? `${JSON.stringify(document, null, 2)}\n` : stringifyYaml(document);
+};
+
+export const parsePromptDocument = (text: string, filename?: string): ImportResult => {
+  const parsed = parseStructuredText(text, detectTransferFormat(text, filename));
+  if (!parsed.ok) return { ok: false, errors: [parsed.error], warnings: [] };
+  if (!isRecord(parsed.data)) {
+    return { ok: false, errors: [{ path: "(file)", message: "Expected a prompt document object." }], warnings: [] };
+  }
+
+  const migrated = migratePromptDocument(parsed.data);
+  if ("error" in migrated) return { ok: false, errors: [migrated.error], warnings: [] };
+
+  const { document, from } = migrated;
+  const validation = validatePromptState(document.prompt);
+  if (!validation.ok) return validation;
+
+  return {
+    ok: true,
+    state: validation.value,
+    name: typeof document.name === "string" ? document.name : undefined,
+    migratedFrom: from < PROMPT_SCHEMA_VERSION ? from : undefined,
+    warnings: validation.warnings,
+  };
+};
+
+/**
+ * A prompt from browser storage (library, versions, autosave), which holds bare states. They go
+ * through the same migrations and validation as imported files, so old or hand-edited data
+ * cannot reach the workspace unchecked.
+ */
+export const restorePromptState = (value: unknown): ValidationResult<PromptState> => {
+  if (!isRecord(value)) return validatePromptState(value);
+  const migrated = migratePromptDocument(value);
+  if ("error" in migrated) return { ok: false, errors: [migrated.error], warnings: [] };
+  return validatePromptState(migrated.document.prompt);
+};
+
+/** Filesystem-safe base name from the saved name or project title. */
+export const promptFileBase = (state: PromptState, name?: string) =>
+  (name || state.projectTitle || "prompt")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "prompt";
+
+export const exportFilename = (state: PromptState, format: TransferFormat, name?: string) =>
+  `${promptFileBase(state, name)}.prompt.${format === "json" ? "json" : "yaml"}`;
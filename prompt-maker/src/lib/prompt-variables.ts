@@ -0,0 +1,250 @@
+import { parseJsonSchema, validateJsonSchema } from "@/lib/json-schema";
+import type { ValidationIssue } from "@/lib/prompt-schema";
+import type { PromptState, PromptVariable } from "@/lib/prompt-types";
+import type { WorkflowNode } from "@/lib/workflow-graph";
+
+export const VARIABLE_TYPES = ["string", "text", "number", "enum", "boolean", "json"] as const;
+
+export type VariableType = (typeof VARIABLE_TYPES)[number];
+
+export const variableTypeLabels: Record<VariableType, string> = {
+  string: "Single line",
+  text: "Multiline text",
+  number: "Number",
+  enum: "Choice",
+  boolean: "Yes / No",
+  json: "JSON",
+};
+
+export type VariableConstraints = {
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression source the whole value must match. */
+  pattern?: string;
+  min?: number;
+  max?: number;
+  /** Allowed values for `enum` variables. */
+  options?: string[];
+  /** JSON Schema (as text) for `json` variables. */
+  schema?: string;
+};
+
+/**
+ * A `PromptVariable` with its typed definition. The extra fields are optional so prompts saved
+ * before typed variables existed keep working: an untyped variable is an optional single line.
+ */
+export type VariableDefinition = PromptVariable & {
+  type?: VariableType;
+  required?: boolean;
+  /** Used when no value is supplied. Stored as text like every other value. */
+  defaultValue?: string;
+  constraints?: VariableConstraints;
+};
+
+/** Test values typed into the preview panel, keyed by variable id so renames keep their value. */
+export type VariableValues = Record<string, string>;
+
+export const placeholderPattern = () => /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Variable names are UPPER_SNAKE_CASE so they always match `placeholderPattern`. */
+export const normalizeVariableName = (name: string) =>
+  name
+    .replace(/\s+/g, "_")
+    .toUpperCase()
+    .replace(/[^A-Z0-9_]/g, "");
+
+const compilePattern = (pattern: string) => {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "u");
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Checks a value against a definition and returns it in canonical form (trimmed numbers,
+ * `true`/`false` booleans, compact JSON). Empty values are handled by the caller.
+ */
+export const validateVariableValue = (
+  definition: VariableDefinition,
+  raw: string,
+): { value: string; errors: string[] } => {
+  const constraints = definition.constraints ?? {};
+  const errors: string[] = [];
+  let value = raw;
+
+  switch (definition.type ?? "string") {
+    case "string":
+    case "text": {
+      if (definition.type !== "text" && /[\r\n]/.test(raw)) {
+        errors.push("must be a single line.");
+      }
+      if (constraints.minLength !== undefined && raw.length < constraints.minLength) {
+        errors.push(`must be at least ${constraints.minLength} characters (has ${raw.length}).`);
+      }
+      if (constraints.maxLength !== undefined && raw.length > constraints.maxLength) {
+        errors.push(`must be at most ${constraints.maxLength} characters (has ${raw.length}).`);
+      }
+      const pattern = constraints.pattern ? compilePattern(constraints.pattern) : undefined;
+      if (pattern && !pattern.test(raw)) {
+        errors.push(`must match /${constraints.pattern}/.`);
+      }
+      break;
+    }
+    case "number": {
+      const number = Number(raw.trim());
+      if (!raw.trim() || !Number.isFinite(number)) {
+        errors.push(`must be a number, received "${raw}".`);
+        break;
+      }
+      if (constraints.min !== undefined && number < constraints.min) {
+        errors.push(`must be ≥ ${constraints.min}.`);
+      }
+      if (constraints.max !== undefined && number > constraints.max) {
+        errors.push(`must be ≤ ${constraints.max}.`);
+      }
+      value = String(number);
+      break;
+    }
+    case "enum": {
+      const options = constraints.options ?? [];
+      if (options.length === 0) {
+        errors.push("has no allowed values.");
+      } else if (!options.includes(raw)) {
+        errors.push(`must be one of ${options.map((option) => `"${option}"`).join(", ")}.`);
+      }
+      break;
+    }
+    case "boolean": {
+      const normalized = raw.trim().toLowerCase();
+      if (/^(true|yes|1|on)$/.test(normalized)) {
+        value = "true";
+      } else if (/^(false|no|0|off)$/.test(normalized)) {
+        value = "false";
+      } else {
+        errors.push(`must be true or false, received "${raw}".`);
+      }
+      break;
+    }
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (error) {
+        errors.push(`is not valid JSON: ${(error as Error).message}`);
+        break;
+      }
+      if (constraints.schema?.trim()) {
+        const schema = parseJsonSchema(constraints.schema);
+        if ("schema" in schema) errors.push(...validateJsonSchema(parsed, schema.schema));
+      }
+      value = JSON.stringify(parsed);
+      break;
+    }
+  }
+
+  return { value, errors };
+};
+
+/** Problems with the definition itself, e.g. an enum without options or an invalid regex. */
+export const checkVariableDefinition = (definition: VariableDefinition): string[] => {
+  const constraints = definition.constraints ?? {};
+  const problems: string[] = [];
+
+  if (!definition.name) problems.push("Name is required.");
+  if (definition.type === "enum" && !constraints.options?.length) {
+    problems.push("Choice variables need at least one allowed value.");
+  }
+  if (constraints.pattern && !compilePattern(constraints.pattern)) {
+    problems.push(`Pattern /${constraints.pattern}/ is not a valid regular expression.`);
+  }
+  if (constraints.schema?.trim()) {
+    const schema = parseJsonSchema(constraints.schema);
+    if ("error" in schema) problems.push(schema.error);
+  }
+  if (constraints.min !== undefined && constraints.max !== undefined && constraints.min > constraints.max) {
+    problems.push("Minimum is greater than maximum.");
+  }
+  if (
+    constraints.minLength !== undefined &&
+    constraints.maxLength !== undefined &&
+    constraints.minLength > constraints.maxLength
+  ) {
+    problems.push("Minimum length is greater than maximum length.");
+  }
+  if (definition.defaultValue) {
+    validateVariableValue(definition, definition.defaultValue).errors.forEach((error) =>
+      problems.push(`Default value ${error}`),
+    );
+  }
+
+  return problems;
+};
+
+/**
+ * Resolves the value of every declared variable: the test value (pre-filled from `example`),
+ * else the default. Invalid values are reported and left out so their placeholders stay visible.
+ */
+export const resolveVariableValues = (variables: VariableDefinition[], values: VariableValues) => {
+  const resolved: Record<string, string> = {};
+  const issues: ValidationIssue[] = [];
+
+  variables.forEach((variable) => {
+    if (!variable.name) return;
+    const supplied = values[variable.id] ?? variable.example ?? "";
+    const raw = supplied.trim() ? supplied : (variable.defaultValue ?? "");
+
+    if (!raw.trim()) {
+      if (variable.required) issues.push({ path: variable.name, message: "is required." });
+      return;
+    }
+
+    const { value, errors } = validateVariableValue(variable, raw);
+    if (errors.length > 0) {
+      errors.forEach((message) => issues.push({ path: variable.name, message }));
+      return;
+    }
+    resolved[variable.name] = value;
+  });
+
+  return { values: resolved, issues };
+};
+
+/** Replaces `{{NAME}}` placeholders that have a non-empty value; the rest are left in place. */
+export const substitutePlaceholders = (text: string, values: Record<string, string>, unresolved?: Set<string>) =>
+  text.replace(placeholderPattern(), (match, name: string) => {
+    const value = values[name];
+    if (value) return value;
+    unresolved?.add(name);
+    return match;
+  });
+
+/**
+ * Substitutes placeholders in every text section, chip and workflow stage. Variable declarations
+ * themselves are kept as-is so the compiled glossary still documents the template.
+ */
+export const renderPromptState = (state: PromptState, values: Record<string, string>) => {
+  const unresolved = new Set<string>();
+  const render = (text: string) => substitutePlaceholders(text, values, unresolved);
+  const rendered: PromptState = { ...state };
+
+  (Object.keys(state) as Array<keyof PromptState>).forEach((key) => {
+    const value = state[key];
+    if (typeof value === "string") {
+      Object.assign(rendered, { [key]: render(value) });
+    } else if (key !== "variables" && key !== "workflow" && Array.isArray(value)) {
+      Object.assign(rendered, { [key]: (value as string[]).map(render) });
+    }
+  });
+  rendered.workflow = state.workflow.map((stage: WorkflowNode) => ({
+    ...stage,
+    title: render(stage.title),
+    instruction: render(stage.instruction),
+    expectedOutput: render(stage.expectedOutput),
+    ...(stage.next && {
+      next: stage.next.map((edge) => ({ ...edge, condition: edge.condition && render(edge.condition) })),
+    }),
+  }));
+
+  return { state: rendered, unresolved: [...unresolved] };
+};
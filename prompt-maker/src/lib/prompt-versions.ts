@@ -0,0 +1,123 @@
+import { createId } from "@/lib/prompt-library";
+import type { PromptState, PromptVariable, WorkflowStage } from "@/lib/prompt-types";
+
+export type PromptVersion = {
+  id: string;
+  message: string;
+  /** Quality Radar total at commit time. */
+  score: number;
+  state: PromptState;
+  createdAt: string;
+};
+
+export type TextFieldChange = {
+  key: keyof PromptState;
+  before: string;
+  after: string;
+};
+
+export type ListFieldChange = {
+  key: keyof PromptState;
+  added: string[];
+  removed: string[];
+  reordered: boolean;
+};
+
+export type EntryChange<T> = {
+  id: string;
+  status: "added" | "removed" | "changed" | "moved";
+  before?: T;
+  after?: T;
+  /** Fields whose value differs, for "changed" entries. */
+  fields: Array<keyof T>;
+};
+
+export type PromptStateDiff = {
+  text: TextFieldChange[];
+  lists: ListFieldChange[];
+  workflow: EntryChange<WorkflowStage>[];
+  variables: EntryChange<PromptVariable>[];
+};
+
+export const createPromptVersion = (state: PromptState, message: string, score: number): PromptVersion => ({
+  id: createId(),
+  message: message.trim() || "Untitled version",
+  score,
+  state: structuredClone(state),
+  createdAt: new Date().toISOString(),
+});
+
+const diffEntries = <T extends { id: string }>(before: T[], after: T[]): EntryChange<T>[] => {
+  const changes: EntryChange<T>[] = [];
+  const beforeIndex = new Map(before.map((entry, index) => [entry.id, index]));
+  const afterIds = new Set(after.map((entry) => entry.id));
+
+  after.forEach((entry, index) => {
+    const previousIndex = beforeIndex.get(entry.id);
+    if (previousIndex === undefined) {
+      changes.push({ id: entry.id, status: "added", after: entry, fields: [] });
+      return;
+    }
+
+    const previous = before[previousIndex];
+    const keys = new Set([...Object.keys(previous), ...Object.keys(entry)]) as Set<keyof T>;
+    const fields = [...keys].filter(
+      (key) => key !== "id" && JSON.stringify(previous[key]) !== JSON.stringify(entry[key]),
+    );
+
+    if (fields.length > 0) {
+      changes.push({ id: entry.id, status: "changed", before: previous, after: entry, fields });
+    } else if (previousIndex !== index) {
+      changes.push({ id: entry.id, status: "moved", before: previous, after: entry, fields: [] });
+    }
+  });
+
+  before
+    .filter((entry) => !afterIds.has(entry.id))
+    .forEach((entry) => changes.push({ id: entry.id, status: "removed", before: entry, fields: [] }));
+
+  return changes;
+};
+
+export const diffPromptStates = (before: PromptState, after: PromptState): PromptStateDiff => {
+  const diff: PromptStateDiff = {
+    text: [],
+    lists: [],
+    workflow: diffEntries(before.workflow, after.workflow),
+    variables: diffEntries(before.variables, after.variables),
+  };
+
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof PromptState>;
+  keys.forEach((key) => {
+    if (key === "workflow" || key === "variables") return;
+    const previous: unknown = before[key];
+    const next: unknown = after[key];
+
+    if (Array.isArray(previous) || Array.isArray(next)) {
+      const left = (Array.isArray(previous) ? previous : []) as string[];
+      const right = (Array.isArray(next) ? next : []) as string[];
+      const added = right.filter((item) => !left.includes(item));
+      const removed = left.filter((item) => !right.includes(item));
+      const reordered =
+        added.length === 0 && removed.length === 0 && left.join("\u0000") !== right.join("\u0000");
+      if (added.length || removed.length || reordered) {
+        diff.lists.push({ key, added, removed, reordered });
+      }
+      return;
+    }
+
+    const left = typeof previous === "string" ? previous : "";
+    const right = typeof next === "string" ? next : "";
+    if (left !== right) {
+      diff.text.push({ key, before: left, after: right });
+    }
+  });
+
+  return diff;
+};
+
+export const isEmptyDiff = (diff: PromptStateDiff) =>
+  diff.text.length === 0 &&
+  diff.lists.length === 0 &&
+  diff.workflow.length === 0 &&
+  diff.variables.length === 0;
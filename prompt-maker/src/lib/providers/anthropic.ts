@@ -0,0 +1,107 @@
+import { mapProviderError } from "./shared";
+import type { ChatMessage, ProviderAdapter, ProviderConnection, TokenUsage } from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+
+const anthropicHeaders = (apiKey?: string) => ({
+  "Content-Type": "application/json",
+  "x-api-key": apiKey ?? "",
+  "anthropic-version": ANTHROPIC_VERSION,
+});
+
+// The Messages API takes the system prompt separately from the conversation turns.
+const toAnthropicMessages = (messages: ChatMessage[]) => {
+  const system = messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+  return {
+    ...(system ? { system } : {}),
+    messages: messages
+      .filter((message) => message.role !== "system")
+      .map(({ role, content }) => ({ role, content })),
+  };
+};
+
+type AnthropicUsage = { input_tokens?: number; output_tokens?: number };
+
+const toUsage = (usage: AnthropicUsage | undefined): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } : undefined;
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  defaultModel: "claude-3-5-haiku-latest",
+  supportsJsonMode: false,
+  requiresApiKey: true,
+  configFields: [],
+  buildRequest: ({ model, temperature, messages, stream, maxTokens }, { apiKey }) => ({
+    url: "https://api.anthropic.com/v1/messages",
+    init: {
+      headers: anthropicHeaders(apiKey),
+      body: JSON.stringify({
+        model,
+        temperature: Math.min(temperature, 1),
+        max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...toAnthropicMessages(messages),
+        ...(stream ? { stream: true } : {}),
+      }),
+    },
+  }),
+  parseResponse: (data) => {
+    const payload = data as { content?: Array<{ type: string; text?: string }>; usage?: AnthropicUsage };
+    const text = payload?.content
+      ?.filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+    return { content: text || undefined, usage: toUsage(payload?.usage) };
+  },
+  parseStreamEvent: ({ event, data }) => {
+    let payload: {
+      delta?: { type?: string; text?: string };
+      message?: { usage?: AnthropicUsage };
+      usage?: AnthropicUsage;
+      error?: { message?: string };
+    };
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      return {};
+    }
+
+    switch (event) {
+      case "message_start":
+        return { usage: toUsage(payload.message?.usage) };
+      case "content_block_delta":
+        return payload.delta?.type === "text_delta" ? { delta: payload.delta.text } : {};
+      case "message_delta":
+        return { usage: toUsage(payload.usage) };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        return { error: payload.error?.message ?? "Anthropic reported a stream error." };
+      default:
+        return {};
+    }
+  },
+  mapError: mapProviderError,
+};
+
+/** The count-tokens endpoint takes the same model and messages as a call and returns the exact input size. */
+export const buildAnthropicTokenCountRequest = (
+  model: string,
+  messages: ChatMessage[],
+  { apiKey }: ProviderConnection,
+) => ({
+  url: "https://api.anthropic.com/v1/messages/count_tokens",
+  init: {
+    headers: anthropicHeaders(apiKey),
+    body: JSON.stringify({ model, ...toAnthropicMessages(messages) }),
+  },
+});
+
+export const parseAnthropicTokenCount = (data: unknown) => {
+  const count = (data as { input_tokens?: unknown })?.input_tokens;
+  return typeof count === "number" ? count : undefined;
+};
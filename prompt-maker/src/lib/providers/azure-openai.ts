@@ -0,0 +1,44 @@
+import { joinUrl, mapProviderError, parseOpenAIResponse, parseOpenAIStreamEvent } from "./shared";
+import type { ProviderAdapter } from "./types";
+
+const DEFAULT_API_VERSION = "2024-10-21";
+
+/** Azure routes by deployment name, so the studio's "model" field holds the deployment. */
+export const azureOpenAIAdapter: ProviderAdapter = {
+  id: "azure-openai",
+  label: "Azure OpenAI",
+  defaultModel: "gpt-4o-mini",
+  modelLabel: "Deployment",
+  supportsJsonMode: true,
+  requiresApiKey: true,
+  configFields: ["baseUrl", "apiVersion"],
+  defaults: { apiVersion: DEFAULT_API_VERSION },
+  placeholders: { baseUrl: "https://<resource>.openai.azure.com" },
+  allowedHosts: ["openai.azure.com", "cognitiveservices.azure.com"],
+  buildRequest: ({ model, temperature, messages, stream, maxTokens, responseFormat }, { apiKey, baseUrl, apiVersion }) => {
+    if (!baseUrl) throw new Error("Azure OpenAI requires the resource endpoint URL.");
+
+    const url = new URL(joinUrl(baseUrl, `openai/deployments/${encodeURIComponent(model)}/chat/completions`));
+    url.searchParams.set("api-version", apiVersion || DEFAULT_API_VERSION);
+
+    return {
+      url: url.toString(),
+      init: {
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": apiKey ?? "",
+        },
+        body: JSON.stringify({
+          temperature,
+          messages,
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+          ...(responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+          ...(stream ? { stream: true } : {}),
+        }),
+      },
+    };
+  },
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  mapError: mapProviderError,
+};
@@ -0,0 +1,178 @@
+import { readFile, stat } from "node:fs/promises";
+
+import { isRecord } from "@/lib/prompt-schema";
+import { parseYaml } from "@/lib/yaml";
+
+import { checkClientBaseUrl } from "./endpoints";
+import type { ProviderAdapter, ProviderAvailability, ProviderConnection } from "./types";
+
+/**
+ * Server-side credential resolution. Keys come from per-provider environment variables or
+ * from the file named by `PROMPT_MAKER_PROVIDER_CONFIG` (JSON or YAML):
+ *
+ *   allowClientKeys: false
+ *   providers:
+ *     openai:
+ *       apiKey: sk-...
+ *     azure-openai:
+ *       apiKey: ...
+ *       baseUrl: https://my-resource.openai.azure.com
+ *
+ * Environment variables win over the file. Client-supplied keys ("bring your own key") stay
+ * enabled unless `PROMPT_MAKER_ALLOW_CLIENT_KEYS=false` or the file sets `allowClientKeys: false`.
+ * A config file that is set but cannot be read disables them too, rather than guessing.
+ */
+
+const ENV_VARIABLES: Record<string, Partial<Record<keyof ProviderConnection, string>>> = {
+  openai: { apiKey: "OPENAI_API_KEY" },
+  anthropic: { apiKey: "ANTHROPIC_API_KEY" },
+  openrouter: { apiKey: "OPENROUTER_API_KEY" },
+  "azure-openai": {
+    apiKey: "AZURE_OPENAI_API_KEY",
+    baseUrl: "AZURE_OPENAI_ENDPOINT",
+    apiVersion: "AZURE_OPENAI_API_VERSION",
+  },
+  "openai-compatible": { apiKey: "OPENAI_COMPATIBLE_API_KEY", baseUrl: "OPENAI_COMPATIBLE_BASE_URL" },
+};
+
+type ServerProviderConfig = {
+  allowClientKeys?: boolean;
+  providers: Record<string, ProviderConnection>;
+  /** The config file is set but could not be loaded. */
+  unreadable?: boolean;
+};
+
+let cachedFile: { path: string; mtimeMs: number; config: ServerProviderConfig } | undefined;
+
+const readConfigFile = async (): Promise<ServerProviderConfig> => {
+  const path = process.env.PROMPT_MAKER_PROVIDER_CONFIG;
+  if (!path) return { providers: {} };
+
+  try {
+    const { mtimeMs } = await stat(path);
+    if (cachedFile?.path === path && cachedFile.mtimeMs === mtimeMs) return cachedFile.config;
+
+    const text = await readFile(path, "utf8");
+    const data: unknown = /\.json$/i.test(path) ? JSON.parse(text) : parseYaml(text);
+    const providers: Record<string, ProviderConnection> = {};
+
+    if (isRecord(data) && isRecord(data.providers)) {
+      Object.entries(data.providers).forEach(([id, entry]) => {
+        if (!isRecord(entry)) return;
+        providers[id] = {
+          apiKey: typeof entry.apiKey === "string" ? entry.apiKey : undefined,
+          baseUrl: typeof entry.baseUrl === "string" ? entry.baseUrl : undefined,
+          apiVersion: typeof entry.apiVersion === "string" ? entry.apiVersion : undefined,
+        };
+      });
+    }
+
+    const config: ServerProviderConfig = {
+      allowClientKeys: isRecord(data) && typeof data.allowClientKeys === "boolean" ? data.allowClientKeys : undefined,
+      providers,
+    };
+    cachedFile = { path, mtimeMs, config };
+    return config;
+  } catch (error) {
+    console.error(`Failed to load provider config from ${path}`, error);
+    return { providers: {}, unreadable: true };
+  }
+};
+
+const readEnvConnection = (providerId: string): ProviderConnection => {
+  const names = ENV_VARIABLES[providerId] ?? {};
+  return {
+    apiKey: names.apiKey ? process.env[names.apiKey] || undefined : undefined,
+    baseUrl: names.baseUrl ? process.env[names.baseUrl] || undefined : undefined,
+    apiVersion: names.apiVersion ? process.env[names.apiVersion] || undefined : undefined,
+  };
+};
+
+const allowsClientKeys = (config: ServerProviderConfig) => {
+  if (config.unreadable) return false;
+  const env = process.env.PROMPT_MAKER_ALLOW_CLIENT_KEYS;
+  if (env !== undefined && env !== "") return !/^(false|0|no|off)$/i.test(env.trim());
+  return config.allowClientKeys ?? true;
+};
+
+const getServerConnection = (config: ServerProviderConfig, providerId: string): ProviderConnection => {
+  const env = readEnvConnection(providerId);
+  const file = config.providers[providerId] ?? {};
+  return {
+    apiKey: env.apiKey ?? file.apiKey,
+    baseUrl: env.baseUrl ?? file.baseUrl,
+    apiVersion: env.apiVersion ?? file.apiVersion,
+  };
+};
+
+const isConfigured = (adapter: ProviderAdapter, connection: ProviderConnection) =>
+  (!adapter.requiresApiKey || Boolean(connection.apiKey)) &&
+  (!adapter.configFields.includes("baseUrl") || Boolean(connection.baseUrl));
+
+export const getProviderAvailability = async (adapters: ProviderAdapter[]): Promise<ProviderAvailability> => {
+  const config = await readConfigFile();
+  return {
+    allowClientKeys: allowsClientKeys(config),
+    providers: adapters.map((adapter) => {
+      const connection = getServerConnection(config, adapter.id);
+      return {
+        id: adapter.id,
+        configured: isConfigured(adapter, connection),
+        // With a server key the client's connection fields are ignored, so none are asked for.
+        serverFields: connection.apiKey
+          ? ["apiKey", ...adapter.configFields]
+          : (Object.keys(connection) as Array<keyof ProviderConnection>).filter((field) => connection[field]),
+      };
+    }),
+  };
+};
+
+/**
+ * Picks the connection for a call. A server key is only ever sent to the server's own endpoint,
+ * so client connection fields are used only alongside a client key (or for keyless providers),
+ * and only while bring-your-own-key mode is enabled.
+ */
+export const resolveProviderConnection = async (
+  adapter: ProviderAdapter,
+  client: ProviderConnection,
+): Promise<{ connection: ProviderConnection } | { error: string; status: number }> => {
+  const config = await readConfigFile();
+  const server = getServerConnection(config, adapter.id);
+  const serverOnly: ProviderConnection = {
+    apiKey: server.apiKey,
+    baseUrl: server.baseUrl ?? adapter.defaults?.baseUrl,
+    apiVersion: server.apiVersion ?? adapter.defaults?.apiVersion,
+  };
+
+  if (server.apiKey) {
+    if (adapter.configFields.includes("baseUrl") && !serverOnly.baseUrl) {
+      return {
+        error: `${adapter.label} has a server key but no base URL configured on this server.`,
+        status: 500,
+      };
+    }
+    return { connection: serverOnly };
+  }
+
+  if (!allowsClientKeys(config)) {
+    return isConfigured(adapter, server)
+      ? { connection: serverOnly }
+      : { error: `${adapter.label} is not configured on this server.`, status: 403 };
+  }
+
+  const connection: ProviderConnection = {
+    apiKey: client.apiKey,
+    baseUrl: server.baseUrl ?? client.baseUrl ?? adapter.defaults?.baseUrl,
+    apiVersion: server.apiVersion ?? client.apiVersion ?? adapter.defaults?.apiVersion,
+  };
+
+  if (adapter.requiresApiKey && !connection.apiKey) {
+    return { error: "API key is required to call the selected provider.", status: 400 };
+  }
+  if (!server.baseUrl && client.baseUrl) {
+    const refused = checkClientBaseUrl(adapter, client.baseUrl);
+    if (refused) return { error: refused, status: 400 };
+  }
+
+  return { connection };
+};
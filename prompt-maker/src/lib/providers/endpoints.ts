@@ -0,0 +1,45 @@
+import type { ProviderAdapter } from "./types";
+
+/**
+ * Which endpoints the browser may point a provider at. URLs from the server's own config are
+ * trusted as-is; a base URL sent by the client must use the adapter's default origin, one of its
+ * public hosts over https, or an origin listed in `PROMPT_MAKER_ALLOWED_BASE_URLS`
+ * (comma-separated, e.g. `http://localhost:1234,https://llm.internal.example`). Without the
+ * check any caller could make the server fetch internal hosts or cloud metadata endpoints.
+ */
+
+const originOf = (value: string) => {
+  try {
+    return new URL(value).origin;
+  } catch {
+    return undefined;
+  }
+};
+
+const configuredOrigins = () =>
+  (process.env.PROMPT_MAKER_ALLOWED_BASE_URLS ?? "")
+    .split(",")
+    .map((entry) => originOf(entry.trim()))
+    .filter((origin): origin is string => Boolean(origin));
+
+const matchesHost = (hostname: string, allowed: string) =>
+  hostname === allowed || hostname.endsWith(`.${allowed}`);
+
+/** Returns why a client-supplied base URL is refused, or undefined when it may be used. */
+export const checkClientBaseUrl = (adapter: ProviderAdapter, value: string): string | undefined => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Base URL must be an http(s) URL.";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "Base URL must be an http(s) URL.";
+  if (url.username || url.password) return "Base URL must not contain credentials.";
+
+  const defaultOrigin = adapter.defaults?.baseUrl ? originOf(adapter.defaults.baseUrl) : undefined;
+  if (url.origin === defaultOrigin || configuredOrigins().includes(url.origin)) return undefined;
+  if (url.protocol === "https:" && adapter.allowedHosts?.some((host) => matchesHost(url.hostname, host))) {
+    return undefined;
+  }
+  return `${url.origin} is not an allowed endpoint for ${adapter.label}. Add it to PROMPT_MAKER_ALLOWED_BASE_URLS on the server.`;
+};
@@ -0,0 +1,119 @@
+import { readSseEvents } from "@/lib/sse";
+
+import { anthropicAdapter } from "./anthropic";
+import { azureOpenAIAdapter } from "./azure-openai";
+import { openaiAdapter } from "./openai";
+import { openaiCompatibleAdapter } from "./openai-compatible";
+import { openrouterAdapter } from "./openrouter";
+import type {
+  ChatCompletion,
+  ChatRequest,
+  ProviderAdapter,
+  ProviderConnection,
+  ProviderDescriptor,
+  StreamChunk,
+  TokenUsage,
+} from "./types";
+
+export type * from "./types";
+
+export const providerAdapters: ProviderAdapter[] = [
+  openaiAdapter,
+  anthropicAdapter,
+  openrouterAdapter,
+  azureOpenAIAdapter,
+  openaiCompatibleAdapter,
+];
+
+const registry = new Map(providerAdapters.map((adapter) => [adapter.id, adapter]));
+
+/** Serializable view of the registry, used to build the provider pickers in the UI. */
+export const providerDescriptors: ProviderDescriptor[] = providerAdapters.map(
+  ({
+    id,
+    label,
+    defaultModel,
+    requiresApiKey,
+    supportsJsonMode,
+    configFields,
+    defaults,
+    placeholders,
+    modelLabel,
+  }) => ({
+    id,
+    label,
+    defaultModel,
+    requiresApiKey,
+    supportsJsonMode,
+    configFields,
+    defaults,
+    placeholders,
+    modelLabel,
+  }),
+);
+
+export const getProviderAdapter = (id: string) => registry.get(id);
+
+export const getProviderDescriptor = (id: string) =>
+  providerDescriptors.find((descriptor) => descriptor.id === id);
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+/** Sends a chat request and throws a `ProviderError` with a readable message on non-2xx responses. */
+export const sendChatRequest = async (
+  adapter: ProviderAdapter,
+  request: ChatRequest,
+  connection: ProviderConnection,
+  signal?: AbortSignal,
+) => {
+  let built: ReturnType<ProviderAdapter["buildRequest"]>;
+  try {
+    built = adapter.buildRequest(request, connection);
+  } catch (error) {
+    throw new ProviderError((error as Error).message, 400);
+  }
+
+  const response = await fetch(built.url, { ...built.init, method: "POST", signal });
+  if (!response.ok) {
+    const body = await response.json().catch(() => undefined);
+    throw new ProviderError(adapter.mapError(response.status, body), response.status);
+  }
+  return response;
+};
+
+export const readChatCompletion = async (adapter: ProviderAdapter, response: Response): Promise<ChatCompletion> =>
+  adapter.parseResponse(await response.json());
+
+const mergeUsage = (current: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined =>
+  next
+    ? {
+        inputTokens: next.inputTokens ?? current?.inputTokens,
+        outputTokens: next.outputTokens ?? current?.outputTokens,
+      }
+    : current;
+
+/** Normalizes a provider's stream into text deltas, accumulating usage as providers report it. */
+export async function* streamChatCompletion(
+  adapter: ProviderAdapter,
+  response: Response,
+): AsyncGenerator<StreamChunk & { usage?: TokenUsage }> {
+  if (!response.body) return;
+
+  let usage: TokenUsage | undefined;
+  for await (const event of readSseEvents(response.body)) {
+    const chunk = adapter.parseStreamEvent(event);
+    usage = mergeUsage(usage, chunk.usage);
+    if (chunk.error) throw new ProviderError(chunk.error, 502);
+    if (chunk.delta) yield { delta: chunk.delta, usage };
+    if (chunk.done) break;
+  }
+  yield { done: true, usage };
+}
@@ -0,0 +1,36 @@
+import { joinUrl, mapProviderError, parseOpenAIResponse, parseOpenAIStreamEvent } from "./shared";
+import type { ProviderAdapter } from "./types";
+
+/** Any server speaking the OpenAI chat completions API: Ollama, vLLM, LM Studio, llama.cpp. */
+export const openaiCompatibleAdapter: ProviderAdapter = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible (local)",
+  defaultModel: "llama3.1",
+  supportsJsonMode: false,
+  requiresApiKey: false,
+  configFields: ["baseUrl"],
+  defaults: { baseUrl: "http://localhost:11434/v1" },
+  buildRequest: ({ model, temperature, messages, stream, maxTokens }, { apiKey, baseUrl }) => {
+    if (!baseUrl) throw new Error("Set the base URL of the OpenAI-compatible server.");
+
+    return {
+      url: joinUrl(baseUrl, "chat/completions"),
+      init: {
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          temperature,
+          messages,
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+          ...(stream ? { stream: true } : {}),
+        }),
+      },
+    };
+  },
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  mapError: mapProviderError,
+};
@@ -0,0 +1,31 @@
+import { mapProviderError, parseOpenAIResponse, parseOpenAIStreamEvent } from "./shared";
+import type { ProviderAdapter } from "./types";
+
+export const openaiAdapter: ProviderAdapter = {
+  id: "openai",
+  label: "OpenAI",
+  defaultModel: "gpt-4o-mini",
+  supportsJsonMode: true,
+  requiresApiKey: true,
+  configFields: [],
+  buildRequest: ({ model, temperature, messages, stream, maxTokens, responseFormat }, { apiKey }) => ({
+    url: "https://api.openai.com/v1/chat/completions",
+    init: {
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        messages,
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+        ...(responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    },
+  }),
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  mapError: mapProviderError,
+};
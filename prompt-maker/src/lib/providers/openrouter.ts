@@ -0,0 +1,33 @@
+import { mapProviderError, parseOpenAIResponse, parseOpenAIStreamEvent } from "./shared";
+import type { ProviderAdapter } from "./types";
+
+export const openrouterAdapter: ProviderAdapter = {
+  id: "openrouter",
+  label: "OpenRouter",
+  defaultModel: "openai/gpt-4o-mini",
+  supportsJsonMode: true,
+  requiresApiKey: true,
+  configFields: [],
+  buildRequest: ({ model, temperature, messages, stream, maxTokens, responseFormat }, { apiKey }) => ({
+    url: "https://openrouter.ai/api/v1/chat/completions",
+    init: {
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+        "HTTP-Referer": "https://prompt-maker-ai",
+        "X-Title": "Prompt Maker AI",
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        messages,
+        ...(maxTokens ? { max_tokens: maxTokens } : {}),
+        ...(responseFormat === "json" ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+    },
+  }),
+  parseResponse: parseOpenAIResponse,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  mapError: mapProviderError,
+};
@@ -0,0 +1,45 @@
+import type { ChatCompletion, StreamChunk, TokenUsage } from "./types";
+
+type OpenAIUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+const toUsage = (usage: OpenAIUsage | undefined): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined;
+
+export const joinUrl = (base: string, path: string) => `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+
+export const parseOpenAIResponse = (data: unknown): ChatCompletion => {
+  const payload = data as { choices?: Array<{ message?: { content?: string } }>; usage?: OpenAIUsage };
+  return {
+    content: payload?.choices?.[0]?.message?.content,
+    usage: toUsage(payload?.usage),
+  };
+};
+
+export const parseOpenAIStreamEvent = ({ data }: { data: string }): StreamChunk => {
+  if (data === "[DONE]") return { done: true };
+
+  try {
+    const chunk = JSON.parse(data) as {
+      choices?: Array<{ delta?: { content?: string } }>;
+      usage?: OpenAIUsage;
+      error?: { message?: string };
+    };
+    if (chunk.error) return { error: chunk.error.message ?? "Provider reported a stream error." };
+    return { delta: chunk.choices?.[0]?.delta?.content ?? undefined, usage: toUsage(chunk.usage ?? undefined) };
+  } catch {
+    return {};
+  }
+};
+
+/** Error bodies from OpenAI-style and Anthropic APIs both nest the message under `error`. */
+export const mapProviderError = (status: number, body: unknown) => {
+  const payload = body as { error?: { message?: string } | string; message?: string } | undefined;
+  const message =
+    (typeof payload?.error === "string" ? payload.error : payload?.error?.message) || payload?.message;
+  if (message) return message;
+
+  if (status === 401 || status === 403) return "The provider rejected the credentials. Check the API key.";
+  if (status === 404) return "The provider endpoint or model was not found.";
+  if (status === 429) return "The provider rate limit or quota was exceeded. Try again shortly.";
+  return "Provider returned a non-200 response. Check credentials and quota.";
+};
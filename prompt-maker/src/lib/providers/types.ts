@@ -0,0 +1,77 @@
+import type { SseEvent } from "@/lib/sse";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ChatRequest = {
+  model: string;
+  temperature: number;
+  messages: ChatMessage[];
+  stream?: boolean;
+  maxTokens?: number;
+  /** Ask for a JSON object; ignored by providers without a JSON mode. */
+  responseFormat?: "json";
+};
+
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+};
+
+/** Connection settings for a single call. Only `apiKey` is used by every provider. */
+export type ProviderConnection = {
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+export type ProviderConfigField = "baseUrl" | "apiVersion";
+
+export type ChatCompletion = {
+  content?: string;
+  usage?: TokenUsage;
+};
+
+export type StreamChunk = {
+  delta?: string;
+  usage?: TokenUsage;
+  done?: boolean;
+  error?: string;
+};
+
+export type ProviderDescriptor = {
+  id: string;
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  /** Provider can be forced to return a JSON object (`response_format`). */
+  supportsJsonMode: boolean;
+  /** Extra connection fields the UI should collect for this provider. */
+  configFields: ProviderConfigField[];
+  defaults?: Partial<Record<ProviderConfigField, string>>;
+  placeholders?: Partial<Record<ProviderConfigField, string>>;
+  /** Label for the model input when it means something more specific (e.g. Azure deployments). */
+  modelLabel?: string;
+};
+
+export type ProviderAdapter = ProviderDescriptor & {
+  /** Public hosts (and their subdomains) a client-supplied https base URL may use. */
+  allowedHosts?: string[];
+  buildRequest: (request: ChatRequest, connection: ProviderConnection) => { url: string; init: RequestInit };
+  parseResponse: (data: unknown) => ChatCompletion;
+  parseStreamEvent: (event: SseEvent) => StreamChunk;
+  mapError: (status: number, body: unknown) => string;
+};
+
+export type ProviderAvailability = {
+  allowClientKeys: boolean;
+  providers: Array<{
+    id: string;
+    /** Credentials (and any required endpoint) are set on the server. */
+    configured: boolean;
+    /** Connection fields the server fills in, so the UI can hide them. */
+    serverFields: Array<keyof ProviderConnection>;
+  }>;
+};
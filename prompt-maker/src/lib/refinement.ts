@@ -0,0 +1,78 @@
+import { isRecord, PROMPT_ARRAY_KEYS, PROMPT_TEXT_KEYS } from "@/lib/prompt-schema";
+import { extractJsonObject } from "@/lib/structured-output";
+
+export type RefinementResult = {
+  critique: string;
+  upgrades: string[];
+  finalPrompt: string;
+  riskNotes: string[];
+  /** The final prompt mapped back onto workspace fields; validated per field when applied. */
+  sections?: Record<string, unknown>;
+};
+
+export type RefinementFormat = "structured" | "heuristic";
+
+export const REFINEMENT_OUTPUT_INSTRUCTIONS = `Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "critique": "string – what is weak or ambiguous in the prompt",
+  "upgrades": ["string – one concrete improvement per entry"],
+  "finalPrompt": "string – the complete refined prompt, ready to use",
+  "riskNotes": ["string – residual risks, assumptions or failure modes to watch"],
+  "sections": {
+    ${PROMPT_TEXT_KEYS.map((key) => `"${key}": "string"`).join(",\n    ")},
+    ${PROMPT_ARRAY_KEYS.map((key) => `"${key}": ["string"]`).join(",\n    ")},
+    "workflow": [{ "title": "string", "instruction": "string", "expectedOutput": "string" }],
+    "variables": [{ "name": "UPPER_SNAKE_CASE", "description": "string", "example": "string" }]
+  }
+}
+"sections" maps the refined prompt back onto the structured fields it was compiled from. Omit fields you did not change.`;
+
+const toStringList = (value: unknown): string[] | undefined => {
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((item): item is string => typeof item === "string" && Boolean(item.trim()));
+};
+
+/** Validates a parsed refinement object. Returns undefined unless `finalPrompt` is usable. */
+export const validateRefinement = (value: unknown): RefinementResult | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const data = value as Record<string, unknown>;
+
+  if (typeof data.finalPrompt !== "string" || !data.finalPrompt.trim()) return undefined;
+  const upgrades = toStringList(data.upgrades);
+  const riskNotes = toStringList(data.riskNotes);
+  if (!upgrades || !riskNotes) return undefined;
+
+  return {
+    critique: typeof data.critique === "string" ? data.critique.trim() : "",
+    upgrades,
+    finalPrompt: data.finalPrompt.trim(),
+    riskNotes,
+    sections: isRecord(data.sections) ? data.sections : undefined,
+  };
+};
+
+/** Legacy extraction for free-form markdown answers: first fenced block, else text after "Final Prompt". */
+export const extractRefinedPrompt = (content: string | null | undefined) => {
+  if (!content) return undefined;
+
+  const codeBlockMatch = content.match(/```[a-zA-Z0-9_-]*\n([\s\S]*?)```/);
+  if (codeBlockMatch?.[1]) {
+    return codeBlockMatch[1].trim();
+  }
+
+  const finalPromptMatch = content.match(/(?:Final Prompt|Upgraded Prompt)[:\s]*([\s\S]*)/i);
+  if (finalPromptMatch?.[1]) {
+    return finalPromptMatch[1].trim();
+  }
+
+  return undefined;
+};
+
+export const parseRefinementOutput = (content: string | null | undefined) => {
+  const refinement = validateRefinement(extractJsonObject(content));
+  if (refinement) {
+    return { refinement, refinedPrompt: refinement.finalPrompt, format: "structured" as RefinementFormat };
+  }
+  return { refinedPrompt: extractRefinedPrompt(content), format: "heuristic" as RefinementFormat };
+};
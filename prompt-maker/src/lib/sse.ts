@@ -0,0 +1,62 @@
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+const encoder = new TextEncoder();
+
+export const encodeSseEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+/**
+ * Reads a `text/event-stream` body and yields one entry per dispatched event. Works for both
+ * provider streams (which only use `data:` lines) and the studio's own named events.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "message";
+  let data: string[] = [];
+
+  const flushLine = function* (line: string): Generator<SseEvent> {
+    if (line === "") {
+      if (data.length > 0) {
+        yield { event, data: data.join("\n") };
+      }
+      event = "message";
+      data = [];
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+    if (field === "event") event = value;
+    if (field === "data") data.push(value);
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      let newline = buffer.search(/\r\n|\r|\n/);
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(buffer[newline] === "\r" && buffer[newline + 1] === "\n" ? newline + 2 : newline + 1);
+        yield* flushLine(line);
+        newline = buffer.search(/\r\n|\r|\n/);
+      }
+
+      if (done) {
+        if (buffer) yield* flushLine(buffer);
+        yield* flushLine("");
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
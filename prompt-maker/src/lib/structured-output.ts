@@ -0,0 +1,28 @@
+/**
+ * Pulls a JSON object out of model output. Tries the raw text first (JSON mode), then a fenced
+ * ```json block, then the outermost braces, since models without JSON mode often wrap the object
+ * in prose.
+ */
+export const extractJsonObject = (content: string | null | undefined): Record<string, unknown> | undefined => {
+  if (!content) return undefined;
+
+  const candidates = [content.trim()];
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)```/i);
+  if (fenced?.[1]) candidates.push(fenced[1].trim());
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start !== -1 && end > start) candidates.push(content.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed: unknown = JSON.parse(candidate);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Try the next candidate.
+    }
+  }
+
+  return undefined;
+};
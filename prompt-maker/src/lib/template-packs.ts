@@ -0,0 +1,115 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join } from "node:path";
+
+import { parseTemplatePack, type LoadedTemplatePack, type TemplatePackListing } from "@/lib/prompt-templates";
+
+/**
+ * Server-side template packs. `PROMPT_MAKER_TEMPLATE_DIR` names a directory of JSON or YAML
+ * files in the format the studio's template export writes; each file is one pack:
+ *
+ *   format: prompt-maker/templates
+ *   schemaVersion: 1
+ *   name: Support team
+ *   version: "1.4.0"
+ *   templates:
+ *     - id: refund-reply
+ *       title: Refund reply
+ *       ...
+ *
+ * Template ids are prefixed with the pack id so packs cannot clash with each other or with the
+ * built-in templates. In development the directory is checked on every request and re-read
+ * when a file changes; production reads it once.
+ */
+
+const PACK_FILE = /\.(json|ya?ml)$/i;
+
+let cachedPacks: { dir: string; signature: string; listing: TemplatePackListing } | undefined;
+
+/** `support.templates.yaml` → `support`. */
+const packIdFromFile = (file: string) =>
+  file
+    .replace(PACK_FILE, "")
+    .replace(/\.templates$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "pack";
+
+const readPacks = async (dir: string, files: string[]): Promise<TemplatePackListing> => {
+  const listing: TemplatePackListing = { packs: [], issues: [] };
+  const ids = new Set<string>();
+
+  for (const file of files) {
+    // One unreadable file (permissions, removed mid-read) only costs that pack.
+    let text: string;
+    try {
+      text = await readFile(join(dir, file), "utf8");
+    } catch (error) {
+      console.error(`Failed to read template pack ${join(dir, file)}`, error);
+      listing.issues.push({ file, path: "(file)", message: "The file could not be read." });
+      continue;
+    }
+
+    const result = parseTemplatePack(text, file);
+    listing.issues.push(...result.warnings.map((issue) => ({ ...issue, file })));
+    if (!result.ok) {
+      listing.issues.push(...result.errors.map((issue) => ({ ...issue, file })));
+      continue;
+    }
+
+    let id = packIdFromFile(file);
+    for (let suffix = 2; ids.has(id); suffix += 1) id = `${packIdFromFile(file)}-${suffix}`;
+    ids.add(id);
+
+    const pack: LoadedTemplatePack = {
+      id,
+      name: result.value.name ?? id,
+      version: result.value.version,
+      file,
+      templates: result.value.templates.map((template) => ({ ...template, id: `${id}/${template.id}` })),
+    };
+    listing.packs.push(pack);
+  }
+
+  return listing;
+};
+
+export const loadTemplatePacks = async (): Promise<TemplatePackListing> => {
+  const dir = process.env.PROMPT_MAKER_TEMPLATE_DIR;
+  if (!dir) return { packs: [], issues: [] };
+  if (cachedPacks?.dir === dir && process.env.NODE_ENV === "production") return cachedPacks.listing;
+
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const files = entries
+      .filter((entry) => entry.isFile() && PACK_FILE.test(entry.name))
+      .map((entry) => entry.name)
+      .sort((left, right) => left.localeCompare(right));
+    const modified = await Promise.all(
+      files.map((file) =>
+        stat(join(dir, file)).then(
+          (stats) => stats.mtimeMs,
+          () => undefined,
+        ),
+      ),
+    );
+    const signature = files.map((file, index) => `${file}@${modified[index]}`).join("\n");
+    if (cachedPacks?.dir === dir && cachedPacks.signature === signature) return cachedPacks.listing;
+
+    const listing = await readPacks(dir, files);
+    cachedPacks = { dir, signature, listing };
+    return listing;
+  } catch (error) {
+    console.error(`Failed to load template packs from ${dir}`, error);
+    return {
+      packs: [],
+      // The path stays in the server log; the studio only learns that the directory failed.
+      issues: [
+        {
+          file: "Template directory",
+          path: "(directory)",
+          message: "The template directory could not be read.",
+        },
+      ],
+    };
+  }
+};
@@ -0,0 +1,82 @@
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+/** Largest LCS table (changed lines before × after) worth building; beyond it the diff is coarse. */
+const MAX_TABLE_CELLS = 250_000;
+
+/**
+ * Line-level diff based on the longest common subsequence. The unchanged head and tail are
+ * matched first, so the quadratic table only covers the edited region; if that region is still
+ * too large it is reported as removed then added lines.
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const allLeft = before.split("\n");
+  const allRight = after.split("\n");
+
+  let prefix = 0;
+  while (prefix < allLeft.length && prefix < allRight.length && allLeft[prefix] === allRight[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < allLeft.length - prefix &&
+    suffix < allRight.length - prefix &&
+    allLeft[allLeft.length - 1 - suffix] === allRight[allRight.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const left = allLeft.slice(prefix, allLeft.length - suffix);
+  const right = allRight.slice(prefix, allRight.length - suffix);
+  const rows = left.length;
+  const cols = right.length;
+  const result: DiffLine[] = allLeft.slice(0, prefix).map((text) => ({ type: "same", text }));
+  const tail: DiffLine[] = allLeft.slice(allLeft.length - suffix).map((text) => ({ type: "same", text }));
+
+  if ((rows + 1) * (cols + 1) > MAX_TABLE_CELLS) {
+    return [
+      ...result,
+      ...left.map((text): DiffLine => ({ type: "removed", text })),
+      ...right.map((text): DiffLine => ({ type: "added", text })),
+      ...tail,
+    ];
+  }
+
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lengths[i][j] =
+        left[i] === right[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (left[i] === right[j]) {
+      result.push({ type: "same", text: left[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: "removed", text: left[i] });
+      i += 1;
+    } else {
+      result.push({ type: "added", text: right[j] });
+      j += 1;
+    }
+  }
+  while (i < rows) {
+    result.push({ type: "removed", text: left[i] });
+    i += 1;
+  }
+  while (j < cols) {
+    result.push({ type: "added", text: right[j] });
+    j += 1;
+  }
+
+  return [...result, ...tail];
+};
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { countTokens, loadExactCounter, tokenizerForModel } from "@/lib/tokenizers";
+
+describe("tokenizerForModel", () => {
+  it("matches model families, ignoring a vendor prefix", () => {
+    assert.equal(tokenizerForModel("gpt-4o-mini").encoding, "o200k_base");
+    assert.equal(tokenizerForModel("openai/gpt-4-turbo").encoding, "cl100k_base");
+    assert.equal(tokenizerForModel("anthropic/claude-3-5-haiku-latest").id, "claude");
+    assert.equal(tokenizerForModel("my-local-model").id, "generic");
+  });
+});
+
+describe("loadExactCounter", () => {
+  it("counts OpenAI models with their BPE vocabulary", async () => {
+    const count = await loadExactCounter(tokenizerForModel("gpt-4o"));
+    assert.ok(count);
+    assert.equal(count("Hello, world!"), 4);
+    assert.ok(count("<|endoftext|>") > 1);
+  });
+
+  it("has no exact counter for other families, which fall back to the estimate", () => {
+    const tokenizer = tokenizerForModel("claude-sonnet-4");
+    assert.equal(loadExactCounter(tokenizer), undefined);
+    assert.ok(countTokens("Hello, world!", tokenizer) > 0);
+  });
+});
@@ -0,0 +1,175 @@
+import type { ChatMessage } from "@/lib/providers";
+
+export type TokenizerId = "o200k" | "cl100k" | "claude" | "sentencepiece" | "generic";
+
+/** BPE vocabularies with an exact encoder in `js-tiktoken`. */
+export type BpeEncoding = "o200k_base" | "cl100k_base";
+
+/**
+ * How a model family splits text. Families with an `encoding` are counted exactly once its
+ * vocabulary has loaded (it is a few megabytes, so it is fetched on demand); Claude models can be
+ * counted by Anthropic through `/api/tokens`. Everything else, and everything while the exact
+ * count is pending, comes from a characters-per-token heuristic tuned to the family.
+ */
+export type Tokenizer = {
+  id: TokenizerId;
+  label: string;
+  encoding?: BpeEncoding;
+  /** Letters a word can have and still be a single token. */
+  wordChars: number;
+  /** Characters per token for CJK and other scripts without spaces. */
+  denseCharsPerToken: number;
+  /** Digits merged into one token; sentencepiece vocabularies split every digit. */
+  digitsPerToken: number;
+  /** Punctuation and symbol characters merged into one token. */
+  symbolsPerToken: number;
+};
+
+const tokenizers: Record<TokenizerId, Tokenizer> = {
+  o200k: {
+    id: "o200k",
+    label: "o200k (GPT-4o, GPT-4.1, o-series)",
+    encoding: "o200k_base",
+    wordChars: 7,
+    denseCharsPerToken: 1.4,
+    digitsPerToken: 3,
+    symbolsPerToken: 3,
+  },
+  cl100k: {
+    id: "cl100k",
+    label: "cl100k (GPT-4, GPT-3.5)",
+    encoding: "cl100k_base",
+    wordChars: 6,
+    denseCharsPerToken: 0.8,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+  },
+  claude: {
+    id: "claude",
+    label: "Claude",
+    wordChars: 5,
+    denseCharsPerToken: 1,
+    digitsPerToken: 3,
+    symbolsPerToken: 2,
+  },
+  sentencepiece: {
+    id: "sentencepiece",
+    label: "SentencePiece (Llama, Mistral, Gemma)",
+    wordChars: 5,
+    denseCharsPerToken: 1,
+    digitsPerToken: 1,
+    symbolsPerToken: 1,
+  },
+  generic: {
+    id: "generic",
+    label: "Generic (~4 characters per token)",
+    wordChars: 5,
+    denseCharsPerToken: 1,
+    digitsPerToken: 2,
+    symbolsPerToken: 2,
+  },
+};
+
+/** First match wins; the vendor prefix of OpenRouter-style ids is stripped before matching. */
+const MODEL_FAMILIES: Array<[RegExp, TokenizerId]> = [
+  [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d|chatgpt-4o)/, "o200k"],
+  [/^(gpt-4|gpt-3\.5|text-embedding)/, "cl100k"],
+  [/^claude/, "claude"],
+  [/^(llama|meta-llama|mistral|mixtral|codestral|gemma|phi|qwen)/, "sentencepiece"],
+];
+
+export const tokenizerForModel = (model: string): Tokenizer => {
+  const name = model.trim().toLowerCase().split("/").pop() ?? "";
+  const match = MODEL_FAMILIES.find(([pattern]) => pattern.test(name));
+  return tokenizers[match?.[1] ?? "generic"];
+};
+
+// Mirrors the GPT pre-tokenizer: contractions, words with their leading space, digit runs,
+// punctuation runs with their leading space, and whitespace.
+const PIECE_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)|[^\S\n]?[\p{L}\p{M}]+|\p{N}+|[^\S\n]?[^\s\p{L}\p{M}\p{N}]+|\n+|[^\S\n]+/gu;
+
+const DENSE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+const countPiece = (piece: string, tokenizer: Tokenizer) => {
+  const trimmed = piece.trimStart();
+  if (!trimmed) return /\n/.test(piece) ? 1 : Math.ceil(piece.length / 4);
+  if (DENSE_SCRIPT.test(trimmed)) return Math.ceil(trimmed.length / tokenizer.denseCharsPerToken);
+  if (/^\p{N}/u.test(trimmed)) return Math.ceil(trimmed.length / tokenizer.digitsPerToken);
+  if (/^[\p{L}\p{M}']/u.test(trimmed)) return Math.max(1, Math.ceil(trimmed.length / tokenizer.wordChars));
+  return Math.ceil(trimmed.length / tokenizer.symbolsPerToken);
+};
+
+/** Heuristic count; see `Tokenizer`. */
+export const countTokens = (text: string, tokenizer: Tokenizer) => {
+  let total = 0;
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    total += countPiece(piece, tokenizer);
+  }
+  return total;
+};
+
+export type TokenCounter = (text: string) => number;
+
+const exactCounters = new Map<BpeEncoding, Promise<TokenCounter>>();
+
+const loadRanks = (encoding: BpeEncoding) =>
+  encoding === "o200k_base"
+    ? import("js-tiktoken/ranks/o200k_base").then((module) => module.default)
+    : import("js-tiktoken/ranks/cl100k_base").then((module) => module.default);
+
+/**
+ * The exact counter for a tokenizer with a BPE encoding, or undefined when it has none. Each
+ * vocabulary is loaded once; a failed load is forgotten so the next call retries it.
+ */
+export const loadExactCounter = (tokenizer: Tokenizer): Promise<TokenCounter> | undefined => {
+  const { encoding } = tokenizer;
+  if (!encoding) return undefined;
+
+  let counter = exactCounters.get(encoding);
+  if (!counter) {
+    counter = Promise.all([import("js-tiktoken/lite"), loadRanks(encoding)]).then(([{ Tiktoken }, ranks]) => {
+      const encoder = new Tiktoken(ranks);
+      // Special-token markers in a prompt are sent as plain text, so they are counted that way.
+      return (text: string) => encoder.encode(text, [], []).length;
+    });
+    counter.catch(() => exactCounters.delete(encoding));
+    exactCounters.set(encoding, counter);
+  }
+  return counter;
+};
+
+export type TokenCountRequest = {
+  messages: ChatMessage[];
+  provider: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+};
+
+/** Calls `/api/tokens`. Failures come back as `{ error }`; aborts reject so callers can tell them apart. */
+export const fetchTokenCount = async (
+  request: TokenCountRequest,
+  signal?: AbortSignal,
+): Promise<{ inputTokens?: number; error?: string }> => {
+  try {
+    const response = await fetch("/api/tokens", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+    const data: { inputTokens?: number; error?: string } = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      return { error: data.error ?? `Token count failed with status ${response.status}.` };
+    }
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(error);
+    return { error: "Network error while counting tokens." };
+  }
+};
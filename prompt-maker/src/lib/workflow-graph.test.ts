@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  describeStageRoute,
+  describeWorkflowGraph,
+  detachStage,
+  findWorkflowGraphIssues,
+  layoutWorkflow,
+  resolveStageRoute,
+  type WorkflowNode,
+} from "@/lib/workflow-graph";
+
+const stage = (id: string, extra: Partial<WorkflowNode> = {}): WorkflowNode => ({
+  id,
+  title: id.toUpperCase(),
+  instruction: "",
+  expectedOutput: "",
+  ...extra,
+});
+
+const messages = (stages: WorkflowNode[]) =>
+  findWorkflowGraphIssues(stages).map((issue) => `${issue.stageId}: ${issue.message}`);
+
+describe("resolveStageRoute", () => {
+  it("falls through to the next stage when there are no routes", () => {
+    const stages = [stage("a"), stage("b")];
+    assert.deepEqual(resolveStageRoute(stages, 0), { branches: [], then: [1], implicit: true });
+    assert.deepEqual(resolveStageRoute(stages, 1), { branches: [], then: [], implicit: true });
+  });
+
+  it("separates conditional branches from unconditional routes", () => {
+    const stages = [
+      stage("a", {
+        next: [
+          { id: "1", to: "c", condition: "If validation fails." },
+          { id: "2", to: "b" },
+          { id: "3", to: "c", condition: " " },
+          { id: "4", to: "missing" },
+        ],
+      }),
+      stage("b"),
+      stage("c"),
+    ];
+    assert.deepEqual(resolveStageRoute(stages, 0), {
+      branches: [{ condition: "validation fails", to: 2 }],
+      then: [1, 2],
+      implicit: false,
+    });
+  });
+
+  it("stops at terminal stages even when they have routes", () => {
+    const stages = [stage("a", { terminal: true, next: [{ id: "1", to: "b" }] }), stage("b")];
+    assert.deepEqual(resolveStageRoute(stages, 0), { branches: [], then: [], implicit: false });
+  });
+});
+
+describe("describeStageRoute / describeWorkflowGraph", () => {
+  it("leaves flat workflows without a routing section", () => {
+    assert.equal(describeWorkflowGraph([stage("a"), stage("b")]), "");
+  });
+
+  it("describes branches, parallel routes and final stages", () => {
+    const stages = [
+      stage("a", {
+        next: [
+          { id: "1", to: "a", condition: "the input is unclear" },
+          { id: "2", to: "b" },
+          { id: "3", to: "c" },
+        ],
+      }),
+      stage("b", { next: [{ id: "4", to: "c" }] }),
+      stage("c", { terminal: true }),
+    ];
+    assert.deepEqual(describeStageRoute(stages, 0), [
+      "If the input is unclear, go to stage 1 (A).",
+      "Otherwise, run stage 2 (B) and stage 3 (C) in parallel as independent branches, and combine their results.",
+    ]);
+    assert.deepEqual(describeStageRoute(stages, 2), ["Stop here: this is a final stage."]);
+    assert.match(describeWorkflowGraph(stages), /^Workflow routing: start with stage 1/);
+  });
+});
+
+describe("findWorkflowGraphIssues", () => {
+  it("has nothing to say about flat workflows", () => {
+    assert.deepEqual(messages([stage("a"), stage("b")]), []);
+  });
+
+  it("flags dangling routes, unconditional self-loops, unreachable stages and endless flows", () => {
+    const stages = [
+      stage("a", {
+        next: [
+          { id: "1", to: "a" },
+          { id: "2", to: "gone" },
+        ],
+      }),
+      stage("b", { terminal: true }),
+    ];
+    assert.deepEqual(messages(stages), [
+      "a: Routes to a stage that no longer exists.",
+      "a: Always loops back to itself; give the route a condition.",
+      "b: Never reached from stage 1.",
+      "a: The workflow never ends; mark a final stage.",
+    ]);
+  });
+
+  it("flags blank stages and routes into them, since the compiled prompt leaves them out", () => {
+    const stages = [
+      stage("a", { next: [{ id: "1", to: "blank", condition: "input is missing" }] }),
+      stage("blank", { title: " " }),
+      stage("c", { terminal: true }),
+    ];
+    assert.deepEqual(messages(stages), [
+      "a: Routes to a blank stage, which the compiled prompt leaves out.",
+      "blank: Blank stage: the compiled prompt leaves it out and renumbers the rest.",
+    ]);
+  });
+});
+
+describe("detachStage", () => {
+  it("removes routes into the detached stage and leaves other stages untouched", () => {
+    const untouched = stage("c");
+    const stages = [
+      stage("a", {
+        next: [
+          { id: "1", to: "b" },
+          { id: "2", to: "c" },
+        ],
+      }),
+      stage("b"),
+      untouched,
+    ];
+    const detached = detachStage(stages, "b");
+    assert.deepEqual(detached[0].next, [{ id: "2", to: "c" }]);
+    assert.equal(detached[2], untouched);
+  });
+});
+
+describe("layoutWorkflow", () => {
+  it("keeps saved positions and places the rest in columns by route distance", () => {
+    const stages = [
+      stage("a", {
+        next: [
+          { id: "1", to: "b" },
+          { id: "2", to: "c" },
+        ],
+      }),
+      stage("b", { terminal: true }),
+      stage("c", { position: { x: 5, y: 6 } }),
+      stage("d", { terminal: true }),
+    ];
+    const layout = layoutWorkflow(stages);
+    assert.deepEqual(layout.c, { x: 5, y: 6 });
+    assert.equal(layout.a.x < layout.b.x, true);
+    assert.equal(layout.d.x > layout.b.x, true);
+  });
+});
@@ -0,0 +1,228 @@
+import { createId } from "@/lib/prompt-library";
+import type { WorkflowStage } from "@/lib/prompt-types";
+
+/** A route out of a stage. Without a condition it is always taken. */
+export type WorkflowEdge = {
+  id: string;
+  /** Id of the stage the route leads to. */
+  to: string;
+  /** Plain-language condition, e.g. "validation fails". */
+  condition?: string;
+};
+
+/**
+ * A `WorkflowStage` with its routing. The extra fields are optional so flat workflows keep
+ * working: a stage without routes continues with the next stage in list order.
+ */
+export type WorkflowNode = WorkflowStage & {
+  next?: WorkflowEdge[];
+  /** Ends the workflow; routes out of a terminal stage are ignored. */
+  terminal?: boolean;
+  /** Where the node editor draws the stage. */
+  position?: { x: number; y: number };
+};
+
+export type WorkflowRoutingPatch = Partial<Pick<WorkflowNode, "next" | "terminal" | "position">>;
+
+export type StageRoute = {
+  /** Conditional routes in order, by target index. */
+  branches: { condition: string; to: number }[];
+  /** Stages that follow when no condition applies; more than one run in parallel. Empty when the flow ends. */
+  then: number[];
+  /** True when `then` is just the next stage in the list rather than a route the author drew. */
+  implicit: boolean;
+};
+
+export type WorkflowGraphIssue = {
+  stageId: string;
+  message: string;
+};
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 64;
+const COLUMN_GAP = 72;
+const ROW_GAP = 32;
+const MARGIN = 16;
+
+export const createWorkflowEdge = (to: string, condition = ""): WorkflowEdge => ({
+  id: createId(),
+  to,
+  condition,
+});
+
+/** Blank starter rows; compiled prompts and chain runs leave them out. */
+export const isBlankStage = (stage: WorkflowStage) => !stage.title.trim() && !stage.instruction.trim();
+
+/** True once any stage routes or ends the flow; flat lists compile exactly as before. */
+export const isBranchingWorkflow = (stages: WorkflowNode[]) =>
+  stages.some((stage) => stage.terminal || (stage.next?.length ?? 0) > 0);
+
+/** "If validation fails" and "validation fails." both become "validation fails". */
+const normalizeCondition = (condition: string | undefined) =>
+  (condition ?? "")
+    .trim()
+    .replace(/^if\s+/i, "")
+    .replace(/[.:,;]+$/, "");
+
+export const resolveStageRoute = (stages: WorkflowNode[], index: number): StageRoute => {
+  const stage = stages[index];
+  if (!stage || stage.terminal) return { branches: [], then: [], implicit: false };
+
+  const edges = (stage.next ?? [])
+    .map((edge) => ({
+      condition: normalizeCondition(edge.condition),
+      to: stages.findIndex((entry) => entry.id === edge.to),
+    }))
+    .filter((edge) => edge.to !== -1);
+  const always = [...new Set(edges.filter((edge) => !edge.condition).map((edge) => edge.to))];
+  const fallthrough = index + 1 < stages.length ? [index + 1] : [];
+
+  return {
+    branches: edges.filter((edge) => edge.condition),
+    then: always.length > 0 ? always : fallthrough,
+    implicit: always.length === 0,
+  };
+};
+
+export const stageName = (stages: WorkflowNode[], index: number) => {
+  const title = stages[index]?.title.trim();
+  return `stage ${index + 1}${title ? ` (${title})` : ""}`;
+};
+
+const joinStages = (stages: WorkflowNode[], indexes: number[]) => {
+  const names = indexes.map((index) => stageName(stages, index));
+  return names.length <= 1
+    ? names.join("")
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+};
+
+/** Routing after one stage as instructions, e.g. "If validation fails, go to stage 2 (Draft)." */
+export const describeStageRoute = (stages: WorkflowNode[], index: number): string[] => {
+  const route = resolveStageRoute(stages, index);
+  const lines = route.branches.map(
+    (branch) => `If ${branch.condition}, go to ${stageName(stages, branch.to)}.`,
+  );
+  const lead = lines.length > 0 ? "Otherwise, " : "Then ";
+
+  if (route.then.length === 0) {
+    lines.push(`${lines.length > 0 ? "Otherwise, stop" : "Stop"} here: this is a final stage.`);
+  } else if (route.then.length === 1) {
+    lines.push(`${lead}continue with ${stageName(stages, route.then[0])}.`);
+  } else {
+    lines.push(
+      `${lead}run ${joinStages(stages, route.then)} in parallel as independent branches, and combine their results.`,
+    );
+  }
+  return lines;
+};
+
+/** The whole graph as a routing section; empty for flat workflows. */
+export const describeWorkflowGraph = (stages: WorkflowNode[]) => {
+  if (!isBranchingWorkflow(stages)) return "";
+  const routes = stages.map(
+    (_, index) => `- After ${stageName(stages, index)}: ${describeStageRoute(stages, index).join(" ")}`,
+  );
+  return [
+    "Workflow routing: start with stage 1 and follow these routes instead of working straight down the list.",
+    ...routes,
+  ].join("\n");
+};
+
+/** Stages reachable from the first one, following every route. */
+const reachableFrom = (stages: WorkflowNode[]) => {
+  const reached = new Set<number>();
+  const queue = stages.length > 0 ? [0] : [];
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    if (reached.has(index)) continue;
+    reached.add(index);
+    const route = resolveStageRoute(stages, index);
+    queue.push(...route.branches.map((branch) => branch.to), ...route.then);
+  }
+  return reached;
+};
+
+export const findWorkflowGraphIssues = (stages: WorkflowNode[]): WorkflowGraphIssue[] => {
+  if (!isBranchingWorkflow(stages)) return [];
+  const issues: WorkflowGraphIssue[] = [];
+  const ids = new Set(stages.map((stage) => stage.id));
+  // The compiled prompt drops blank stages, so its stage numbers and routes would not match the editor.
+  const blankIds = new Set(stages.filter(isBlankStage).map((stage) => stage.id));
+
+  stages.forEach((stage) => {
+    if (blankIds.has(stage.id)) {
+      issues.push({
+        stageId: stage.id,
+        message: "Blank stage: the compiled prompt leaves it out and renumbers the rest.",
+      });
+    }
+    if (stage.terminal) return;
+    const edges = stage.next ?? [];
+    if (edges.some((edge) => !ids.has(edge.to))) {
+      issues.push({ stageId: stage.id, message: "Routes to a stage that no longer exists." });
+    }
+    if (edges.some((edge) => blankIds.has(edge.to))) {
+      issues.push({
+        stageId: stage.id,
+        message: "Routes to a blank stage, which the compiled prompt leaves out.",
+      });
+    }
+    if (edges.some((edge) => edge.to === stage.id && !normalizeCondition(edge.condition))) {
+      issues.push({ stageId: stage.id, message: "Always loops back to itself; give the route a condition." });
+    }
+  });
+
+  const reached = reachableFrom(stages);
+  stages.forEach((stage, index) => {
+    if (!reached.has(index)) issues.push({ stageId: stage.id, message: "Never reached from stage 1." });
+  });
+  if (
+    stages.length > 0 &&
+    ![...reached].some((index) => resolveStageRoute(stages, index).then.length === 0)
+  ) {
+    issues.push({ stageId: stages[0].id, message: "The workflow never ends; mark a final stage." });
+  }
+  return issues;
+};
+
+/** Drops routes into a removed stage so nothing points at it. */
+export const detachStage = <T extends WorkflowNode>(stages: T[], id: string): T[] =>
+  stages.map((stage) =>
+    stage.next?.some((edge) => edge.to === id)
+      ? { ...stage, next: stage.next.filter((edge) => edge.to !== id) }
+      : stage,
+  );
+
+/**
+ * Saved positions, falling back to columns by route distance from stage 1 so a fresh graph
+ * reads left to right.
+ */
+export const layoutWorkflow = (stages: WorkflowNode[]) => {
+  const depth = new Map<number, number>();
+  const queue = stages.length > 0 ? [0] : [];
+  depth.set(0, 0);
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    const route = resolveStageRoute(stages, index);
+    [...route.then, ...route.branches.map((branch) => branch.to)].forEach((next) => {
+      if (depth.has(next)) return;
+      depth.set(next, (depth.get(index) ?? 0) + 1);
+      queue.push(next);
+    });
+  }
+
+  const deepest = Math.max(0, ...depth.values());
+  const rows = new Map<number, number>();
+  return Object.fromEntries(
+    stages.map((stage, index) => {
+      if (stage.position) return [stage.id, stage.position];
+      const column = depth.get(index) ?? deepest + 1;
+      const row = rows.get(column) ?? 0;
+      rows.set(column, row + 1);
+      return [
+        stage.id,
+        { x: MARGIN + column * (NODE_WIDTH + COLUMN_GAP), y: MARGIN + row * (NODE_HEIGHT + ROW_GAP) },
+      ];
+    }),
+  ) as Record<string, { x: number; y: number }>;
+};
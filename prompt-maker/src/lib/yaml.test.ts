@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseYaml, stringifyYaml, YamlError } from "@/lib/yaml";
+
+const roundTrip = (value: unknown) => parseYaml(stringifyYaml(value));
+
+describe("stringifyYaml / parseYaml", () => {
+  it("round-trips nested mappings and sequences", () => {
+    const value = {
+      name: "Support reply",
+      count: 3,
+      ratio: 0.5,
+      enabled: false,
+      missing: null,
+      tags: ["email", "refunds"],
+      stages: [
+        { id: "a", title: "Read", next: [{ to: "b" }] },
+        { id: "b", title: "Reply", next: [] },
+      ],
+      empty: {},
+    };
+    assert.deepEqual(roundTrip(value), value);
+  });
+
+  it("quotes strings that would otherwise read as other types", () => {
+    const value = { a: "true", b: "42", c: "null", d: "- dash", e: "key: value", f: "# hash", g: "" };
+    assert.deepEqual(roundTrip(value), value);
+  });
+
+  it("round-trips multi-line text, including blank and whitespace-only lines", () => {
+    const texts = ["one\ntwo", "one\n\ntwo\n", "one\n  \n    indented\n", "trailing\n\n\n", "a\n\nb\n\n"];
+    texts.forEach((text) => {
+      assert.deepEqual(roundTrip({ text }), { text });
+      assert.deepEqual(roundTrip([text]), [text]);
+    });
+  });
+
+  it("quotes newline-only text and document markers", () => {
+    const texts = ["\n", "\n\n", "---", "...", "... and more", "--- rule"];
+    texts.forEach((text) => {
+      assert.deepEqual(roundTrip({ text }), { text });
+      assert.deepEqual(roundTrip([text]), [text]);
+      assert.deepEqual(roundTrip({ [text]: "key" }), { [text]: "key" });
+      assert.equal(roundTrip(text), text);
+    });
+  });
+
+  it("writes top-level scalars on one line", () => {
+    assert.equal(stringifyYaml("plain"), "plain\n");
+    assert.equal(stringifyYaml([]), "[]\n");
+  });
+});
+
+describe("parseYaml", () => {
+  it("reads flow collections, comments and quoted scalars", () => {
+    const source = [
+      "# prompt",
+      "tags: [a, 'b c', \"d\"]  # inline comment",
+      "meta: { x: 1, y: two }",
+      "quote: 'it''s'",
+      'escaped: "line\\nbreak"',
+    ].join("\n");
+    assert.deepEqual(parseYaml(source), {
+      tags: ["a", "b c", "d"],
+      meta: { x: 1, y: "two" },
+      quote: "it's",
+      escaped: "line\nbreak",
+    });
+  });
+
+  it("folds `>` scalars and honours chomping indicators", () => {
+    assert.deepEqual(parseYaml("text: >\n  one\n  two\n\n  three\n"), { text: "one two\nthree\n" });
+    assert.deepEqual(parseYaml("text: |-\n  kept\n"), { text: "kept" });
+    assert.deepEqual(parseYaml("text: |+\n  kept\n\nnext: 1\n"), { text: "kept\n\n", next: 1 });
+  });
+
+  it("accepts Windows line endings and a document marker", () => {
+    assert.deepEqual(parseYaml("---\r\na: 1\r\nb: [x]\r\n"), { a: 1, b: ["x"] });
+  });
+
+  it("rejects tabs, anchors and unterminated quotes with the line number", () => {
+    assert.throws(
+      () => parseYaml("a:\n\tb: 1"),
+      (error: unknown) => error instanceof YamlError && error.line === 2,
+    );
+    assert.throws(() => parseYaml("a: &anchor 1"), YamlError);
+    assert.throws(() => parseYaml('a: "open'), YamlError);
+  });
+});
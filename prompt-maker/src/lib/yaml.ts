@@ -0,0 +1,430 @@
+/**
+ * Minimal YAML reader/writer for prompt documents and template packs.
+ *
+ * Supports block mappings and sequences, plain/single/double-quoted scalars, literal and folded
+ * block scalars, single-line flow collections and comments. Anchors, tags and multi-document
+ * streams are rejected rather than guessed at.
+ */
+
+export class YamlError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+  ) {
+    super(`YAML line ${line}: ${message}`);
+    this.name = "YamlError";
+  }
+}
+
+type YamlValue = null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue };
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const RESERVED_PATTERN = /^(null|~|true|false|yes|no|on|off)$/i;
+
+const resolvePlain = (raw: string): YamlValue => {
+  const value = raw.trim();
+  if (value === "" || value === "~" || /^null$/i.test(value)) return null;
+  if (/^true$/i.test(value)) return true;
+  if (/^false$/i.test(value)) return false;
+  if (NUMBER_PATTERN.test(value)) return Number(value);
+  return value;
+};
+
+/** Index where a quoted scalar starting at `start` closes, or -1. */
+const closingQuote = (text: string, start: number) => {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i += 1) {
+    if (quote === '"' && text[i] === "\\") {
+      i += 1;
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i += 1;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+};
+
+const unquote = (text: string, lineNumber: number): string => {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new YamlError(`Invalid double-quoted string ${text}`, lineNumber);
+    }
+  }
+  return text.slice(1, -1).replace(/''/g, "'");
+};
+
+const stripComment = (text: string) => {
+  let depth = 0;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      const end = closingQuote(text, i);
+      if (end === -1) return text;
+      i = end;
+    } else if (char === "[" || char === "{") {
+      depth += 1;
+    } else if (char === "]" || char === "}") {
+      depth -= 1;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1])) && depth >= 0) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+/** Position of the `key: value` separator at the top level of `text`, or -1. */
+const mappingColon = (text: string) => {
+  let i = 0;
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = closingQuote(text, 0);
+    if (end === -1) return -1;
+    i = end + 1;
+  }
+  if (text[0] === "[" || text[0] === "{") return -1;
+  for (; i < text.length; i += 1) {
+    if (text[i] === ":" && (i === text.length - 1 || text[i + 1] === " ")) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parseFlow = (text: string, lineNumber: number): YamlValue => {
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos += 1;
+  };
+
+  const parseItem = (terminators: string): YamlValue => {
+    skipSpaces();
+    const char = text[pos];
+    if (char === "[") return parseCollection("]");
+    if (char === "{") return parseCollection("}");
+    if (char === '"' || char === "'") {
+      const end = closingQuote(text, pos);
+      if (end === -1) throw new YamlError("Unterminated quoted string", lineNumber);
+      const value = unquote(text.slice(pos, end + 1), lineNumber);
+      pos = end + 1;
+      return value;
+    }
+    const start = pos;
+    while (pos < text.length && !terminators.includes(text[pos])) pos += 1;
+    return resolvePlain(text.slice(start, pos));
+  };
+
+  const parseCollection = (close: "]" | "}"): YamlValue => {
+    pos += 1;
+    const list: YamlValue[] = [];
+    const map: { [key: string]: YamlValue } = {};
+
+    skipSpaces();
+    while (text[pos] !== close) {
+      if (pos >= text.length) throw new YamlError(`Missing "${close}" in flow collection`, lineNumber);
+      if (close === "]") {
+        list.push(parseItem(",]"));
+      } else {
+        const key = parseItem(":,}");
+        skipSpaces();
+        if (text[pos] !== ":") throw new YamlError("Expected ':' in flow mapping", lineNumber);
+        pos += 1;
+        map[String(key)] = parseItem(",}");
+      }
+      skipSpaces();
+      if (text[pos] === ",") {
+        pos += 1;
+        skipSpaces();
+      } else if (text[pos] !== close) {
+        throw new YamlError(`Unexpected "${text[pos] ?? "end of line"}" in flow collection`, lineNumber);
+      }
+    }
+    pos += 1;
+    return close === "]" ? list : map;
+  };
+
+  const value = parseItem("");
+  skipSpaces();
+  if (pos < text.length) throw new YamlError(`Unexpected trailing content "${text.slice(pos)}"`, lineNumber);
+  return value;
+};
+
+export const parseYaml = (source: string): YamlValue => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  // The newline that ends the last line does not start another one; `|+` scalars would keep it.
+  if (lines[lines.length - 1] === "") lines.pop();
+  let index = 0;
+
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+  const isBlank = (line: string) => /^\s*(#.*)?$/.test(line);
+
+  const skipIgnorable = () => {
+    while (index < lines.length && (isBlank(lines[index]) || /^---\s*(#.*)?$/.test(lines[index]))) {
+      index += 1;
+    }
+    if (index < lines.length && /^\.\.\.\s*$/.test(lines[index])) {
+      index = lines.length;
+    }
+  };
+
+  const checkIndentation = (line: string, lineNumber: number) => {
+    if (/^ *\t/.test(line)) throw new YamlError("Tabs are not allowed for indentation", lineNumber);
+  };
+
+  const readBlockScalar = (header: string, parentIndent: number): string => {
+    const style = header[0];
+    const chomping = header.includes("-") ? "strip" : header.includes("+") ? "keep" : "clip";
+    const collected: string[] = [];
+    let blockIndent: number | undefined;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (line.trim() === "") {
+        // Spaces past the block's indentation are content; keep them so the text round-trips.
+        collected.push(blockIndent !== undefined && line.length > blockIndent ? line.slice(blockIndent) : "");
+        index += 1;
+        continue;
+      }
+      const indent = indentOf(line);
+      if (indent <= parentIndent) break;
+      blockIndent ??= indent;
+      if (indent < blockIndent) {
+        throw new YamlError("Block scalar line is less indented than the first line", index + 1);
+      }
+      collected.push(line.slice(blockIndent));
+      index += 1;
+    }
+
+    let trailing = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === "") {
+      collected.pop();
+      trailing += 1;
+    }
+
+    const body =
+      style === ">"
+        ? collected.reduce(
+            (text, line, position) =>
+              position === 0
+                ? line
+                : line === ""
+                  ? `${text}\n`
+                  : collected[position - 1] === ""
+                    ? `${text}${line}`
+                    : `${text} ${line}`,
+            "",
+          )
+        : collected.join("\n");
+
+    if (chomping === "strip" || collected.length === 0) return body;
+    if (chomping === "keep") return `${body}\n${"\n".repeat(trailing)}`;
+    return `${body}\n`;
+  };
+
+  const parseInline = (text: string, parentIndent: number, lineNumber: number): YamlValue => {
+    if (/^[&*!]/.test(text)) {
+      throw new YamlError("Anchors, aliases and tags are not supported", lineNumber);
+    }
+    if (/^[|>][-+0-9]*$/.test(text)) return readBlockScalar(text, parentIndent);
+    if (text.startsWith("[") || text.startsWith("{")) return parseFlow(text, lineNumber);
+    if (text.startsWith('"') || text.startsWith("'")) {
+      if (closingQuote(text, 0) !== text.length - 1) {
+        throw new YamlError("Quoted strings must fit on one line", lineNumber);
+      }
+      return unquote(text, lineNumber);
+    }
+    return resolvePlain(text);
+  };
+
+  const isSequenceItem = (content: string) => content === "-" || content.startsWith("- ");
+
+  const parseSequence = (indent: number): YamlValue[] => {
+    const result: YamlValue[] = [];
+
+    for (skipIgnorable(); index < lines.length; skipIgnorable()) {
+      const line = lines[index];
+      const lineNumber = index + 1;
+      checkIndentation(line, lineNumber);
+      const lineIndent = indentOf(line);
+      if (lineIndent > indent) throw new YamlError("Unexpected indentation", lineNumber);
+      const content = stripComment(line.slice(indent));
+      if (lineIndent < indent || !isSequenceItem(content)) break;
+
+      const rest = content.slice(1).trimStart();
+      if (!rest) {
+        index += 1;
+        skipIgnorable();
+        const nestedIndent = index < lines.length ? indentOf(lines[index]) : 0;
+        result.push(nestedIndent > indent ? parseNode(nestedIndent) : null);
+        continue;
+      }
+
+      if (isSequenceItem(rest) || mappingColon(rest) !== -1) {
+        // Re-read "- key: value" as a nested node that starts at the item's content column.
+        const offset = indent + (content.length - rest.length);
+        lines[index] = " ".repeat(offset) + line.slice(offset);
+        result.push(parseNode(offset));
+        continue;
+      }
+
+      index += 1;
+      result.push(parseInline(rest, indent, lineNumber));
+    }
+
+    return result;
+  };
+
+  const parseMapping = (indent: number): { [key: string]: YamlValue } => {
+    const result: { [key: string]: YamlValue } = {};
+
+    for (skipIgnorable(); index < lines.length; skipIgnorable()) {
+      const line = lines[index];
+      const lineNumber = index + 1;
+      checkIndentation(line, lineNumber);
+      const lineIndent = indentOf(line);
+      if (lineIndent > indent) throw new YamlError("Unexpected indentation", lineNumber);
+      if (lineIndent < indent) break;
+
+      const content = stripComment(line.slice(indent));
+      if (isSequenceItem(content)) break;
+      const colon = mappingColon(content);
+      if (colon === -1) throw new YamlError(`Expected "key: value", found "${content}"`, lineNumber);
+
+      const rawKey = content.slice(0, colon).trim();
+      const key = rawKey.startsWith('"') || rawKey.startsWith("'") ? unquote(rawKey, lineNumber) : rawKey;
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw new YamlError(`Duplicate key "${key}"`, lineNumber);
+      }
+      const rest = content.slice(colon + 1).trim();
+      index += 1;
+
+      if (rest) {
+        result[key] = parseInline(rest, indent, lineNumber);
+        continue;
+      }
+
+      skipIgnorable();
+      if (index >= lines.length) {
+        result[key] = null;
+        continue;
+      }
+      const nextIndent = indentOf(lines[index]);
+      const nextContent = stripComment(lines[index].slice(nextIndent));
+      if (nextIndent > indent) {
+        result[key] = parseNode(nextIndent);
+      } else if (nextIndent === indent && isSequenceItem(nextContent)) {
+        result[key] = parseSequence(indent);
+      } else {
+        result[key] = null;
+      }
+    }
+
+    return result;
+  };
+
+  const parseNode = (indent: number): YamlValue => {
+    skipIgnorable();
+    if (index >= lines.length) return null;
+
+    const line = lines[index];
+    checkIndentation(line, index + 1);
+    const content = stripComment(line.slice(indentOf(line)));
+    if (isSequenceItem(content)) return parseSequence(indent);
+    if (mappingColon(content) !== -1) return parseMapping(indent);
+
+    index += 1;
+    return parseInline(content, indent - 1, index);
+  };
+
+  const document = parseNode(0);
+  skipIgnorable();
+  if (index < lines.length) {
+    throw new YamlError(`Unexpected content "${lines[index].trim()}"`, index + 1);
+  }
+  return document;
+};
+
+const needsQuotes = (value: string) =>
+  value === "" ||
+  value !== value.trim() ||
+  RESERVED_PATTERN.test(value) ||
+  NUMBER_PATTERN.test(value) ||
+  /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+  /^(---|\.\.\.)(\s|$)/.test(value) ||
+  /: |\s#|:$/.test(value) ||
+  /[\u0000-\u001f\u007f]/.test(value);
+
+const formatKey = (key: string) => (needsQuotes(key) ? JSON.stringify(key) : key);
+
+// A block needs at least one non-empty line; "\n" alone would read back as "".
+const isBlockString = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.includes("\n") &&
+  /[^\n]/.test(value) &&
+  !/^[ \t]/.test(value) &&
+  !/[\r\t]/.test(value);
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  const text = String(value);
+  return needsQuotes(text) ? JSON.stringify(text) : text;
+};
+
+const blockScalar = (value: string, indent: number) => {
+  const trimmed = value.replace(/\n+$/, "");
+  const trailing = value.length - trimmed.length;
+  const header = trailing === 0 ? "|-" : trailing === 1 ? "|" : "|+";
+  const pad = " ".repeat(indent);
+  const body = trimmed.split("\n").map((line) => (line ? `${pad}${line}` : ""));
+  return { header, lines: trailing > 1 ? [...body, ...new Array<string>(trailing - 1).fill("")] : body };
+};
+
+const isNonEmptyCollection = (value: unknown): value is object =>
+  typeof value === "object" && value !== null && Object.keys(value).length > 0;
+
+const emit = (value: unknown, indent: number): string[] => {
+  const pad = " ".repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (isNonEmptyCollection(item) && !Array.isArray(item)) {
+        const [first, ...rest] = emit(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+      if (isNonEmptyCollection(item)) return [`${pad}-`, ...emit(item, indent + 2)];
+      if (isBlockString(item)) {
+        const block = blockScalar(item, indent + 2);
+        return [`${pad}- ${block.header}`, ...block.lines];
+      }
+      return [`${pad}- ${emitInline(item)}`];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .flatMap(([key, entry]) => {
+      const label = `${pad}${formatKey(key)}:`;
+      if (isNonEmptyCollection(entry)) return [label, ...emit(entry, indent + 2)];
+      if (isBlockString(entry)) {
+        const block = blockScalar(entry, indent + 2);
+        return [`${label} ${block.header}`, ...block.lines];
+      }
+      return [`${label} ${emitInline(entry)}`];
+    });
+};
+
+const emitInline = (value: unknown) => {
+  if (Array.isArray(value)) return "[]";
+  if (typeof value === "object" && value !== null) return "{}";
+  return formatScalar(value);
+};
+
+export const stringifyYaml = (value: unknown): string => {
+  if (!isNonEmptyCollection(value)) return `${emitInline(value)}\n`;
+  return `${emit(value, 0).join("\n")}\n`;
+};